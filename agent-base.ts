@@ -2,11 +2,21 @@ export class Agent {
     protected name: string;
     protected description: string;
     protected version: string;
+    private commands: Map<string, CommandHandler> = new Map();
+    private commandList: CommandHandler[] = [];
     
     constructor(config: {name: string, description: string, version: string}) {
       this.name = config.name;
       this.description = config.description;
       this.version = config.version;
+    
+      this.addCommandHandler(new CommandHandler({
+        name: 'help',
+        description: 'List the commands, or show how to use one of them',
+        aliases: ['commands'],
+        args: [{ name: 'command', description: 'Command to explain' }],
+        handler: async (msg, command) => this.reply(msg, this.formatHelp(command.args.command as string | undefined, this.isAdmin(msg)))
+      }));
     }
     
     async start() {
@@ -14,49 +24,326 @@ export class Agent {
       return true;
     }
     
-    reply(message: any, content: string) {
+    // Subclasses send the reply somewhere real; they may return a promise that settles once it's sent
+    reply(message: any, content: string): void | Promise<void> {
       console.log(`Reply to message: ${content}`);
     }
     
     async onMessage(msg: Message): Promise<void> {
+      if (msg.isCommand()) {
+        await this.dispatchCommand(msg);
+        return;
+      }
       console.log(`Received message: ${msg.content}`);
     }
     
     addCommandHandler(handler: CommandHandler) {
+      for (const key of [handler.name, ...handler.aliases]) {
+        const existing = this.commands.get(key.toLowerCase());
+        if (existing) {
+          throw new Error(`Command "/${key}" is already registered by "/${existing.name}"`);
+        }
+      }
+    
+      for (const key of [handler.name, ...handler.aliases]) {
+        this.commands.set(key.toLowerCase(), handler);
+      }
+      this.commandList.push(handler);
       console.log(`Registered command: ${handler.name}`);
     }
+    
+    getCommands(): CommandHandler[] {
+      return [...this.commandList];
+    }
+    
+    // Whether the sender may run adminOnly commands; no one can unless a subclass says so
+    protected isAdmin(msg: Message): boolean {
+      return false;
+    }
+    
+    // Parse and run a command such as "/search crispr --days 7". `text` defaults to the
+    // message content; callers pass it when they've rewritten a natural-language request.
+    // Returns false when the text isn't a command at all.
+    async dispatchCommand(msg: Message, text: string = msg.content): Promise<boolean> {
+      const match = text.trim().match(/^\/(\S+)\s*([\s\S]*)$/);
+      if (!match) {
+        return false;
+      }
+    
+      // Admin commands don't exist as far as everyone else can tell
+      const found = this.commands.get(match[1].toLowerCase());
+      const handler = found && (!found.adminOnly || this.isAdmin(msg)) ? found : undefined;
+      if (!handler) {
+        await this.reply(msg, `Unknown command "/${match[1]}". Send /help to see what I can do.`);
+        return true;
+      }
+    
+      let command: ParsedCommand;
+      try {
+        command = parseCommandArguments(handler, match[2]);
+      } catch (error) {
+        if (!(error instanceof CommandSyntaxError)) {
+          throw error;
+        }
+        await this.reply(msg, `${error.message}\nUsage: ${formatUsage(handler)}`);
+        return true;
+      }
+    
+      try {
+        await handler.handler(msg, command);
+      } catch (error) {
+        console.error(`Error running command /${handler.name}:`, error);
+        await this.reply(msg, `Something went wrong running /${handler.name}. Please try again later.`);
+      }
+      return true;
+    }
+    
+    protected formatHelp(commandName?: string, includeAdmin: boolean = false): string {
+      if (commandName) {
+        const handler = this.commands.get(commandName.replace(/^\//, '').toLowerCase());
+        if (!handler || (handler.adminOnly && !includeAdmin)) {
+          return `No command called "${commandName}". Send /help for the full list.`;
+        }
+    
+        const lines = [`${formatUsage(handler)}`, handler.description];
+        if (handler.aliases.length > 0) {
+          lines.push(`Also: ${handler.aliases.map(alias => `/${alias}`).join(', ')}`);
+        }
+        for (const arg of handler.args) {
+          lines.push(`  ${arg.name}: ${arg.description}`);
+        }
+        for (const flag of handler.flags) {
+          const fallback = flag.default !== undefined ? ` (default ${flag.default})` : '';
+          lines.push(`  --${flag.name}: ${flag.description}${fallback}`);
+        }
+        return lines.join('\n');
+      }
+    
+      const lines = this.commandList
+        .filter(handler => includeAdmin || !handler.adminOnly)
+        .map(handler => `${formatUsage(handler)} - ${handler.description}`);
+      return `Commands:\n${lines.join('\n')}\nSend /help <command> for details.`;
+    }
   }
-  
+    
+  export type MessageChannel = 'dm' | 'mention';
+    
   export class Message {
     content: string;
-    author?: {displayName: string};
+    author?: {displayName: string, id?: string, username?: string};
+    // Platform ID of the message, used to reply in place
+    id?: string;
+    // Platform ID of the thread the message belongs to, for follow-ups
+    conversationId?: string;
+    channel: MessageChannel;
     
-    constructor(content: string, author?: {displayName: string}) {
+    constructor(content: string, author?: {displayName: string, id?: string, username?: string}, options: {id?: string, channel?: MessageChannel, conversationId?: string} = {}) {
       this.content = content;
       this.author = author;
+      this.id = options.id;
+      this.conversationId = options.conversationId;
+      this.channel = options.channel || 'dm';
     }
     
     isDM() {
-      return true;
+      return this.channel === 'dm';
     }
     
     isMention() {
-      return false;
+      return this.channel === 'mention';
     }
     
     isCommand() {
-      return this.content.startsWith('/');
+      return this.content.trim().startsWith('/');
     }
   }
-  
+    
+  export type CommandValueType = 'string' | 'number' | 'boolean';
+  export type CommandValue = string | number | boolean;
+    
+  export interface CommandArgument {
+    name: string;
+    description: string;
+    type?: 'string' | 'number';     // default 'string'
+    required?: boolean;
+    // Swallow every remaining word, e.g. a free-text search query
+    rest?: boolean;
+  }
+    
+  export interface CommandFlag {
+    name: string;
+    description: string;
+    type: CommandValueType;
+    default?: CommandValue;
+  }
+    
+  export interface ParsedCommand {
+    name: string;
+    args: {[name: string]: CommandValue | undefined};
+    flags: {[name: string]: CommandValue | undefined};
+  }
+    
   export class CommandHandler {
     name: string;
     description: string;
-    handler: (msg: Message) => Promise<any>;
+    aliases: string[];
+    args: CommandArgument[];
+    flags: CommandFlag[];
+    // Only runs (and only shows in /help) for senders the agent's isAdmin() accepts
+    adminOnly: boolean;
+    handler: (msg: Message, command: ParsedCommand) => Promise<any>;
     
-    constructor(config: {name: string, description: string, handler: (msg: Message) => Promise<any>}) {
+    constructor(config: {
+      name: string,
+      description: string,
+      aliases?: string[],
+      args?: CommandArgument[],
+      flags?: CommandFlag[],
+      adminOnly?: boolean,
+      handler: (msg: Message, command: ParsedCommand) => Promise<any>
+    }) {
       this.name = config.name;
       this.description = config.description;
+      this.aliases = config.aliases || [];
+      this.args = config.args || [];
+      this.flags = config.flags || [];
+      this.adminOnly = config.adminOnly || false;
       this.handler = config.handler;
     }
-  }
\ No newline at end of file
+  }
+    
+  // A command the user typed wrong; the message is shown to them along with the usage line
+  export class CommandSyntaxError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'CommandSyntaxError';
+    }
+  }
+    
+  // One word or quoted phrase of a command, with where it sits in the text
+  interface CommandToken {
+    value: string;      // without its quotes
+    index: number;      // position among the tokens
+    start: number;
+    end: number;
+  }
+    
+  // Split on whitespace, keeping "quoted phrases" (straight or curly quotes) together
+  export function tokenizeCommand(text: string): string[] {
+    return locateTokens(text).map(token => token.value);
+  }
+    
+  function locateTokens(text: string): CommandToken[] {
+    const tokens: CommandToken[] = [];
+    const pattern = /"([^"]*)"|“([^”]*)”|(\S+)/g;
+    let match: RegExpExecArray | null;
+    
+    while ((match = pattern.exec(text)) !== null) {
+      tokens.push({
+        value: match[1] !== undefined ? match[1] : match[2] !== undefined ? match[2] : match[3],
+        index: tokens.length,
+        start: match.index,
+        end: match.index + match[0].length
+      });
+    }
+    
+    return tokens;
+  }
+    
+  // The text of a rest argument as typed, quotes and all, so handlers that read their own
+  // syntax (such as /search "heart failure" type:rct) still see it. Options that were mixed
+  // in between are left out.
+  function restText(text: string, tokens: CommandToken[]): string {
+    return tokens.map((token, i) => {
+      if (i === 0) {
+        return text.slice(token.start, token.end);
+      }
+      const previous = tokens[i - 1];
+      return previous.index + 1 === token.index
+        ? text.slice(previous.end, token.end)
+        : ` ${text.slice(token.start, token.end)}`;
+    }).join('');
+  }
+    
+  export function parseCommandArguments(handler: CommandHandler, text: string): ParsedCommand {
+    const flags: ParsedCommand['flags'] = {};
+    const positional: CommandToken[] = [];
+    const tokens = locateTokens(text);
+    
+    for (const flag of handler.flags) {
+      flags[flag.name] = flag.default;
+    }
+    
+    for (let i = 0; i < tokens.length; i++) {
+      // Phones like to turn "--" into an em dash
+      const token = tokens[i].value.replace(/^[—–]/, '--');
+      if (!/^--\S/.test(token)) {
+        positional.push(tokens[i]);
+        continue;
+      }
+    
+      const [name, inlineValue] = token.slice(2).split(/=(.*)/s);
+      const flag = handler.flags.find(f => f.name === name.toLowerCase());
+      if (!flag) {
+        throw new CommandSyntaxError(`Unknown option --${name} for /${handler.name}.`);
+      }
+    
+      if (flag.type === 'boolean') {
+        flags[flag.name] = inlineValue === undefined ? true : !/^(false|no|0)$/i.test(inlineValue);
+        continue;
+      }
+    
+      let raw = inlineValue;
+      if (raw === undefined && i + 1 < tokens.length) {
+        raw = tokens[++i].value;
+      }
+      if (raw === undefined) {
+        throw new CommandSyntaxError(`Option --${flag.name} needs a value.`);
+      }
+      flags[flag.name] = coerceCommandValue(raw, flag.type, `--${flag.name}`);
+    }
+    
+    const args: ParsedCommand['args'] = {};
+    for (const arg of handler.args) {
+      const next = arg.rest ? undefined : positional.shift();
+      const raw = arg.rest ? restText(text, positional.splice(0)) : next && next.value;
+    
+      if (raw === undefined || raw === '') {
+        if (arg.required) {
+          throw new CommandSyntaxError(`Missing ${arg.name}.`);
+        }
+        continue;
+      }
+      args[arg.name] = coerceCommandValue(raw, arg.type || 'string', arg.name);
+    }
+    
+    if (positional.length > 0) {
+      throw new CommandSyntaxError(`Unexpected "${positional.map(token => token.value).join(' ')}".`);
+    }
+    
+    return { name: handler.name, args, flags };
+  }
+    
+  function coerceCommandValue(raw: string, type: CommandValueType, label: string): CommandValue {
+    if (type === 'number') {
+      const value = Number(raw);
+      if (raw.trim() === '' || !isFinite(value)) {
+        throw new CommandSyntaxError(`${label} must be a number, got "${raw}".`);
+      }
+      return value;
+    }
+    if (type === 'boolean') {
+      return !/^(false|no|0)$/i.test(raw);
+    }
+    return raw;
+  }
+    
+  export function formatUsage(handler: CommandHandler): string {
+    const args = handler.args.map(arg => {
+      const label = arg.rest ? `${arg.name}...` : arg.name;
+      return arg.required ? `<${label}>` : `[${label}]`;
+    });
+    const flags = handler.flags.map(flag => flag.type === 'boolean' ? `[--${flag.name}]` : `[--${flag.name} <${flag.type}>]`);
+    
+    return [`/${handler.name}`, ...args, ...flags].join(' ');
+  }
@@ -0,0 +1,313 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { TwitterPubMedAgent } from './twitter-pubmed-agent';
+import { ArticleNotFoundError } from './literature-sources';
+
+// A small JSON API over the agent, for other tools on the same machine:
+//   GET    /search?q=<text>[&source=][&days=][&limit=]  articles, as PubMedArticle
+//   GET    /articles/<id>                               one PubMedArticle
+//   GET    /rating/<id>                                 its ArticleRating
+//   POST   /summarize  {"id": "<id>"}                   a summary in the bot's voice
+//   GET    /queue                                       tweets waiting to be posted
+//   POST   /queue      {"text": "...", "articleId"?}    queue a tweet (safety-reviewed)
+//   DELETE /queue/<id>                                  take a tweet out of the queue
+// IDs are anything /summarize accepts: PMIDs, NCT numbers, preprint DOIs. With a token
+// configured, every request needs "Authorization: Bearer <token>". Errors come back
+// as {"error": "..."} with a 4xx/5xx status.
+
+export interface ApiServerOptions {
+  port: number;
+  host?: string;
+  // Bearer token clients must send; no auth without one
+  token?: string;
+}
+
+type RouteHandler = (request: ApiRequest) => Promise<ApiResponse>;
+
+interface ApiRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+}
+
+interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Thrown by handlers to answer with an error status
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// A bad escape such as "%E0%A4%A" is the client's mistake, not a server error
+function decodePathParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch (error) {
+    throw new HttpError(400, `Malformed escape in the path: ${param}`);
+  }
+}
+
+export class ApiServer {
+  private agent: TwitterPubMedAgent;
+  private options: ApiServerOptions;
+  private routes: Route[];
+  private server: http.Server | null = null;
+
+  constructor(agent: TwitterPubMedAgent, options: ApiServerOptions) {
+    this.agent = agent;
+    this.options = options;
+    this.routes = [
+      { method: 'GET', pattern: /^\/search$/, handler: request => this.search(request) },
+      { method: 'GET', pattern: /^\/articles\/(.+)$/, handler: request => this.getArticle(request) },
+      { method: 'GET', pattern: /^\/rating\/(.+)$/, handler: request => this.getRating(request) },
+      { method: 'POST', pattern: /^\/summarize$/, handler: request => this.summarize(request) },
+      { method: 'GET', pattern: /^\/queue$/, handler: async () => ({ status: 200, body: this.agent.getQueuedTweets() }) },
+      { method: 'POST', pattern: /^\/queue$/, handler: request => this.queueTweet(request) },
+      { method: 'DELETE', pattern: /^\/queue\/(.+)$/, handler: request => this.cancelQueuedTweet(request) }
+    ];
+
+    const host = options.host || '127.0.0.1';
+    if (!options.token && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+      console.warn(`The API listens on ${host} without a token (API_TOKEN); anyone who can reach it can queue tweets`);
+    }
+  }
+
+  start(): Promise<void> {
+    const host = this.options.host || '127.0.0.1';
+
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          console.error('Error handling API request:', error);
+          if (!res.headersSent) {
+            this.send(res, 500, { error: 'Internal error' });
+          }
+        });
+      });
+
+      server.once('error', reject);
+      server.listen(this.options.port, host, () => {
+        server.removeListener('error', reject);
+        this.server = server;
+        console.log(`API listening on http://${host}:${this.options.port}${this.options.token ? ' (bearer token required)' : ''}`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) {
+        return resolve();
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const startedAt = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    let response: ApiResponse;
+
+    try {
+      if (!this.isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new HttpError(401, 'Missing or wrong bearer token');
+      }
+
+      const matching = this.routes.filter(route => route.pattern.test(url.pathname));
+      const route = matching.find(candidate => candidate.method === method);
+      if (!route) {
+        if (matching.length > 0) {
+          res.setHeader('Allow', matching.map(candidate => candidate.method).join(', '));
+          throw new HttpError(405, `${method} is not supported on ${url.pathname}`);
+        }
+        throw new HttpError(404, `No such endpoint: ${url.pathname}`);
+      }
+
+      const params = url.pathname.match(route.pattern)!.slice(1).map(decodePathParam);
+      const body = method === 'POST' ? await this.readJsonBody(req) : undefined;
+      response = await route.handler({ params, query: url.searchParams, body });
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      response = { status: error.status, body: { error: error.message } };
+      // The rest of an over-long body isn't wanted: close the connection once the 413 is out
+      if (error.status === 413) {
+        res.setHeader('Connection', 'close');
+      }
+    }
+
+    this.send(res, response.status, response.body);
+    console.log(`API ${method} ${url.pathname} ${response.status} (${Date.now() - startedAt}ms)`);
+  }
+
+  // Compare digests so the check takes the same time however much of the token matches
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.options.token) {
+      return true;
+    }
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return false;
+    }
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(match[1]), digest(this.options.token));
+  }
+
+  private readJsonBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let chunks: Buffer[] = [];
+      let size = 0;
+      let tooLarge = false;
+
+      req.on('data', (chunk: Buffer) => {
+        // Past the limit the rest is read and dropped; cutting the connection here would
+        // reset it before the client sees the 413
+        if (tooLarge) {
+          return;
+        }
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          tooLarge = true;
+          chunks = [];
+          reject(new HttpError(413, `Request body over ${MAX_BODY_BYTES} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        if (tooLarge) {
+          return;
+        }
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve(text.trim() ? JSON.parse(text) : {});
+        } catch (error) {
+          reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body?: unknown): void {
+    if (body === undefined) {
+      res.writeHead(status);
+      res.end();
+      return;
+    }
+    const json = JSON.stringify(body, null, 2);
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+    res.end(json);
+  }
+
+  private async search({ query }: ApiRequest): Promise<ApiResponse> {
+    const number = (name: string) => {
+      const value = query.get(name);
+      if (value === null) {
+        return undefined;
+      }
+      if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `${name} must be a whole number`);
+      }
+      return Number(value);
+    };
+
+    const request = this.agent.parseSearchRequest(query.get('q') || '', {
+      days: number('days'),
+      limit: number('limit'),
+      source: query.get('source') || undefined
+    });
+    if (typeof request === 'string') {
+      throw new HttpError(400, request);
+    }
+
+    const articles = await this.agent.searchRecentArticles(request.query, request.limit || 5, request.source, request.days, request.filters);
+    return { status: 200, body: { ...request, articles } };
+  }
+
+  private async getArticle({ params }: ApiRequest): Promise<ApiResponse> {
+    return { status: 200, body: await this.fetchArticle(params[0]) };
+  }
+
+  private async getRating({ params }: ApiRequest): Promise<ApiResponse> {
+    const article = await this.fetchArticle(params[0]);
+    const content = await this.agent.fetchFullArticleContent(article);
+    return { status: 200, body: this.agent.rateArticle(article, content) };
+  }
+
+  private async summarize({ body }: ApiRequest): Promise<ApiResponse> {
+    if (!body || typeof body.id !== 'string') {
+      throw new HttpError(400, 'Send {"id": "<PMID, NCT number or preprint DOI>"}');
+    }
+
+    const article = await this.fetchArticle(body.id);
+    const content = await this.agent.fetchFullArticleContent(article);
+    const summary = await this.agent.generateSummary(article, content, 'api');
+    return { status: 200, body: { article, summary } };
+  }
+
+  private async queueTweet({ body }: ApiRequest): Promise<ApiResponse> {
+    if (!body || typeof body.text !== 'string' || !body.text.trim()) {
+      throw new HttpError(400, 'Send {"text": "...", "articleId": "<optional>"}');
+    }
+    if (body.articleId !== undefined && typeof body.articleId !== 'string') {
+      throw new HttpError(400, 'articleId must be a string');
+    }
+
+    const outcome = this.agent.queueTweet(body.text.trim(), body.articleId);
+    switch (outcome.status) {
+      case 'queued':
+        return { status: 201, body: outcome.entry };
+      case 'awaiting-approval':
+        return { status: 202, body: { id: outcome.id, status: 'pending' } };
+      case 'blocked':
+        throw new HttpError(422, `Blocked by the safety guard: ${outcome.reasons.join('; ')}`);
+    }
+  }
+
+  private async cancelQueuedTweet({ params }: ApiRequest): Promise<ApiResponse> {
+    if (!this.agent.cancelQueuedTweet(params[0])) {
+      throw new HttpError(404, `No queued tweet ${params[0]}`);
+    }
+    return { status: 204 };
+  }
+
+  private async fetchArticle(id: string) {
+    const articleId = id.trim();
+    if (!this.agent.isValidArticleId(articleId)) {
+      throw new HttpError(400, `"${articleId}" is not a PMID, NCT number or preprint DOI`);
+    }
+
+    try {
+      return await this.agent.fetchArticleById(articleId);
+    } catch (error) {
+      // Only a source that answered "no such record" means the article doesn't exist;
+      // timeouts and server errors upstream are a bad gateway
+      if (error instanceof ArticleNotFoundError) {
+        throw new HttpError(404, `${error.message}: ${articleId}`);
+      }
+      throw new HttpError(502, `Couldn't fetch article ${articleId}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PubMedArticle, ArticleRating } from './pubmed-agent';
+import { PostAttribution } from './engagement-store';
+
+// Posts waiting for a human decision. Like the state log this is an append-only JSON
+// Lines file, but it's shared: the agent submits candidates and moves approved ones
+// into its queue, while the review CLI (review.ts) records decisions from another
+// process. Both sides only ever append, and re-read the file before acting on it.
+
+export type CandidateStatus = 'pending' | 'approved' | 'rejected' | 'queued';
+
+export interface PostCandidate {
+  id: string;
+  text: string;
+  generatedText: string;     // the text as the agent wrote it, before any edits
+  articleId?: string;
+  article?: PubMedArticle;
+  rating?: ArticleRating;
+  attribution?: PostAttribution;
+  status: CandidateStatus;
+  createdAt: string;
+  scheduledFor?: string;     // not posted before this time
+  reviewedAt?: string;
+  rejectReason?: string;
+}
+
+type ApprovalEvent =
+  | { type: 'submit'; at: string; candidate: PostCandidate }
+  | { type: 'edit'; at: string; id: string; text: string }
+  | { type: 'approve'; at: string; id: string }
+  | { type: 'reject'; at: string; id: string; reason?: string }
+  | { type: 'reschedule'; at: string; id: string; scheduledFor: string }
+  | { type: 'queued'; at: string; id: string };
+
+export class ApprovalStore {
+  private filePath: string;
+  private candidates: Map<string, PostCandidate> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // Replay the file from disk; call again to pick up decisions made by the other process
+  load(): void {
+    this.candidates.clear();
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        this.apply(JSON.parse(line));
+      } catch (error) {
+        console.warn(`Skipping unreadable approval entry at ${this.filePath}:${index + 1}`);
+      }
+    }
+  }
+
+  // Oldest first; without a status, everything
+  list(status?: CandidateStatus): PostCandidate[] {
+    return Array.from(this.candidates.values())
+      .filter(candidate => !status || candidate.status === status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Look up by full id or by an unambiguous prefix of one
+  find(idOrPrefix: string): PostCandidate {
+    const exact = this.candidates.get(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = Array.from(this.candidates.keys()).filter(id => id.startsWith(idOrPrefix));
+    if (matches.length === 0) {
+      throw new Error(`No candidate with id "${idOrPrefix}"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${idOrPrefix}" matches ${matches.length} candidates: ${matches.join(', ')}`);
+    }
+    return this.candidates.get(matches[0])!;
+  }
+
+  submit(text: string, details: { articleId?: string; article?: PubMedArticle; rating?: ArticleRating; attribution?: PostAttribution } = {}): PostCandidate {
+    const now = new Date();
+    const candidate: PostCandidate = {
+      id: `${now.getTime().toString(36)}${details.articleId ? `-${details.articleId}` : ''}`,
+      text,
+      generatedText: text,
+      articleId: details.articleId,
+      article: details.article,
+      rating: details.rating,
+      attribution: details.attribution,
+      status: 'pending',
+      createdAt: now.toISOString()
+    };
+
+    this.append({ type: 'submit', at: candidate.createdAt, candidate });
+    return candidate;
+  }
+
+  edit(idOrPrefix: string, text: string): PostCandidate {
+    const candidate = this.requireStatus(idOrPrefix, ['pending', 'approved'], 'edit');
+    if (!text.trim()) {
+      throw new Error('The new text is empty');
+    }
+    this.append({ type: 'edit', at: new Date().toISOString(), id: candidate.id, text });
+    return this.candidates.get(candidate.id)!;
+  }
+
+  approve(idOrPrefix: string): PostCandidate {
+    const candidate = this.requireStatus(idOrPrefix, ['pending'], 'approve');
+    this.append({ type: 'approve', at: new Date().toISOString(), id: candidate.id });
+    return this.candidates.get(candidate.id)!;
+  }
+
+  reject(idOrPrefix: string, reason?: string): PostCandidate {
+    const candidate = this.requireStatus(idOrPrefix, ['pending', 'approved'], 'reject');
+    this.append({ type: 'reject', at: new Date().toISOString(), id: candidate.id, reason });
+    return this.candidates.get(candidate.id)!;
+  }
+
+  reschedule(idOrPrefix: string, when: Date): PostCandidate {
+    const candidate = this.requireStatus(idOrPrefix, ['pending', 'approved'], 'reschedule');
+    this.append({ type: 'reschedule', at: new Date().toISOString(), id: candidate.id, scheduledFor: when.toISOString() });
+    return this.candidates.get(candidate.id)!;
+  }
+
+  // The agent has taken the candidate into its tweet queue; no more decisions after this
+  markQueued(id: string): void {
+    this.append({ type: 'queued', at: new Date().toISOString(), id });
+  }
+
+  private requireStatus(idOrPrefix: string, allowed: CandidateStatus[], action: string): PostCandidate {
+    const candidate = this.find(idOrPrefix);
+    if (!allowed.includes(candidate.status)) {
+      throw new Error(`Can't ${action} ${candidate.id}: it is already ${candidate.status}`);
+    }
+    return candidate;
+  }
+
+  private append(event: ApprovalEvent): void {
+    this.apply(event);
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+    } catch (error) {
+      console.error('Error writing approval queue:', error);
+    }
+  }
+
+  private apply(event: ApprovalEvent): void {
+    if (event.type === 'submit') {
+      this.candidates.set(event.candidate.id, event.candidate);
+      return;
+    }
+
+    const candidate = this.candidates.get(event.id);
+    if (!candidate) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'edit':
+        this.candidates.set(event.id, { ...candidate, text: event.text });
+        break;
+
+      case 'approve':
+        this.candidates.set(event.id, { ...candidate, status: 'approved', reviewedAt: event.at });
+        break;
+
+      case 'reject':
+        this.candidates.set(event.id, { ...candidate, status: 'rejected', reviewedAt: event.at, rejectReason: event.reason });
+        break;
+
+      case 'reschedule':
+        this.candidates.set(event.id, { ...candidate, scheduledFor: event.scheduledFor });
+        break;
+
+      case 'queued':
+        this.candidates.set(event.id, { ...candidate, status: 'queued' });
+        break;
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EutilsClient, EutilsParams, EutilsTransport, IDCONV_URL, TokenBucket } from './eutils-client';
+import { PubMedSource } from './literature-sources';
+import { PmcClient } from './pmc-client';
+import { parsePubMedArticleSet } from './pubmed-xml-parser';
+
+// Runs the E-utilities client against the recorded responses in fixtures/eutils, with
+// a fake clock, so nothing goes over the network. Run after any change to the client:
+//   npm run check:eutils
+
+interface RecordedResponse {
+  note?: string;
+  utility: string;
+  params: {[name: string]: string};
+  status: number;
+  file?: string;
+  body?: string;
+  times?: number;      // served this many times, then skipped
+}
+
+interface SentRequest {
+  utility: string;
+  method: string;
+  params: EutilsParams;
+}
+
+const fixtureDir = path.join(__dirname, 'fixtures', 'eutils');
+const recorded: RecordedResponse[] = JSON.parse(fs.readFileSync(path.join(fixtureDir, 'responses.json'), 'utf8'));
+let failures = 0;
+let checks = 0;
+
+// Replays the first recorded response whose utility and parameters match the request
+function replay(sent: SentRequest[]): EutilsTransport {
+  const remaining = recorded.map(response => response.times || Infinity);
+
+  return async (url, params, method) => {
+    const utility = url === IDCONV_URL ? 'idconv' : path.basename(url, '.fcgi');
+    sent.push({ utility, method, params });
+
+    const index = recorded.findIndex((response, i) => remaining[i] > 0 && response.utility === utility &&
+      Object.keys(response.params).every(name => String(params[name]) === response.params[name]));
+    if (index < 0) {
+      throw new Error(`No recorded response for ${utility} ${JSON.stringify(params)}`);
+    }
+
+    remaining[index]--;
+    const response = recorded[index];
+    return { status: response.status, body: response.file ? fs.readFileSync(path.join(fixtureDir, response.file), 'utf8') : response.body || '' };
+  };
+}
+
+function fakeClock() {
+  const clock = { time: Date.UTC(2024, 9, 19, 12), slept: [] as number[] };
+  return {
+    clock,
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.slept.push(ms);
+      clock.time += ms;
+    }
+  };
+}
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+async function run(): Promise<void> {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eutils-cache-'));
+
+  try {
+    {
+      const sent: SentRequest[] = [];
+      const { now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, tool: 'check-eutils', email: 'dev@example.org' });
+      const articles = await new PubMedSource(eutils).search('statins', 5);
+      const problems: string[] = [];
+
+      expect(problems, articles.map(a => a.id).join() === '39412876,39401122', `got articles ${articles.map(a => a.id).join()}`);
+      expect(problems, articles[0].journal === 'Lancet (London, England)', `journal "${articles[0].journal}"`);
+      expect(problems, sent.length === 2, `${sent.length} requests sent, expected 2`);
+      expect(problems, sent.every(request => request.params.tool === 'check-eutils' && request.params.email === 'dev@example.org'), 'tool/email missing');
+      expect(problems, sent.every(request => request.params.api_key === undefined), 'api_key sent without a key');
+      expect(problems, sent[1].params.id === undefined, 'esummary sent the IDs instead of using the WebEnv');
+      check('search reads summaries from the history server and skips retracted titles', problems);
+    }
+
+    {
+      const sent: SentRequest[] = [];
+      const { clock, now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, cacheDir, cacheTtlHours: 24, email: 'dev@example.org', maxRetries: 2 });
+      const article = await new PubMedSource(eutils).fetchById('39412876');
+      const problems: string[] = [];
+
+      expect(problems, article.title.startsWith('Intensive statin therapy'), `title "${article.title}"`);
+      expect(problems, sent.length === 2, `${sent.length} requests sent, expected 2`);
+      expect(problems, clock.slept.includes(1000), `no 1s backoff after the rate limit (slept ${clock.slept.join(', ') || 'never'})`);
+      check('a rate-limited request is retried after a backoff', problems);
+    }
+
+    {
+      const sent: SentRequest[] = [];
+      const { clock, now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, cacheDir, cacheTtlHours: 24, email: 'dev@example.org' });
+      const problems: string[] = [];
+
+      await new PubMedSource(eutils).fetchById('39412876');
+      expect(problems, sent.length === 0, `${sent.length} requests sent for a cached lookup`);
+
+      clock.time += 25 * 60 * 60 * 1000;
+      await new PubMedSource(eutils).fetchById('39412876');
+      expect(problems, sent.length > 0, 'an expired cache entry was still used');
+      check('lookups by ID are cached on disk until the TTL runs out', problems);
+    }
+
+    {
+      const sent: SentRequest[] = [];
+      const { now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, tool: 'check-eutils', email: 'dev@example.org' });
+      const pmcid = await new PmcClient(eutils).resolvePmcid('39412876');
+      const problems: string[] = [];
+
+      expect(problems, pmcid === 'PMC11502231', `got PMCID ${pmcid}`);
+      expect(problems, sent.length === 1 && sent[0].utility === 'idconv', `sent ${sent.map(request => request.utility).join(', ') || 'nothing'}`);
+      expect(problems, sent.every(request => request.params.tool === 'check-eutils' && request.params.email === 'dev@example.org'), 'tool/email missing');
+      check('PMID to PMCID conversion goes through the client, with tool and email', problems);
+    }
+
+    {
+      const sent: SentRequest[] = [];
+      const { now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, apiKey: 'k3y', email: 'dev@example.org' });
+      const pages = await eutils.efetchBatch('pubmed', ['39412876', '39401122']);
+      const records = pages.reduce((all, page) => all.concat(parsePubMedArticleSet(page)), [] as ReturnType<typeof parsePubMedArticleSet>);
+      const problems: string[] = [];
+
+      expect(problems, sent.map(request => `${request.method} ${request.utility}`).join() === 'POST epost,GET efetch', `sent ${sent.map(request => request.utility).join()}`);
+      expect(problems, sent[1].params.id === undefined && sent[1].params.retmax === '200', 'efetch did not page through the WebEnv');
+      expect(problems, sent.every(request => request.params.api_key === 'k3y'), 'api_key missing');
+      expect(problems, records.map(record => record.pmid).join() === '39412876,39401122', `parsed ${records.map(record => record.pmid).join()}`);
+      expect(problems, records[1] && records[1].pmcid === 'PMC11498765', 'PMCID not parsed');
+      check('batch efetch posts the IDs once and reads them back by WebEnv', problems);
+    }
+
+    {
+      const sent: SentRequest[] = [];
+      const { clock, now, sleep } = fakeClock();
+      const eutils = new EutilsClient({ transport: replay(sent), now, sleep, email: 'dev@example.org' });
+      const problems: string[] = [];
+
+      const error = await eutils.efetch('nosuchdb', ['1']).then(() => null, (e: Error) => e);
+      expect(problems, !!error && /HTTP 400/.test(error.message), `expected an HTTP 400 error, got ${error ? error.message : 'success'}`);
+      expect(problems, sent.length === 1 && clock.slept.length === 0, 'a client error was retried');
+      check('client errors fail at once', problems);
+    }
+
+    {
+      const problems: string[] = [];
+      for (const [rate, label] of [[3, 'without'], [10, 'with']] as [number, string][]) {
+        const { clock, now, sleep } = fakeClock();
+        const bucket = new TokenBucket(rate, rate, now, sleep);
+        const start = clock.time;
+        await Promise.all(Array.from({ length: rate * 3 }, () => bucket.take()));
+        // A full bucket lets the first `rate` through at once; the rest take 2 more seconds
+        const elapsed = clock.time - start;
+        expect(problems, elapsed >= 1990 && elapsed <= 2010, `${rate * 3} requests ${label} a key took ${elapsed}ms, expected ~2000ms`);
+      }
+      check('the token bucket holds requests to 3/s without a key and 10/s with one', problems);
+    }
+  } finally {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n${checks - failures}/${checks} checks pass`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Message } from './agent-base';
+import { AgentConfig, defaultConfig } from './config';
+import { EutilsClient, EutilsTransport } from './eutils-client';
+import { FakeSocialClient } from './fake-social-client';
+import { createSeededRandom } from './random';
+import { TwitterPubMedAgent } from './twitter-pubmed-agent';
+
+// Runs the bot offline with a fixed random seed and compares what it writes with the
+// golden files in fixtures/golden: summaries of the fixture articles, the search result
+// list and the replies to every mention case in fixtures/golden/mentions.json. NCBI
+// answers come from the recorded responses. After an intended change to the wording,
+// check the reported difference and rewrite the golden files with --update:
+//   npm run check:golden [-- --update] [-- --verbose]
+
+interface MentionCase {
+  name: string;
+  note?: string;
+  mentions: { text: string; username: string }[];
+}
+
+const SEED = 20241019;
+const update = process.argv.includes('--update');
+const verbose = process.argv.includes('--verbose');
+const goldenDir = path.join(__dirname, 'fixtures', 'golden');
+const eutilsDir = path.join(__dirname, 'fixtures', 'eutils');
+const mentionCases: MentionCase[] = JSON.parse(fs.readFileSync(path.join(goldenDir, 'mentions.json'), 'utf8'));
+const log = console.log;
+let failures = 0;
+let checks = 0;
+
+// The bot narrates everything it does; keep that out of the report unless asked for
+if (!verbose) {
+  console.log = () => {};
+  console.warn = () => {};
+}
+
+// Every search finds the recorded statin articles. Responses are read from
+// fixtures/golden when it has them, otherwise from the E-utilities fixtures.
+const transport: EutilsTransport = async (url, params) => {
+  const utility = path.basename(url, '.fcgi');
+  const name = utility === 'esearch' ? 'esearch-history.json'
+    : utility === 'esummary' ? (params.id ? `esummary-${params.id}.json` : 'esummary-history.json')
+    : utility === 'epost' ? 'epost.xml'
+    : utility === 'efetch' ? `efetch-${params.db}.xml`
+    : '';
+  const file = [goldenDir, eutilsDir].map(dir => path.join(dir, name)).find(candidate => name && fs.existsSync(candidate));
+
+  if (!file) {
+    return { status: 400, body: JSON.stringify({ error: `No fixture for ${utility} ${JSON.stringify(params)}` }) };
+  }
+  return { status: 200, body: fs.readFileSync(file, 'utf8') };
+};
+
+// A fresh bot with its own state files, so no case depends on the ones before it
+function createBot(dir: string, socialClient: FakeSocialClient): TwitterPubMedAgent {
+  const config: AgentConfig = {
+    ...defaultConfig(),
+    personaFiles: [path.join(__dirname, 'personality-clinician.json')],
+    personaRules: 'topic:oncology=clinician',
+    timeZone: 'UTC',
+    stateFile: path.join(dir, 'agent-state.jsonl'),
+    safetyLogFile: path.join(dir, 'safety-log.jsonl'),
+    approvalFile: path.join(dir, 'approvals.jsonl'),
+    conversationFile: path.join(dir, 'conversations.json'),
+    userLimitsFile: path.join(dir, 'user-limits.json'),
+    engagementFile: path.join(dir, 'engagement.json')
+  };
+
+  return new TwitterPubMedAgent({
+    config,
+    socialClient,
+    eutils: new EutilsClient({ transport, tool: 'check-golden', email: 'dev@example.org' }),
+    random: createSeededRandom(SEED)
+  });
+}
+
+async function summaries(dir: string): Promise<string> {
+  const bot = createBot(dir, new FakeSocialClient());
+  const sections: string[] = [];
+
+  for (const article of await bot.searchRecentArticles('statins', 5)) {
+    const content = await bot.fetchFullArticleContent(article);
+    sections.push(`--- ${article.id}\n${await bot.generateSummary(article, content)}\n`);
+  }
+  return sections.join('\n');
+}
+
+async function articleList(dir: string): Promise<string> {
+  const bot = createBot(dir, new FakeSocialClient());
+  const articles = await bot.searchRecentArticles('statins', 5);
+  return `${bot.formatArticleListResponse(new Message('/search statins', { displayName: 'fay' }), articles, 'statins')}\n`;
+}
+
+// Each mention of a case goes into the same thread; every post the bot makes is listed after it
+async function mentionReplies(mentionCase: MentionCase, dir: string): Promise<string> {
+  const client = new FakeSocialClient();
+  const bot = createBot(dir, client);
+  await bot.start();
+
+  const lines: string[] = [];
+  for (const [index, mention] of mentionCase.mentions.entries()) {
+    const id = `${mentionCase.name}-${index + 1}`;
+    const before = client.posts.length;
+    await client.injectMention({ ...mention, id, conversationId: `${mentionCase.name}-1` });
+
+    lines.push(`>>> ${id} @${mention.username}: ${mention.text}`);
+    for (const post of client.posts.slice(before)) {
+      lines.push('', `--- ${post.id}, reply to ${post.inReplyTo}`, post.text);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function compare(name: string, actual: string): void {
+  checks++;
+  const file = path.join(goldenDir, `${name}.txt`);
+
+  if (update) {
+    fs.writeFileSync(file, actual);
+    log(`wrote ${path.relative(__dirname, file)}`);
+    return;
+  }
+
+  const expected = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+  const problem = expected === null ? 'no golden file yet (run with --update)' : firstDifference(expected, actual);
+  if (problem) {
+    failures++;
+  }
+  log(`${problem ? 'FAIL' : 'ok  '} ${name}${problem ? `: ${problem}` : ''}`);
+}
+
+function firstDifference(expected: string, actual: string): string | null {
+  if (expected === actual) {
+    return null;
+  }
+
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  const line = expectedLines.findIndex((text, i) => text !== actualLines[i]);
+  const at = line >= 0 ? line : expectedLines.length;
+  const show = (text?: string) => text === undefined ? 'the end of the file' : JSON.stringify(text);
+  return `line ${at + 1}: expected ${show(expectedLines[at])}, got ${show(actualLines[at])}`;
+}
+
+async function run(): Promise<void> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-golden-'));
+  const caseDir = (name: string) => {
+    const dir = path.join(workDir, name);
+    fs.mkdirSync(dir);
+    return dir;
+  };
+
+  try {
+    compare('summaries', await summaries(caseDir('summaries')));
+    compare('article-list', await articleList(caseDir('article-list')));
+    for (const mentionCase of mentionCases) {
+      compare(`mention-${mentionCase.name}`, await mentionReplies(mentionCase, caseDir(`mention-${mentionCase.name}`)));
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  log(update ? `\nwrote ${checks} golden files` : `\n${checks - failures}/${checks} golden files match`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+import { ArticleContent, PubMedArticle } from './pubmed-agent';
+import { checkGrounding } from './summarizer';
+
+// Runs the grounding check over summaries that should pass against their abstract and
+// ones that shouldn't: made-up numbers or drugs, and effects the source doesn't report,
+// reports the other way round or reports for a different outcome. Run after any change
+// to checkGrounding:
+//   npm run check:grounding
+
+interface GroundingCase {
+  name: string;
+  abstract: string;
+  summary: string;
+  grounded: boolean;
+}
+
+const CASES: GroundingCase[] = [
+  {
+    name: 'a reduction the source reports',
+    abstract: 'Drug X reduced mortality compared with placebo (hazard ratio 0.72, 95% CI 0.61-0.85).',
+    summary: 'Drug X reduced mortality by about a quarter (hazard ratio 0.72).',
+    grounded: true
+  },
+  {
+    name: 'a reduction the source reports as an increase',
+    abstract: 'Drug X increased mortality compared with placebo (hazard ratio 1.4). More patients stopped treatment, and rates were higher in older adults; fewer than half finished follow-up and less than 10% were lost.',
+    summary: 'Drug X reduced mortality',
+    grounded: false
+  },
+  {
+    name: 'an increase the source reports as a reduction',
+    abstract: 'Exercise lowered systolic blood pressure by 8 mmHg; more participants were active at 12 months.',
+    summary: 'Exercise raised blood pressure by 8 mmHg.',
+    grounded: false
+  },
+  {
+    name: 'a reduction, in passive voice, next to the outcome',
+    abstract: 'In 4512 patients, stroke recurrence was lower with intensive lipid lowering.',
+    summary: 'Stroke recurrence was reduced with intensive lipid lowering in 4512 patients.',
+    grounded: true
+  },
+  {
+    name: 'a reduction the source reports for a different outcome',
+    abstract: 'The drug lowered blood pressure but increased mortality in older adults.',
+    summary: 'The drug lowered mortality in older adults.',
+    grounded: false
+  },
+  {
+    name: 'a reduction the source says didn\'t happen',
+    abstract: 'Vitamin D did not reduce fractures over 5 years.',
+    summary: 'Vitamin D reduced fractures over 5 years.',
+    grounded: false
+  },
+  {
+    name: 'a number that isn\'t in the source',
+    abstract: 'Drug X reduced mortality by 20% in 1,204 patients.',
+    summary: 'Drug X reduced mortality by 35% in 1204 patients.',
+    grounded: false
+  },
+  {
+    name: 'a drug that isn\'t in the source',
+    abstract: 'Semaglutide reduced body weight by 15% at 68 weeks.',
+    summary: 'Tirzepatide reduced body weight by 15% at 68 weeks.',
+    grounded: false
+  },
+  {
+    name: 'a null result called significant',
+    abstract: 'There was no significant difference in pain scores between groups.',
+    summary: 'Acupuncture significantly improved pain scores.',
+    grounded: false
+  },
+  {
+    name: 'a cure the source never mentions',
+    abstract: 'Gene therapy improved haemoglobin levels in 12 patients with sickle cell disease.',
+    summary: 'Gene therapy cures sickle cell disease.',
+    grounded: false
+  }
+];
+
+function article(abstract: string): PubMedArticle {
+  return { id: '1', source: 'pubmed', title: 'Test article', abstract, authors: [], publicationDate: '2024', journal: 'Test Journal' };
+}
+
+function content(): ArticleContent {
+  return {
+    id: '1', fullText: '', abstractSections: [], authors: [], meshHeadings: [], keywords: [], publicationTypes: [],
+    grants: [], sections: [], figures: [], tables: [], references: []
+  };
+}
+
+let failures = 0;
+
+for (const groundingCase of CASES) {
+  const result = checkGrounding(groundingCase.summary, article(groundingCase.abstract), content());
+  const failed = result.grounded !== groundingCase.grounded;
+
+  if (failed) {
+    failures++;
+  }
+  const detail = result.problems.length > 0 ? ` (${result.problems.join('; ')})` : '';
+  console.log(`${failed ? 'FAIL' : 'ok  '} ${groundingCase.name}: ${result.grounded ? 'grounded' : 'not grounded'}${detail}`);
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} grounding cases pass`);
+process.exit(failures > 0 ? 1 : 0);
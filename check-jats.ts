@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseJatsArticle } from './jats-parser';
+
+// Runs the JATS parser over the PMC records in fixtures/jats, so full-text parsing can be
+// checked without the network. Run after any change to the parser:
+//   npm run check:jats
+
+const fixtureDir = path.join(__dirname, 'fixtures', 'jats');
+let failures = 0;
+let checks = 0;
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(fixtureDir, name), 'utf8');
+}
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+const article = parseJatsArticle(fixture('article.xml'));
+
+{
+  const problems: string[] = [];
+  expect(problems, !!article, 'no article parsed');
+  expect(problems, !!article && article.pmcid === 'PMC11502231', `PMCID ${article && article.pmcid}`);
+  expect(problems, !!article && article.title.endsWith('open-label, blinded-endpoint trial'), `title "${article && article.title}"`);
+  check('the PMCID gets its PMC prefix and the title keeps inline markup text', problems);
+}
+
+if (article) {
+  {
+    const problems: string[] = [];
+    const outline = article.sections.map(section => `${section.depth}:${section.type}`).join(' ');
+    expect(problems, outline === '1:intro 1:methods 2:other 1:results 1:limitations', `sections ${outline}`);
+
+    const intro = article.sections[0];
+    expect(problems, intro.text === 'Recurrent stroke remains common in the first year after an ischaemic stroke.\nWhether a lower LDL cholesterol target adds benefit is uncertain.', `intro text ${JSON.stringify(intro.text)}`);
+
+    const methods = article.sections[1];
+    expect(problems, !methods.text.includes('Cox model'), 'a subsection\'s text leaked into its parent');
+    // &#x2009; is a thin space, which prose text turns into a plain one
+    expect(problems, methods.text.includes('3 104 patients') && methods.text.includes('1·8 mmol/L'), `entities not decoded: ${JSON.stringify(methods.text)}`);
+    check('sections nest, take sec-type or a type from the title, and keep only their own paragraphs', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const results = article.sections.find(section => section.type === 'results');
+    expect(problems, !!results && results.text.startsWith('Major cardiovascular events occurred in 8·5%'), `results text ${JSON.stringify(results && results.text)}`);
+    expect(problems, !!results && !results.text.includes('Shaded areas') && !results.text.includes('Recurrent stroke'), 'figure or table text in the prose');
+    check('figure and table text stays out of the section prose', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const [figure] = article.figures;
+    expect(problems, article.figures.length === 1, `${article.figures.length} figures`);
+    expect(problems, !!figure && figure.id === 'fig1' && figure.label === 'Figure 1', `figure ${JSON.stringify(figure)}`);
+    expect(problems, !!figure && figure.caption.includes('Cumulative incidence') && figure.caption.includes('95% CIs'), `caption ${JSON.stringify(figure && figure.caption)}`);
+    check('figures keep their id, label and caption', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const [table] = article.tables;
+    expect(problems, article.tables.length === 1, `${article.tables.length} tables`);
+    expect(problems, !!table && table.label === 'Table 1' && table.caption === 'Primary and secondary outcomes', `table ${table && table.label}: ${table && table.caption}`);
+    expect(problems, !!table && table.headers.join('|') === 'Outcome|Intensive (n=1552)|Standard (n=1552)', `headers ${table && table.headers.join('|')}`);
+    expect(problems, !!table && JSON.stringify(table.rows) === JSON.stringify([['Major cardiovascular events', '132', '169'], ['Recurrent stroke', '97', '121']]), `rows ${JSON.stringify(table && table.rows)}`);
+    check('tables split into header and body rows', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const [structured, mixed] = article.references;
+    expect(problems, article.references.length === 2, `${article.references.length} references`);
+    expect(problems, !!structured && structured.id === 'bib1' && structured.label === '1', `reference ${JSON.stringify(structured)}`);
+    expect(problems, !!structured && structured.pmid === '31738483' && structured.doi === '10.1056/NEJMoa1910355', `ids ${structured && structured.pmid}, ${structured && structured.doi}`);
+    expect(problems, !!structured && structured.citation.startsWith('Amarenco P A comparison'), `element-citation ${JSON.stringify(structured && structured.citation)}`);
+    expect(problems, !!mixed && mixed.citation.endsWith('Lancet 2010; 376: 1670–81.') && mixed.pmid === undefined, `mixed-citation ${JSON.stringify(mixed && mixed.citation)}`);
+    check('references keep their PMID and DOI, and citations read as text', problems);
+  }
+}
+
+{
+  const problems: string[] = [];
+  expect(problems, parseJatsArticle(fixture('no-body.xml')) === null, 'a record without a body was parsed');
+  expect(problems, parseJatsArticle('<pmc-articleset></pmc-articleset>') === null, 'an empty article set was parsed');
+  check('records without a body (no open-access full text) give null', problems);
+}
+
+console.log(`\n${checks - failures}/${checks} checks pass`);
+process.exit(failures > 0 ? 1 : 0);
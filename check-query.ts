@@ -0,0 +1,118 @@
+import { SearchFilters, buildPubMedTerm, parseSearchFilters } from './pubmed-query';
+
+// Checks that /search qualifiers are read into the right filters, that bad ones are
+// refused, and that nothing typed can change the structure of the PubMed term. Run
+// after any change to the query builder:
+//   npm run check:query
+
+interface ParseCase {
+  name: string;
+  text: string;
+  rest?: string;
+  filters?: SearchFilters;
+  // Each error, or a piece of it
+  errors?: string[];
+}
+
+interface TermCase {
+  name: string;
+  text: string;
+  filters?: SearchFilters;
+  days?: number;
+  term: string;
+}
+
+const PARSE_CASES: ParseCase[] = [
+  {
+    name: 'qualifiers come out of the text, unknown ones stay in',
+    text: 'statins type:rct,meta since:2024 journal:nejm only:humans source:pubmed sort:newest',
+    rest: 'statins source:pubmed',
+    filters: { types: ['Randomized Controlled Trial', 'Meta-Analysis'], since: '2024', journal: 'N Engl J Med', humansOnly: true, sort: 'date' }
+  },
+  {
+    name: 'quoted values keep their spaces',
+    text: 'author:"Smith J" mesh:“Heart Failure” tiab:"heart rate"',
+    rest: '',
+    filters: { authors: ['Smith J'], mesh: ['Heart Failure'], titleAbstract: ['heart rate'] }
+  },
+  {
+    name: 'unknown journals are searched as typed, dates are normalized',
+    text: 'covid journal:"Clin Infect Dis" from:2023-1 until:2024.06.30',
+    rest: 'covid',
+    filters: { journal: 'Clin Infect Dis', since: '2023/01', until: '2024/06/30' }
+  },
+  {
+    name: 'a range inside one month is in order',
+    text: 'since:2024-03-15 until:2024-03',
+    filters: { since: '2024/03/15', until: '2024/03' }
+  },
+  {
+    name: 'a range that ends in its start year is in order',
+    text: 'since:2024-03 until:2024',
+    filters: { since: '2024/03', until: '2024' }
+  },
+  { name: 'a range that ends before it starts', text: 'since:2024-04 until:2024-03-31', errors: ['since:2024/04 is after until:2024/03/31'] },
+  { name: 'a start after the end within one year', text: 'since:2025 until:2024-12-31', errors: ['since:2025 is after until:2024/12/31'] },
+  { name: 'an empty quoted author', text: 'statins author:""', errors: ['author: is empty'] },
+  { name: 'an empty MeSH heading and a title of only symbols', text: 'mesh:“ ” tiab:"()"', errors: ['mesh: is empty', 'tiab: is empty'] },
+  { name: 'an unknown type, even one every object has', text: 'type:constructor', errors: ['I don\'t know the article type "constructor"'] },
+  { name: 'a date that isn\'t one', text: 'since:2024-13', errors: ['"2024-13" isn\'t a date'] },
+  { name: 'unknown limits and sort orders', text: 'only:mice sort:oldest', errors: ['Can\'t limit to "mice"', 'Can\'t sort by "oldest"'] }
+];
+
+const TERM_CASES: TermCase[] = [
+  { name: 'a plain topic over the last days', text: 'statins', days: 30, term: '(statins) AND ("last 30 days"[dp])' },
+  {
+    name: 'operators and syntax in the topic are defused',
+    text: 'statins) OR (aspirin[mh] NOT "x"* #1 {y}',
+    term: '(statins or aspirin mh not x 1 y)'
+  },
+  {
+    name: 'field values are quoted phrases and can\'t close their quotes',
+    text: '',
+    filters: { authors: ['Smith J"[au] OR "x'], mesh: ['Heart Failure'], journal: 'N Engl J Med' },
+    term: '"Heart Failure"[mh] AND "Smith J au or x"[au] AND "N Engl J Med"[ta]'
+  },
+  {
+    name: 'types, limits and an open-ended date range',
+    text: 'covid',
+    filters: { types: ['Randomized Controlled Trial', 'Meta-Analysis'], humansOnly: true, freeFullText: true, since: '2024/03' },
+    days: 30,
+    term: '(covid) AND ("Randomized Controlled Trial"[pt] OR "Meta-Analysis"[pt]) AND humans[mh] AND free full text[sb] AND ("2024/03"[dp] : "3000"[dp])'
+  }
+];
+
+let failures = 0;
+
+function report(name: string, problems: string[]): void {
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+for (const parseCase of PARSE_CASES) {
+  const problems: string[] = [];
+  const result = parseSearchFilters(parseCase.text);
+  const expectedErrors = parseCase.errors || [];
+
+  if (parseCase.rest !== undefined && result.text !== parseCase.rest) {
+    problems.push(`text "${result.text}", expected "${parseCase.rest}"`);
+  }
+  if (parseCase.filters && JSON.stringify(result.filters) !== JSON.stringify(parseCase.filters)) {
+    problems.push(`filters ${JSON.stringify(result.filters)}`);
+  }
+  if (result.errors.length !== expectedErrors.length || !expectedErrors.every((error, i) => result.errors[i].includes(error))) {
+    problems.push(`errors ${JSON.stringify(result.errors)}`);
+  }
+  report(parseCase.name, problems);
+}
+
+for (const termCase of TERM_CASES) {
+  const term = buildPubMedTerm(termCase.text, termCase.filters, termCase.days);
+  report(termCase.name, term === termCase.term ? [] : [`term ${term}`]);
+}
+
+const total = PARSE_CASES.length + TERM_CASES.length;
+console.log(`\n${total - failures}/${total} query cases pass`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,119 @@
+import { QuirkDefinition, QuirkEngine } from './quirk-engine';
+import { createSeededRandom } from './random';
+import { MAX_TWEET_LENGTH, twitterLength } from './thread-composer';
+
+// Runs the quirk engine with a seeded random source and a fake clock: triggers, cooldowns,
+// the length limit and emoji bursts that shrink to fit. Run after any change to the engine:
+//   npm run check:quirks
+
+const EMOJI_SETS = { general: ['✨'], science: ['🧬', '🔬', '🧪'] };
+const MINUTE = 60 * 1000;
+
+let failures = 0;
+let checks = 0;
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+function engine(quirks: QuirkDefinition[], clock: { time: number } = { time: 0 }, seed: number = 7): QuirkEngine {
+  return new QuirkEngine(quirks, EMOJI_SETS, { random: createSeededRandom(seed), now: () => clock.time });
+}
+
+{
+  const problems: string[] = [];
+  const quirks = engine([{ id: 'wow', trigger: { keywords: ['CRISPR'] }, action: { type: 'append', phrases: ['(wow)'] } }]);
+  expect(problems, quirks.apply('New crispr trial results.') === 'New crispr trial results. (wow)', 'keyword in another case did not trigger');
+  expect(problems, quirks.apply('New statin trial results.') === 'New statin trial results.', 'fired without its keyword');
+  check('keyword triggers match case-insensitively and only when present', problems);
+}
+
+{
+  const problems: string[] = [];
+  const quirks = engine([{
+    id: 'keen',
+    trigger: { topics: ['neuro'], minEnthusiasm: 8 },
+    action: { type: 'prepend', phrases: ['Brain news!'] }
+  }]);
+  expect(problems, quirks.apply('A study.', { topic: 'Neuroscience', enthusiasm: 9 }) === 'Brain news! A study.', 'did not fire for a matching topic and enthusiasm');
+  expect(problems, quirks.apply('A study.', { topic: 'neuroscience', enthusiasm: 7 }) === 'A study.', 'fired below minEnthusiasm');
+  expect(problems, quirks.apply('A study.', { topic: 'cardiology', enthusiasm: 10 }) === 'A study.', 'fired for another topic');
+  expect(problems, quirks.apply('A study.', { enthusiasm: 10 }) === 'A study.', 'fired without a topic');
+  check('topic and enthusiasm triggers need both to hold', problems);
+}
+
+{
+  const problems: string[] = [];
+  const quirks = engine([{ id: 'bestie', action: { type: 'replace', pattern: '\\byou\\b', phrases: ['$& bestie'] } }]);
+  expect(problems, quirks.apply('Did you see this?') === 'Did you bestie see this?', 'the first match was not replaced');
+  expect(problems, quirks.apply('Did they see this?') === 'Did they see this?', 'replaced without a match');
+  check('replace only fires when its pattern matches', problems);
+}
+
+{
+  const problems: string[] = [];
+  const clock = { time: 0 };
+  const quirks = engine([{ id: 'once', cooldownMinutes: 30, action: { type: 'append', phrases: ['!'] } }], clock);
+  expect(problems, quirks.apply('One') === 'One !', 'did not fire the first time');
+  clock.time = 29 * MINUTE;
+  expect(problems, quirks.apply('Two') === 'Two', 'fired again within its cooldown');
+  clock.time = 30 * MINUTE;
+  expect(problems, quirks.apply('Three') === 'Three !', 'did not fire once the cooldown was over');
+  check('a quirk waits out its cooldown', problems);
+}
+
+{
+  const problems: string[] = [];
+  const quirks = engine([{ id: 'long', action: { type: 'append', phrases: ['(a phrase that will not fit)'] } }]);
+  const full = 'x'.repeat(MAX_TWEET_LENGTH - 10);
+  expect(problems, quirks.apply(full) === full, 'a quirk pushed the text past one tweet');
+  expect(problems, quirks.apply('short', { maxLength: 10 }) === 'short', 'a quirk ignored maxLength');
+  const threaded = 'x'.repeat(MAX_TWEET_LENGTH + 10);
+  expect(problems, quirks.apply(threaded, { threaded: true }) === `${threaded} (a phrase that will not fit)`, 'did not fire on a thread already past one tweet');
+  check('quirks that would make the text too long are skipped, except on threads', problems);
+}
+
+{
+  const problems: string[] = [];
+  const quirks = engine([{ id: 'burst', action: { type: 'emoji-burst', emojiSet: 'science', count: 3 } }]);
+  // Each emoji and its space weigh 3, so only one of the three fits
+  const text = 'x'.repeat(MAX_TWEET_LENGTH - 5);
+  const result = quirks.apply(text);
+  const emojis = result.slice(text.length).trim().split(' ').filter(Boolean);
+  expect(problems, emojis.length === 1 && EMOJI_SETS.science.includes(emojis[0]), `added ${JSON.stringify(result.slice(text.length))}`);
+  expect(problems, twitterLength(result) <= MAX_TWEET_LENGTH, `${twitterLength(result)} long`);
+  const roomy = quirks.apply('Short text');
+  expect(problems, roomy.split(' ').length === 2 + 3, `a burst with room has ${roomy.split(' ').length - 2} emojis`);
+  check('an emoji burst shrinks to fit and is full size when there is room', problems);
+}
+
+{
+  const problems: string[] = [];
+  const quirks: QuirkDefinition[] = [
+    { id: 'a', probability: 0.5, action: { type: 'append', phrases: ['(a1)', '(a2)', '(a3)'] } },
+    { id: 'b', action: { type: 'emoji-burst', emojiSet: 'science', count: [1, 3] } }
+  ];
+  const run = () => {
+    const seeded = engine(quirks, { time: 0 }, 20241019);
+    return Array.from({ length: 8 }, (_, i) => seeded.apply(`Text ${i}`));
+  };
+  const first = run();
+  expect(problems, JSON.stringify(first) === JSON.stringify(run()), 'two runs with one seed differ');
+  expect(problems, new Set(first).size > 1, 'every output is the same');
+  const never = new QuirkEngine(quirks, EMOJI_SETS, { probability: 0, random: createSeededRandom(1) });
+  expect(problems, never.apply('Text') === 'Text', 'fired with probability 0');
+  check('a seed gives the same choices every run, and probability 0 turns quirks off', problems);
+}
+
+console.log(`\n${checks - failures}/${checks} checks pass`);
+process.exit(failures > 0 ? 1 : 0);
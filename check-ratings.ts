@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EvidenceTier, RatingInput, StudyDesign, rateEvidence } from './rating-engine';
+import { defaultConfig } from './config';
+
+// Rates every labelled abstract in fixtures/rating and compares against the expected
+// tier, design and tweetability. Run after any change to the rating engine:
+//   npm run check:ratings [-- --verbose]
+
+interface RatingFixture {
+  id: string;
+  note: string;
+  expected: { tier: EvidenceTier; design: StudyDesign; tweetable: boolean };
+  input: RatingInput;
+}
+
+const verbose = process.argv.includes('--verbose');
+const fixtureFile = path.join(__dirname, 'fixtures', 'rating', 'abstracts.json');
+const fixtures: RatingFixture[] = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+const config = defaultConfig();
+let failures = 0;
+
+for (const fixture of fixtures) {
+  const rating = rateEvidence(fixture.input, { priorityTopics: config.priorityTopics, avoidTopics: config.avoidTopics });
+  // Same rule PubMedAgent.rateArticle applies
+  const tweetable = rating.score >= config.minScoreToTweet && !rating.controversial && !rating.retracted &&
+    (rating.tier === 'high' || rating.tier === 'moderate');
+
+  const problems: string[] = [];
+  if (rating.tier !== fixture.expected.tier) {
+    problems.push(`tier ${rating.tier}, expected ${fixture.expected.tier}`);
+  }
+  if (rating.design !== fixture.expected.design) {
+    problems.push(`design ${rating.design}, expected ${fixture.expected.design}`);
+  }
+  if (tweetable !== fixture.expected.tweetable) {
+    problems.push(`tweetable ${tweetable}, expected ${fixture.expected.tweetable}`);
+  }
+
+  if (problems.length > 0) {
+    failures++;
+  }
+
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${fixture.id}: ${problems.join('; ') || `${rating.tier}, score ${rating.score}`}`);
+  if (verbose || problems.length > 0) {
+    console.log(`     ${rating.explanation}`);
+  }
+}
+
+console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures match`);
+process.exit(failures > 0 ? 1 : 0);
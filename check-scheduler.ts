@@ -0,0 +1,169 @@
+import { CronExpression, JobRunStore, Scheduler, isWithinWindows, parsePostingWindows } from './scheduler';
+import { createSeededRandom } from './random';
+
+// Checks cron parsing and matching, time zones across daylight saving changes, posting
+// windows, jitter and catch-up after a restart, with a fake clock. Run after any change
+// to the scheduler:
+//   npm run check:scheduler
+
+const NEW_YORK = 'America/New_York';
+let failures = 0;
+let checks = 0;
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+function throws(run: () => unknown): boolean {
+  try {
+    run();
+    return false;
+  } catch (error) {
+    return true;
+  }
+}
+
+// nextAfter as an ISO string, for comparing and for the failure message
+function next(cron: string, after: string, timeZone: string = 'UTC'): string {
+  return new CronExpression(cron).nextAfter(new Date(after), timeZone).toISOString();
+}
+
+function expectNext(problems: string[], cron: string, after: string, expected: string, timeZone?: string): void {
+  const actual = next(cron, after, timeZone);
+  expect(problems, actual === expected, `"${cron}" after ${after}${timeZone ? ` in ${timeZone}` : ''}: ${actual}, expected ${expected}`);
+}
+
+function memoryStore(runs: {[jobName: string]: string}): JobRunStore & { recorded: string[] } {
+  const recorded: string[] = [];
+  return {
+    recorded,
+    getJobRuns: () => ({ ...runs }),
+    recordJobRun: (jobName, at) => {
+      recorded.push(`${jobName} ${at.toISOString()}`);
+    }
+  };
+}
+
+{
+  const problems: string[] = [];
+  expectNext(problems, '0 */4 * * *', '2024-10-19T13:10:00Z', '2024-10-19T16:00:00.000Z');
+  expectNext(problems, '15,45 8-10 * * *', '2024-10-19T10:45:00Z', '2024-10-20T08:15:00.000Z');
+  expectNext(problems, '5/20 * * * *', '2024-10-19T13:30:00Z', '2024-10-19T13:45:00.000Z');
+  expectNext(problems, '0 9 * * 1-5', '2024-10-19T12:00:00Z', '2024-10-21T09:00:00.000Z');
+  expectNext(problems, '0 9 * * 7', '2024-10-19T12:00:00Z', '2024-10-20T09:00:00.000Z');
+  // Both day fields restricted: either the 13th or a Friday
+  expectNext(problems, '0 0 13 * 5', '2024-10-19T00:00:00Z', '2024-10-25T00:00:00.000Z');
+  expectNext(problems, '0 0 13 * 5', '2024-11-08T12:00:00Z', '2024-11-13T00:00:00.000Z');
+  check('cron fields take steps, ranges, lists and the either-day rule', problems);
+}
+
+{
+  const problems: string[] = [];
+  for (const cron of ['0 * * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *']) {
+    expect(problems, throws(() => new CronExpression(cron)), `"${cron}" was accepted`);
+  }
+  expect(problems, throws(() => new CronExpression('0 0 31 2 *').nextAfter(new Date('2024-01-01T00:00:00Z'), 'UTC')), 'a date that never comes did not throw');
+  check('malformed and impossible cron expressions are refused', problems);
+}
+
+{
+  const problems: string[] = [];
+  // 09:00 in New York is 13:00 UTC in summer and 14:00 UTC in winter
+  expectNext(problems, '0 9 * * *', '2024-07-01T00:00:00Z', '2024-07-01T13:00:00.000Z', NEW_YORK);
+  expectNext(problems, '0 9 * * *', '2024-01-15T00:00:00Z', '2024-01-15T14:00:00.000Z', NEW_YORK);
+  // Across the spring and autumn changes, the wall-clock time stays put
+  expectNext(problems, '0 9 * * *', '2024-03-09T15:00:00Z', '2024-03-10T13:00:00.000Z', NEW_YORK);
+  expectNext(problems, '0 9 * * *', '2024-11-02T14:00:00Z', '2024-11-03T14:00:00.000Z', NEW_YORK);
+  // 02:30 doesn't exist on the day clocks go forward; the next run is a day later
+  expectNext(problems, '30 2 * * *', '2024-03-10T05:00:00Z', '2024-03-11T06:30:00.000Z', NEW_YORK);
+  // Midnight is local midnight
+  expectNext(problems, '0 0 * * *', '2024-10-19T12:00:00Z', '2024-10-20T04:00:00.000Z', NEW_YORK);
+  check('cron times are wall-clock times in the time zone, daylight saving included', problems);
+}
+
+{
+  const problems: string[] = [];
+  const windows = parsePostingWindows('08:00-22:00, 23:30-01:00');
+  const within = (time: string) => isWithinWindows(windows, new Date(time), 'UTC');
+  expect(problems, within('2024-10-19T08:00:00Z') && within('2024-10-19T21:59:00Z'), 'the inside of a window is outside');
+  expect(problems, !within('2024-10-19T07:59:00Z') && !within('2024-10-19T22:00:00Z'), 'the end of a window is inside');
+  expect(problems, within('2024-10-19T23:45:00Z') && within('2024-10-20T00:30:00Z') && !within('2024-10-20T01:00:00Z'), 'a window past midnight does not wrap');
+  // 08:00 in New York is 12:00 UTC in October
+  expect(problems, isWithinWindows(windows, new Date('2024-10-19T12:00:00Z'), NEW_YORK) && !isWithinWindows(windows, new Date('2024-10-19T11:59:00Z'), NEW_YORK), 'the window is not in the time zone');
+  const untilMidnight = parsePostingWindows('22:00-24:00');
+  expect(problems, isWithinWindows(untilMidnight, new Date('2024-10-19T23:59:00Z'), 'UTC'), '22:00-24:00 leaves out 23:59');
+  for (const spec of ['22:00-24:30', '24:01-06:00', '25:00-26:00', '08:60-09:00', '8-22', '08:00']) {
+    expect(problems, throws(() => parsePostingWindows(spec)), `"${spec}" was accepted`);
+  }
+  check('posting windows: end excluded, wrap past midnight, 24:00 only as itself', problems);
+}
+
+{
+  const problems: string[] = [];
+  const now = new Date('2024-10-19T13:10:00Z');
+  const runs: string[] = [];
+  const store = memoryStore({ search: '2024-10-19T08:00:00.000Z', queue: '2024-10-19T08:00:00.000Z', reset: '2024-10-19T12:00:00.000Z' });
+  const scheduler = new Scheduler({ timeZone: 'UTC', store, now: () => now, tickMs: 60 * 60 * 1000 });
+  scheduler.addJob({ name: 'search', cron: '0 */4 * * *', catchUp: true, run: () => { runs.push('search'); } });
+  scheduler.addJob({ name: 'queue', cron: '0 */4 * * *', run: () => { runs.push('queue'); } });
+  scheduler.addJob({ name: 'reset', cron: '0 */4 * * *', catchUp: true, run: () => { runs.push('reset'); } });
+  scheduler.start();
+  scheduler.stop();
+
+  expect(problems, runs.join(',') === 'search', `ran ${runs.join(',') || 'nothing'}`);
+  expect(problems, store.recorded.join(',') === 'search 2024-10-19T13:10:00.000Z', `recorded ${store.recorded.join(',')}`);
+  const nextRuns = scheduler.getJobs().map(job => `${job.name} ${job.nextRun && job.nextRun.toISOString()}`).join(', ');
+  expect(problems, nextRuns === 'search 2024-10-19T16:00:00.000Z, queue 2024-10-19T16:00:00.000Z, reset 2024-10-19T16:00:00.000Z', nextRuns);
+  check('a catch-up job runs at startup when a run was missed, and only then', problems);
+}
+
+{
+  const problems: string[] = [];
+  const now = new Date('2024-10-19T23:10:00Z');
+  const runs: string[] = [];
+  const scheduler = new Scheduler({
+    timeZone: 'UTC',
+    postingWindows: parsePostingWindows('08:00-22:00'),
+    store: memoryStore({ search: '2024-10-19T12:00:00.000Z' }),
+    now: () => now,
+    tickMs: 60 * 60 * 1000
+  });
+  scheduler.addJob({ name: 'search', cron: '0 */4 * * *', catchUp: true, onlyInPostingWindow: true, run: () => { runs.push('search'); } });
+  scheduler.start();
+  scheduler.stop();
+
+  const [job] = scheduler.getJobs();
+  expect(problems, runs.length === 0, 'ran outside the posting window');
+  expect(problems, !!job.nextRun && job.nextRun.toISOString() === '2024-10-20T00:00:00.000Z', `next run ${job.nextRun && job.nextRun.toISOString()}`);
+  check('a job limited to the posting window skips a run outside it', problems);
+}
+
+{
+  const problems: string[] = [];
+  const now = new Date('2024-10-19T13:10:00Z');
+  const nextRun = (random: () => number) => {
+    const scheduler = new Scheduler({ timeZone: 'UTC', now: () => now, random, tickMs: 60 * 60 * 1000 });
+    scheduler.addJob({ name: 'search', cron: '0 */4 * * *', jitterMinutes: 20, run: () => undefined });
+    scheduler.start();
+    scheduler.stop();
+    return scheduler.getJobs()[0].nextRun!.toISOString();
+  };
+  expect(problems, nextRun(() => 0.5) === '2024-10-19T16:10:00.000Z', `half the jitter gave ${nextRun(() => 0.5)}`);
+  const seeded = nextRun(createSeededRandom(20241019));
+  expect(problems, seeded === nextRun(createSeededRandom(20241019)), 'one seed gave two schedules');
+  expect(problems, seeded >= '2024-10-19T16:00:00.000Z' && seeded < '2024-10-19T16:20:00.000Z', `jittered run at ${seeded}`);
+  check('jitter delays a run by up to jitterMinutes, drawn from the random source', problems);
+}
+
+console.log(`\n${checks - failures}/${checks} checks pass`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,55 @@
+import { MAX_TWEET_LENGTH, composeThread, twitterLength } from './thread-composer';
+
+// Checks that composeThread always finishes and that every part fits in a tweet,
+// including for text that can't be split at a space. Run after any change to the composer:
+//   npm run check:threads
+
+interface ThreadCase {
+  name: string;
+  text: string;
+  prefix?: string;
+  // Every part joined back together, without markers, prefix or the breaks between parts
+  keepsText?: boolean;
+}
+
+const CASES: ThreadCase[] = [
+  { name: 'short text stays one tweet', text: 'A short post about statins.' },
+  { name: 'paragraphs and sentences', text: Array.from({ length: 12 }, (_, i) => `Sentence ${i + 1} says something about cholesterol and heart disease risk.`).join(' ') },
+  { name: 'an over-long word', text: `Intro sentence. ${'a'.repeat(300)}`, keepsText: true },
+  { name: 'an over-long word ending in "..."', text: `Intro sentence. ${'a'.repeat(300)}...`, keepsText: true },
+  { name: 'an over-long word of dots', text: '.'.repeat(700), keepsText: true },
+  { name: 'an over-long word of CJK characters', text: '研究'.repeat(200), keepsText: true },
+  { name: 'an over-long word with a reply prefix', text: 'b'.repeat(600), prefix: '@someone ', keepsText: true }
+];
+
+let failures = 0;
+
+for (const threadCase of CASES) {
+  const problems: string[] = [];
+  const parts = composeThread(threadCase.text, { prefix: threadCase.prefix });
+
+  parts.forEach((part, index) => {
+    if (twitterLength(part) > MAX_TWEET_LENGTH) {
+      problems.push(`part ${index + 1} is ${twitterLength(part)} long`);
+    }
+  });
+
+  if (threadCase.keepsText) {
+    const joined = parts
+      .map((part, index) => (index === 0 && threadCase.prefix ? part.slice(threadCase.prefix.length) : part))
+      .map(part => parts.length > 1 ? part.replace(/ \d+\/\d+$/, '') : part)
+      .join('')
+      .replace(/\s+/g, '');
+    if (joined !== threadCase.text.replace(/\s+/g, '')) {
+      problems.push('the parts lose or repeat some of the text');
+    }
+  }
+
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${threadCase.name} (${parts.length} parts)${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} thread cases pass`);
+process.exit(failures > 0 ? 1 : 0);
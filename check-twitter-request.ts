@@ -0,0 +1,185 @@
+import { ApiResponseError, TwitterRateLimit } from 'twitter-api-v2';
+import { isRetryable } from './social-client';
+import { TwitterRequester, TwitterRequesterOptions, TwitterResult } from './twitter-request';
+
+// Runs TwitterRequester against fake requests that fail the way the Twitter API does,
+// with a recording sleep, so nothing waits or goes over the network. Run after any
+// change to the request layer:
+//   npm run check:twitter-request
+
+const ENDPOINT = 'POST /2/tweets';
+let failures = 0;
+let checks = 0;
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+function apiError(code: number, data: {[field: string]: any} = {}, rateLimit?: TwitterRateLimit): ApiResponseError {
+  return new ApiResponseError(`Request failed with code ${code}`, {
+    code,
+    request: {} as any,
+    response: {} as any,
+    headers: {},
+    data: { title: `HTTP ${code}`, ...data } as any,
+    rateLimit
+  });
+}
+
+// A request that throws each given failure in turn, then answers "posted"
+function fakeRequest(failuresFirst: unknown[]) {
+  const calls = { count: 0 };
+  const request = async () => {
+    const failure = failuresFirst[calls.count++];
+    if (failure !== undefined) {
+      throw failure;
+    }
+    return 'posted';
+  };
+  return { calls, request };
+}
+
+function requester(options: TwitterRequesterOptions = {}) {
+  const slept: number[] = [];
+  const instance = new TwitterRequester({
+    sleep: async ms => {
+      slept.push(ms);
+    },
+    random: () => 0.5,
+    ...options
+  });
+  return { instance, slept };
+}
+
+function errorOf(result: TwitterResult<string>) {
+  return result.ok ? undefined : result.error;
+}
+
+async function run(): Promise<void> {
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester();
+    const { calls, request } = fakeRequest([]);
+    const result = await instance.run(ENDPOINT, request);
+    expect(problems, result.ok && result.value === 'posted', `result ${JSON.stringify(result)}`);
+    expect(problems, calls.count === 1 && slept.length === 0, `${calls.count} calls, slept ${JSON.stringify(slept)}`);
+    check('a request that works goes through once, without waiting', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester();
+    const reset = Math.ceil(Date.now() / 1000) + 30;
+    // What the plugin sees on a response that used up the window
+    instance.plugin().onAfterRequest!({
+      url: new URL('https://api.twitter.com/2/tweets'),
+      params: { method: 'POST' },
+      response: { rateLimit: { limit: 200, remaining: 0, reset } }
+    } as any);
+    const { calls, request } = fakeRequest([]);
+    const result = await instance.run(ENDPOINT, request);
+    expect(problems, result.ok, `result ${JSON.stringify(result)}`);
+    expect(problems, slept.length === 1 && slept[0] > 28000 && slept[0] <= 32000, `slept ${JSON.stringify(slept)}`);
+    expect(problems, calls.count === 1, `${calls.count} calls`);
+    check('an exhausted window from the rate limit headers is waited out before the request', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester({ maxWaitMs: 60 * 1000 });
+    const reset = Math.ceil(Date.now() / 1000) + 15 * 60;
+    const { calls, request } = fakeRequest([apiError(429, {}, { limit: 200, remaining: 0, reset })]);
+    const result = await instance.run(ENDPOINT, request);
+    const error = errorOf(result);
+    expect(problems, !!error && error.kind === 'rate-limited' && isRetryable(error), `result ${JSON.stringify(result)}`);
+    expect(problems, !!error && !!error.retryAt && error.retryAt.getTime() === reset * 1000, `retryAt ${error && error.retryAt}`);
+    expect(problems, calls.count === 1 && slept.length === 0, `${calls.count} calls, slept ${JSON.stringify(slept)}`);
+    check('a window that resets later than maxWaitMs is handed back with its reset time', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester();
+    const { calls, request } = fakeRequest([apiError(429)]);
+    const result = await instance.run(ENDPOINT, request);
+    expect(problems, result.ok, `result ${JSON.stringify(result)}`);
+    expect(problems, calls.count === 2, `${calls.count} calls`);
+    expect(problems, slept.length === 1 && slept[0] > 58000 && slept[0] <= 62000, `slept ${JSON.stringify(slept)}`);
+    check('a 429 without rate limit headers waits a minute and tries again', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester({ random: () => 0 });
+    const { calls, request } = fakeRequest([apiError(503), apiError(502), new Error('socket hang up')]);
+    const result = await instance.run(ENDPOINT, request);
+    expect(problems, result.ok, `result ${JSON.stringify(result)}`);
+    expect(problems, calls.count === 4, `${calls.count} calls`);
+    expect(problems, JSON.stringify(slept) === JSON.stringify([500, 1000, 2000]), `slept ${JSON.stringify(slept)}`);
+
+    const jittered = requester({ random: () => 0.5 });
+    await jittered.instance.run(ENDPOINT, fakeRequest([apiError(500), apiError(500)]).request);
+    expect(problems, JSON.stringify(jittered.slept) === JSON.stringify([750, 1500]), `slept with jitter ${JSON.stringify(jittered.slept)}`);
+    check('5xx and network errors back off exponentially, jittered between half and all of the delay', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester({ maxRetries: 2, maxDelayMs: 1500 });
+    const { calls, request } = fakeRequest([apiError(503), apiError(503), apiError(503), apiError(503)]);
+    const error = errorOf(await instance.run(ENDPOINT, request));
+    expect(problems, !!error && error.kind === 'unavailable' && error.status === 503 && isRetryable(error), `error ${JSON.stringify(error)}`);
+    expect(problems, calls.count === 3, `${calls.count} calls`);
+    expect(problems, slept.length === 2 && slept[1] <= 1500, `slept ${JSON.stringify(slept)}`);
+    check('after maxRetries an outage comes back as "unavailable", delays capped at maxDelayMs', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const { instance, slept } = requester();
+    const duplicate = fakeRequest([apiError(403, { detail: 'You are not allowed to create a Tweet with duplicate content.' })]);
+    const result = await instance.run(ENDPOINT, duplicate.request);
+    expect(problems, result.ok && result.value === null && 'duplicate' in result, `result ${JSON.stringify(result)}`);
+    expect(problems, duplicate.calls.count === 1 && slept.length === 0, `${duplicate.calls.count} calls`);
+
+    const v1Duplicate = fakeRequest([apiError(403, { errors: [{ code: 187, message: 'Status is a duplicate.' }] })]);
+    const v1Result = await requester().instance.run(ENDPOINT, v1Duplicate.request);
+    expect(problems, v1Result.ok && 'duplicate' in v1Result, `v1 error code 187: ${JSON.stringify(v1Result)}`);
+    check('a 403 for duplicate content counts as already sent', problems);
+  }
+
+  {
+    const problems: string[] = [];
+    const cases: [string, ApiResponseError, string][] = [
+      ['401', apiError(401), 'unauthorized'],
+      ['a 403 that is not a duplicate', apiError(403, { detail: 'You are not permitted to perform this action.' }), 'rejected'],
+      ['400', apiError(400), 'rejected']
+    ];
+    for (const [name, failure, kind] of cases) {
+      const { instance, slept } = requester();
+      const { calls, request } = fakeRequest([failure, failure]);
+      const error = errorOf(await instance.run(ENDPOINT, request));
+      expect(problems, !!error && error.kind === kind && !isRetryable(error), `${name}: ${JSON.stringify(error)}`);
+      expect(problems, calls.count === 1 && slept.length === 0, `${name}: ${calls.count} calls`);
+    }
+    check('auth errors and refused requests fail at once and are not retryable', problems);
+  }
+
+  console.log(`\n${checks - failures}/${checks} checks pass`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LimitDecision, UserLimiter, UserLimiterOptions, parseQuotas } from './user-limits';
+
+// Runs UserLimiter.check with a fake clock: sliding-window quotas, near-duplicates,
+// strikes that end in a mute, cooldown replies and what survives a restart. Run after
+// any change to the per-user limits:
+//   npm run check:user-limits
+
+const MINUTE = 60 * 1000;
+const ALICE = { id: '1', username: 'alice' };
+const START = Date.now();
+
+let failures = 0;
+let checks = 0;
+
+function check(name: string, problems: string[]): void {
+  checks++;
+  if (problems.length > 0) {
+    failures++;
+  }
+  console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`);
+}
+
+function expect(problems: string[], condition: boolean, message: string): void {
+  if (!condition) {
+    problems.push(message);
+  }
+}
+
+function limiter(options: Partial<UserLimiterOptions> = {}): UserLimiter {
+  return new UserLimiter({ mentionQuotas: parseQuotas('3/10m'), expensiveQuotas: parseQuotas('1/1h'), ...options });
+}
+
+// Texts that share too few words to count as repeats of each other
+function question(i: number): string {
+  return `question ${i} about topic${i}`;
+}
+
+function describe(decision: LimitDecision): string {
+  return JSON.stringify(decision);
+}
+
+{
+  const problems: string[] = [];
+  const limits = limiter();
+  for (let i = 0; i < 3; i++) {
+    const decision = limits.check(ALICE, question(i), false, START + i * MINUTE);
+    expect(problems, decision.action === 'allow', `mention ${i + 1}: ${describe(decision)}`);
+  }
+  const over = limits.check(ALICE, question(3), false, START + 3 * MINUTE);
+  expect(problems, over.action === 'cooldown' && over.retryAfterMs === 7 * MINUTE && over.notify, `the fourth: ${describe(over)}`);
+  // The first mention slides out of the window just after ten minutes
+  const later = limits.check(ALICE, question(4), false, START + 10 * MINUTE + 1);
+  expect(problems, later.action === 'allow', `once the window moved on: ${describe(later)}`);
+  const other = limits.check({ id: '2', username: 'bob' }, question(5), false, START + 10 * MINUTE + 1);
+  expect(problems, other.action === 'allow', `another user: ${describe(other)}`);
+  check('mentions are counted in a sliding window, per user', problems);
+}
+
+{
+  const problems: string[] = [];
+  const limits = limiter({ mentionQuotas: parseQuotas('10/1h') });
+  expect(problems, limits.check(ALICE, question(0), true, START).action === 'allow', 'the first search was refused');
+  expect(problems, limits.check(ALICE, question(1), false, START + MINUTE).action === 'allow', 'a cheap mention was held to the search quota');
+  const search = limits.check(ALICE, question(2), true, START + 2 * MINUTE);
+  expect(problems, search.action === 'cooldown' && search.reason === 'over 1/1h', `the second search: ${describe(search)}`);
+  check('searches and summaries have their own quota on top', problems);
+}
+
+{
+  const problems: string[] = [];
+  const limits = limiter({ mentionQuotas: parseQuotas('10/1h') });
+  const text = '@pubmedbot what does the new trial say about statins and muscle pain in older adults';
+  expect(problems, limits.check(ALICE, text, false, START).action === 'allow', 'the first mention was refused');
+  // The same words with another case, mention and punctuation: similarity 1
+  const reordered = limits.check(ALICE, '@PubMedBot What does the new trial say about statins and muscle pain in OLDER adults?', false, START + MINUTE);
+  expect(problems, reordered.action === 'ignore' && reordered.reason === 'repeat of a recent mention', `reworded: ${describe(reordered)}`);
+  // One word added to fourteen: 14/15 shared, over the 0.85 line
+  const padded = limits.check(ALICE, `${text} please`, false, START + 2 * MINUTE);
+  expect(problems, padded.action === 'ignore', `one word added: ${describe(padded)}`);
+  // Another question on the same pattern: 8 of 16 words shared, well under it
+  const changed = limits.check(ALICE, 'what does the new trial say about aspirin and bleeding', false, START + 3 * MINUTE);
+  expect(problems, changed.action === 'allow', `a different question: ${describe(changed)}`);
+  // Repeats are only remembered for an hour
+  const bobFirst = limits.check({ id: '2', username: 'bob' }, text, false, START);
+  const bobAgain = limits.check({ id: '2', username: 'bob' }, text, false, START + 60 * MINUTE + 1);
+  expect(problems, bobFirst.action === 'allow' && bobAgain.action === 'allow', `an hour later: ${describe(bobAgain)}`);
+  check('near-duplicates within an hour are dropped, different questions are not', problems);
+}
+
+{
+  const problems: string[] = [];
+  const limits = limiter({ mentionQuotas: parseQuotas('10/1h') });
+  limits.check(ALICE, 'same question', false, START);
+  for (let i = 1; i <= 2; i++) {
+    limits.check(ALICE, 'same question', false, START + i * MINUTE);
+  }
+  const beforeMute = limits.check(ALICE, question(1), false, START + 3 * MINUTE);
+  expect(problems, beforeMute.action === 'allow', `two strikes muted: ${describe(beforeMute)}`);
+  limits.check(ALICE, 'same question', false, START + 4 * MINUTE);
+  const muted = limits.check(ALICE, question(2), false, START + 5 * MINUTE);
+  expect(problems, muted.action === 'ignore' && muted.reason.startsWith('muted for another'), `after three strikes: ${describe(muted)}`);
+  const stillMuted = limits.check(ALICE, question(3), false, START + 4 * MINUTE + 24 * 60 * MINUTE - 1);
+  expect(problems, stillMuted.action === 'ignore', `just before the day is up: ${describe(stillMuted)}`);
+  const unmuted = limits.check(ALICE, question(4), false, START + 4 * MINUTE + 24 * 60 * MINUTE);
+  expect(problems, unmuted.action === 'allow', `a day later: ${describe(unmuted)}`);
+  check('three strikes mute a user for a day', problems);
+}
+
+{
+  const problems: string[] = [];
+  const limits = limiter({ mentionQuotas: parseQuotas('1/10m') });
+  limits.check(ALICE, question(0), false, START);
+  const first = limits.check(ALICE, question(1), false, START + MINUTE);
+  const second = limits.check(ALICE, question(2), false, START + 2 * MINUTE);
+  expect(problems, first.action === 'cooldown' && first.notify, `the first refusal: ${describe(first)}`);
+  expect(problems, second.action === 'cooldown' && !second.notify, `the second refusal: ${describe(second)}`);
+  // A refusal after the cooldown is a new one and gets its reply
+  limits.check(ALICE, question(3), false, START + 10 * MINUTE);
+  const next = limits.check(ALICE, question(4), false, START + 11 * MINUTE);
+  expect(problems, next.action === 'cooldown' && next.notify, `the next cooldown: ${describe(next)}`);
+  // Keeping on after being told to wait strikes; the third strike mutes
+  limits.check(ALICE, question(5), false, START + 12 * MINUTE);
+  limits.check(ALICE, question(6), false, START + 13 * MINUTE);
+  const muted = limits.check(ALICE, question(7), false, START + 14 * MINUTE);
+  expect(problems, muted.action === 'ignore' && muted.reason.startsWith('muted'), `after three refusals without a reply: ${describe(muted)}`);
+  check('only the first refusal of a cooldown gets a reply', problems);
+}
+
+{
+  const problems: string[] = [];
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-limits-'));
+  const file = path.join(dir, 'limits.json');
+  try {
+    const before = limiter({ file });
+    for (let i = 0; i < 3; i++) {
+      before.check(ALICE, question(i), i === 0, START + i * MINUTE);
+    }
+    before.block('@Mallory', 'spam');
+    before.allow('carol');
+
+    const after = limiter({ file });
+    after.load();
+    const over = after.check({ id: '1', username: 'Alice' }, question(3), false, START + 3 * MINUTE);
+    expect(problems, over.action === 'cooldown', `the counts were lost: ${describe(over)}`);
+    const repeat = after.check(ALICE, question(0), false, START + 10 * MINUTE + 1);
+    expect(problems, repeat.action === 'ignore' && repeat.reason === 'repeat of a recent mention', `recent texts were lost: ${describe(repeat)}`);
+    const search = after.check(ALICE, question(4), true, START + 30 * MINUTE);
+    expect(problems, search.action === 'cooldown', `the search count was lost: ${describe(search)}`);
+    const blocked = after.check({ id: '9', username: 'mallory' }, question(5), false, START);
+    expect(problems, blocked.action === 'ignore' && blocked.reason === 'blocked', `the block list was lost: ${describe(blocked)}`);
+    const allowed = Array.from({ length: 5 }, (_, i) => after.check({ username: 'Carol' }, 'same question', true, START + i));
+    expect(problems, allowed.every(decision => decision.action === 'allow'), 'the allow list was lost');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  check('counts, recent texts, blocks and allows survive a restart', problems);
+}
+
+console.log(`\n${checks - failures}/${checks} checks pass`);
+process.exit(failures > 0 ? 1 : 0);
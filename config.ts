@@ -0,0 +1,632 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { LiteratureSourceName, SOURCE_ALIASES } from './literature-sources';
+import { CronExpression, isValidTimeZone, parsePostingWindows, systemTimeZone } from './scheduler';
+import { parseQuotas } from './user-limits';
+import { parsePersonaRules } from './personality-system';
+
+dotenv.config();
+
+// Every tunable the agent reads. Values are merged from, in increasing priority:
+// built-in defaults, a JSON config file, environment variables and command line flags.
+export interface AgentConfig {
+  pubmedApiKey: string;
+  ncbiEmail: string;
+  ncbiTool: string;
+  eutilsCacheDir: string;
+  eutilsCacheHours: number;
+  maxDailyTweets: number;
+  minScoreToTweet: number;
+  tweetIntervalHours: number;
+  quirkProbability: number;
+  priorityTopics: string[];
+  avoidTopics: string[];
+  autoTweetSources: LiteratureSourceName[];
+  timeZone: string;
+  postingWindows: string;
+  searchCron: string;
+  scheduleJitterMinutes: number;
+  stateFile: string;
+  safetyLogFile: string;
+  postingMode: string;
+  approvalFile: string;
+  conversationFile: string;
+  adminUsers: string[];
+  mentionLimits: string;
+  searchLimits: string;
+  userLimitsFile: string;
+  mentionMode: string;
+  mentionPollSeconds: number;
+  mentionBackfillMinutes: number;
+  personalityFile: string;
+  personaFiles: string[];
+  personaRules: string;
+  summarizer: string;
+  llmBaseUrl: string;
+  llmModel: string;
+  llmApiKey: string;
+  llmTimeoutSeconds: number;
+  apiPort: number;
+  apiHost: string;
+  apiToken: string;
+  engagementFile: string;
+  engagementCheckHours: number;
+  engagementWindowDays: number;
+  topicBias: number;
+  topicExploration: number;
+}
+
+type ConfigValueType = 'string' | 'number' | 'integer' | 'list';
+
+interface ConfigField {
+  type: ConfigValueType;
+  env: string;
+  flag: string;
+  description: string;
+  min?: number;
+  max?: number;
+  // Extra check on the parsed value; returns an error message or null
+  check?: (value: any) => string | null;
+}
+
+const SOURCE_NAMES = Array.from(new Set(Object.values(SOURCE_ALIASES)));
+
+export const CONFIG_SCHEMA: {[K in keyof AgentConfig]: ConfigField} = {
+  pubmedApiKey: {
+    type: 'string',
+    env: 'PUBMED_API_KEY',
+    flag: '--pubmed-api-key',
+    description: 'NCBI E-utilities API key (optional but raises the rate limit)'
+  },
+  ncbiEmail: {
+    type: 'string',
+    env: 'NCBI_EMAIL',
+    flag: '--ncbi-email',
+    description: 'Contact email sent with every E-utilities request, as NCBI requires',
+    check: (email: string) => !email || /^[^@\s]+@[^@\s]+$/.test(email) ? null : `"${email}" is not an email address`
+  },
+  ncbiTool: {
+    type: 'string',
+    env: 'NCBI_TOOL',
+    flag: '--ncbi-tool',
+    description: 'Tool name sent with every E-utilities request',
+    check: (tool: string) => /^\S+$/.test(tool) ? null : 'must be a single word without spaces'
+  },
+  eutilsCacheDir: {
+    type: 'string',
+    env: 'EUTILS_CACHE_DIR',
+    flag: '--eutils-cache-dir',
+    description: 'Directory where E-utilities lookups by ID are cached'
+  },
+  eutilsCacheHours: {
+    type: 'number',
+    env: 'EUTILS_CACHE_HOURS',
+    flag: '--eutils-cache-hours',
+    description: 'How long cached E-utilities responses stay valid (0 turns the cache off)',
+    min: 0,
+    max: 24 * 30
+  },
+  maxDailyTweets: {
+    type: 'integer',
+    env: 'MAX_DAILY_TWEETS',
+    flag: '--max-daily-tweets',
+    description: 'Most article tweets posted per day',
+    min: 0,
+    max: 100
+  },
+  minScoreToTweet: {
+    type: 'number',
+    env: 'MIN_SCORE_TO_TWEET',
+    flag: '--min-score-to-tweet',
+    description: 'Lowest article rating (0-10) that gets tweeted',
+    min: 0,
+    max: 10
+  },
+  tweetIntervalHours: {
+    type: 'number',
+    env: 'TWEET_INTERVAL_HOURS',
+    flag: '--tweet-interval-hours',
+    description: 'Minimum hours between queued tweets',
+    min: 0
+  },
+  quirkProbability: {
+    type: 'number',
+    env: 'QUIRK_PROBABILITY',
+    flag: '--quirk-probability',
+    description: 'Chance (0-1) that a personality quirk is applied to a post',
+    min: 0,
+    max: 1
+  },
+  priorityTopics: {
+    type: 'list',
+    env: 'PRIORITY_TOPICS',
+    flag: '--priority-topics',
+    description: 'Comma-separated topics searched for auto-tweets',
+    check: (topics: string[]) => topics.length === 0 ? 'must list at least one topic' : null
+  },
+  avoidTopics: {
+    type: 'list',
+    env: 'AVOID_TOPICS',
+    flag: '--avoid-topics',
+    description: 'Comma-separated terms that make an article or search off limits'
+  },
+  autoTweetSources: {
+    type: 'list',
+    env: 'AUTO_TWEET_SOURCES',
+    flag: '--auto-tweet-sources',
+    description: `Comma-separated literature sources for auto-tweets (${SOURCE_NAMES.join(', ')})`,
+    check: (sources: string[]) => {
+      if (sources.length === 0) {
+        return 'must list at least one source';
+      }
+      const unknown = sources.filter(source => !SOURCE_NAMES.includes(source as LiteratureSourceName));
+      return unknown.length > 0 ? `unknown source ${unknown.map(s => `"${s}"`).join(', ')}` : null;
+    }
+  },
+  timeZone: {
+    type: 'string',
+    env: 'BOT_TIMEZONE',
+    flag: '--time-zone',
+    description: 'IANA time zone for "today", posting windows and cron jobs',
+    check: (timeZone: string) => isValidTimeZone(timeZone) ? null : `unknown time zone "${timeZone}"`
+  },
+  postingWindows: {
+    type: 'string',
+    env: 'POSTING_WINDOWS',
+    flag: '--posting-windows',
+    description: 'Comma-separated HH:MM-HH:MM ranges when posting is allowed',
+    check: (windows: string) => errorMessage(() => parsePostingWindows(windows))
+  },
+  searchCron: {
+    type: 'string',
+    env: 'SEARCH_CRON',
+    flag: '--search-cron',
+    description: 'Cron expression for the article search job',
+    check: (cron: string) => errorMessage(() => new CronExpression(cron))
+  },
+  scheduleJitterMinutes: {
+    type: 'integer',
+    env: 'SCHEDULE_JITTER_MINUTES',
+    flag: '--schedule-jitter-minutes',
+    description: 'Random delay of up to this many minutes added to each article search',
+    min: 0,
+    max: 240
+  },
+  stateFile: {
+    type: 'string',
+    env: 'STATE_FILE',
+    flag: '--state-file',
+    description: 'Path of the append-only state log'
+  },
+  safetyLogFile: {
+    type: 'string',
+    env: 'SAFETY_LOG_FILE',
+    flag: '--safety-log-file',
+    description: 'Path of the JSONL log of every post the safety guard rewrote or blocked'
+  },
+  postingMode: {
+    type: 'string',
+    env: 'POSTING_MODE',
+    flag: '--posting-mode',
+    description: 'How new article posts go out: "auto" (straight to the queue) or "approval" (held for the review CLI)',
+    check: (mode: string) => ['auto', 'approval'].includes(mode) ? null : `must be "auto" or "approval", got "${mode}"`
+  },
+  approvalFile: {
+    type: 'string',
+    env: 'APPROVAL_FILE',
+    flag: '--approval-file',
+    description: 'Path of the posts awaiting review, shared with the review CLI'
+  },
+  conversationFile: {
+    type: 'string',
+    env: 'CONVERSATION_FILE',
+    flag: '--conversation-file',
+    description: 'Path of the per-thread memory used to answer follow-up mentions'
+  },
+  adminUsers: {
+    type: 'list',
+    env: 'ADMIN_USERS',
+    flag: '--admin-users',
+    description: 'Usernames or user IDs allowed to run admin commands such as /limits and /block (comma-separated)'
+  },
+  mentionLimits: {
+    type: 'string',
+    env: 'MENTION_LIMITS',
+    flag: '--mention-limits',
+    description: 'Mentions answered per user, as count/window pairs (e.g. "5/15m,20/1d")',
+    check: (quotas: string) => errorMessage(() => parseQuotas(quotas))
+  },
+  searchLimits: {
+    type: 'string',
+    env: 'SEARCH_LIMITS',
+    flag: '--search-limits',
+    description: 'Searches, summaries and questions answered per user, as count/window pairs',
+    check: (quotas: string) => errorMessage(() => parseQuotas(quotas))
+  },
+  userLimitsFile: {
+    type: 'string',
+    env: 'USER_LIMITS_FILE',
+    flag: '--user-limits-file',
+    description: 'Path of the per-user counters, block list and allow list'
+  },
+  mentionMode: {
+    type: 'string',
+    env: 'MENTION_MODE',
+    flag: '--mention-mode',
+    description: 'How mentions come in: "poll" (mention timeline) or "stream" (filtered stream on @username)',
+    check: (mode: string) => ['poll', 'stream'].includes(mode) ? null : `must be "poll" or "stream", got "${mode}"`
+  },
+  mentionPollSeconds: {
+    type: 'integer',
+    env: 'MENTION_POLL_SECONDS',
+    flag: '--mention-poll-seconds',
+    description: 'Seconds between mention timeline polls',
+    min: 15,
+    max: 3600
+  },
+  mentionBackfillMinutes: {
+    type: 'integer',
+    env: 'MENTION_BACKFILL_MINUTES',
+    flag: '--mention-backfill-minutes',
+    description: 'On the very first run, answer mentions from up to this many minutes ago',
+    min: 0,
+    max: 10080
+  },
+  personalityFile: {
+    type: 'string',
+    env: 'PERSONALITY_FILE',
+    flag: '--personality-file',
+    description: 'Path of the personality JSON file for the default persona',
+    check: (file: string) => fs.existsSync(file) ? null : `file "${file}" not found`
+  },
+  personaFiles: {
+    type: 'list',
+    env: 'PERSONA_FILES',
+    flag: '--persona-files',
+    description: 'Personality files of further personas, for personaRules to choose from',
+    check: (files: string[]) => {
+      const missing = files.filter(file => !fs.existsSync(file));
+      return missing.length > 0 ? `not found: ${missing.join(', ')}` : null;
+    }
+  },
+  personaRules: {
+    type: 'string',
+    env: 'PERSONA_RULES',
+    flag: '--persona-rules',
+    description: 'Which persona speaks when, e.g. "channel:dm=clinician,topic:oncology=clinician,window:06:00-09:00=clinician" (first match wins)',
+    check: (rules: string) => errorMessage(() => parsePersonaRules(rules))
+  },
+  summarizer: {
+    type: 'string',
+    env: 'SUMMARIZER',
+    flag: '--summarizer',
+    description: 'How key findings are written: "heuristic" (offline) or "llm" (OpenAI-compatible endpoint)',
+    check: (name: string) => ['heuristic', 'llm'].includes(name) ? null : `must be "heuristic" or "llm", got "${name}"`
+  },
+  llmBaseUrl: {
+    type: 'string',
+    env: 'LLM_BASE_URL',
+    flag: '--llm-base-url',
+    description: 'OpenAI-compatible API base URL, e.g. http://localhost:11434/v1 for Ollama',
+    check: (url: string) => /^https?:\/\/\S+$/.test(url) ? null : `not an http(s) URL: "${url}"`
+  },
+  llmModel: {
+    type: 'string',
+    env: 'LLM_MODEL',
+    flag: '--llm-model',
+    description: 'Model name passed to the summarization endpoint'
+  },
+  llmApiKey: {
+    type: 'string',
+    env: 'LLM_API_KEY',
+    flag: '--llm-api-key',
+    description: 'Bearer token for the summarization endpoint (local servers usually need none)'
+  },
+  llmTimeoutSeconds: {
+    type: 'number',
+    env: 'LLM_TIMEOUT_SECONDS',
+    flag: '--llm-timeout-seconds',
+    description: 'Give up on the summarization endpoint after this long and use the heuristic',
+    min: 1,
+    max: 300
+  },
+  apiPort: {
+    type: 'integer',
+    env: 'API_PORT',
+    flag: '--api-port',
+    description: 'Port for the local HTTP/JSON API (0 leaves it off)',
+    min: 0,
+    max: 65535
+  },
+  apiHost: {
+    type: 'string',
+    env: 'API_HOST',
+    flag: '--api-host',
+    description: 'Address the API listens on; keep it on localhost unless a token is set'
+  },
+  apiToken: {
+    type: 'string',
+    env: 'API_TOKEN',
+    flag: '--api-token',
+    description: 'Bearer token API clients must send (no auth when empty)'
+  },
+  engagementFile: {
+    type: 'string',
+    env: 'ENGAGEMENT_FILE',
+    flag: '--engagement-file',
+    description: 'Path of the metrics of every posted tweet, read by the engagement report'
+  },
+  engagementCheckHours: {
+    type: 'integer',
+    env: 'ENGAGEMENT_CHECK_HOURS',
+    flag: '--engagement-check-hours',
+    description: 'Hours between fetches of tweet metrics, a divisor of 24 so the fetches stay evenly spaced (0 turns collection off)',
+    min: 0,
+    max: 24,
+    // Runs on the hours of the day divisible by it; 7 would fetch at 21:00 and again at 00:00
+    check: (hours: number) => hours === 0 || 24 % hours === 0 ? null : `must divide 24 (1, 2, 3, 4, 6, 8, 12 or 24), got ${hours}`
+  },
+  engagementWindowDays: {
+    type: 'integer',
+    env: 'ENGAGEMENT_WINDOW_DAYS',
+    flag: '--engagement-window-days',
+    description: 'Days after posting that a tweet\'s metrics keep being refreshed',
+    min: 1,
+    max: 30
+  },
+  topicBias: {
+    type: 'number',
+    env: 'TOPIC_BIAS',
+    flag: '--topic-bias',
+    description: 'How far (0-1) topic choice and enthusiasm follow past engagement (0 turns it off)',
+    min: 0,
+    max: 1
+  },
+  topicExploration: {
+    type: 'number',
+    env: 'TOPIC_EXPLORATION',
+    flag: '--topic-exploration',
+    description: 'Lowest weight (0-1) a poorly performing topic keeps, next to 1 for an average one',
+    min: 0,
+    max: 1
+  }
+};
+
+export function defaultConfig(): AgentConfig {
+  return {
+    pubmedApiKey: '',
+    ncbiEmail: '',
+    ncbiTool: 'pubmed-twitter-bot',
+    eutilsCacheDir: path.join(process.cwd(), 'data', 'eutils-cache'),
+    eutilsCacheHours: 24,
+    maxDailyTweets: 5,
+    minScoreToTweet: 7.5,
+    tweetIntervalHours: 3,
+    quirkProbability: 0.7,
+    priorityTopics: [
+      'vaccine', 'immunotherapy', 'CRISPR', 'artificial intelligence', 'machine learning',
+      'precision medicine', 'genomics', 'microbiome', 'neuroscience', 'pandemic',
+      'mental health', 'cancer research', 'rare disease', 'public health', 'drug discovery'
+    ],
+    avoidTopics: [
+      'political', 'controversial', 'abortion', 'gun', 'religion', 'alternative medicine',
+      'unproven therapy', 'unethical', 'retracted', 'disputed', 'lawsuit'
+    ],
+    autoTweetSources: ['pubmed', 'europepmc', 'medrxiv'],
+    timeZone: systemTimeZone(),
+    postingWindows: '08:00-22:00',
+    searchCron: '0 */4 * * *',
+    scheduleJitterMinutes: 15,
+    stateFile: path.join(process.cwd(), 'data', 'agent-state.jsonl'),
+    safetyLogFile: path.join(process.cwd(), 'data', 'safety-log.jsonl'),
+    postingMode: 'auto',
+    approvalFile: path.join(process.cwd(), 'data', 'approvals.jsonl'),
+    conversationFile: path.join(process.cwd(), 'data', 'conversations.json'),
+    adminUsers: [],
+    mentionLimits: '5/15m,30/1d',
+    searchLimits: '3/15m,15/1d',
+    userLimitsFile: path.join(process.cwd(), 'data', 'user-limits.json'),
+    mentionMode: 'poll',
+    mentionPollSeconds: 60,
+    mentionBackfillMinutes: 60,
+    personalityFile: path.join(__dirname, 'personality.json'),
+    personaFiles: [],
+    personaRules: '',
+    summarizer: 'heuristic',
+    llmBaseUrl: 'https://api.openai.com/v1',
+    llmModel: '',
+    llmApiKey: '',
+    llmTimeoutSeconds: 30,
+    apiPort: 0,
+    apiHost: '127.0.0.1',
+    apiToken: '',
+    engagementFile: path.join(process.cwd(), 'data', 'engagement.json'),
+    engagementCheckHours: 6,
+    engagementWindowDays: 7,
+    topicBias: 0,
+    topicExploration: 0.2
+  };
+}
+
+// Thrown when the merged configuration doesn't pass the schema; lists every problem at once
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+export interface LoadConfigOptions {
+  // Command line arguments (without node and the script); flags not in the schema must be listed in passThroughFlags
+  argv?: string[];
+  env?: {[name: string]: string | undefined};
+  // JSON config file; otherwise --config, $AGENT_CONFIG or ./agent.config.json if it exists
+  configFile?: string;
+  // Flags the caller handles itself, e.g. --dry-run
+  passThroughFlags?: string[];
+}
+
+const DEFAULT_CONFIG_FILE = 'agent.config.json';
+
+export function loadConfig(options: LoadConfigOptions = {}): AgentConfig {
+  const argv = options.argv || [];
+  const env = options.env || process.env;
+  const passThrough = new Set(['--config', ...(options.passThroughFlags || [])]);
+  const config = defaultConfig();
+  const problems: string[] = [];
+  const keys = Object.keys(CONFIG_SCHEMA) as (keyof AgentConfig)[];
+
+  const set = (key: keyof AgentConfig, raw: unknown, origin: string) => {
+    const result = coerce(raw, CONFIG_SCHEMA[key]);
+    if (typeof result === 'string') {
+      problems.push(`${origin}: ${result}`);
+    } else {
+      (config as Record<keyof AgentConfig, unknown>)[key] = result.value;
+    }
+  };
+
+  // 1. Config file
+  const configFile = options.configFile || flagValue(argv, '--config') || env.AGENT_CONFIG ||
+    (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+
+  if (configFile) {
+    try {
+      const fileValues = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+      if (!fileValues || typeof fileValues !== 'object' || Array.isArray(fileValues)) {
+        throw new Error('expected a JSON object');
+      }
+
+      for (const [key, value] of Object.entries(fileValues)) {
+        if (Object.prototype.hasOwnProperty.call(CONFIG_SCHEMA, key)) {
+          set(key as keyof AgentConfig, value, `${configFile} "${key}"`);
+        } else {
+          problems.push(`${configFile}: unknown setting "${key}"`);
+        }
+      }
+    } catch (error) {
+      problems.push(`${configFile}: could not read config file (${(error as Error).message})`);
+    }
+  }
+
+  // 2. Environment variables
+  for (const key of keys) {
+    const value = env[CONFIG_SCHEMA[key].env];
+    if (value !== undefined && value !== '') {
+      set(key, value, `$${CONFIG_SCHEMA[key].env}`);
+    }
+  }
+
+  // 3. Command line flags, as "--flag value" or "--flag=value"
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      continue;
+    }
+
+    const [flag, inlineValue] = splitFlag(argv[i]);
+    const key = keys.find(k => CONFIG_SCHEMA[k].flag === flag);
+
+    if (!key) {
+      if (!passThrough.has(flag)) {
+        problems.push(`${flag}: unknown option`);
+      }
+      continue;
+    }
+
+    const value = inlineValue !== undefined ? inlineValue : argv[++i];
+    if (value === undefined) {
+      problems.push(`${flag}: missing value`);
+    } else {
+      set(key, value, flag);
+    }
+  }
+
+  // Checks that depend on the final value run once everything is merged
+  for (const key of keys) {
+    const check = CONFIG_SCHEMA[key].check;
+    const message = check ? check(config[key]) : null;
+    if (message) {
+      problems.push(`${key}: ${message}`);
+    }
+  }
+
+  if (config.summarizer === 'llm' && !config.llmModel) {
+    problems.push('llmModel: required when summarizer is "llm"');
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return config;
+}
+
+// One line per setting, for --help output
+export function describeConfig(): string[] {
+  return (Object.keys(CONFIG_SCHEMA) as (keyof AgentConfig)[]).map(key => {
+    const field = CONFIG_SCHEMA[key];
+    return `  ${field.flag} (${field.env}): ${field.description}`;
+  });
+}
+
+function coerce(raw: unknown, field: ConfigField): { value: unknown } | string {
+  switch (field.type) {
+    case 'string':
+      return typeof raw === 'string' ? { value: raw.trim() } : 'expected a string';
+
+    case 'list': {
+      if (typeof raw === 'string') {
+        return { value: raw.split(',').map(item => item.trim()).filter(Boolean) };
+      }
+      if (Array.isArray(raw) && raw.every(item => typeof item === 'string')) {
+        return { value: raw.map(item => item.trim()).filter(Boolean) };
+      }
+      return 'expected a list of strings';
+    }
+
+    case 'number':
+    case 'integer': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !isFinite(value)) {
+        return `expected a number, got ${JSON.stringify(raw)}`;
+      }
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return `expected a whole number, got ${value}`;
+      }
+      if (field.min !== undefined && value < field.min) {
+        return `must be at least ${field.min}, got ${value}`;
+      }
+      if (field.max !== undefined && value > field.max) {
+        return `must be at most ${field.max}, got ${value}`;
+      }
+      return { value };
+    }
+  }
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const index = arg.indexOf('=');
+  return index >= 0 ? [arg.slice(0, index), arg.slice(index + 1)] : [arg, undefined];
+}
+
+function flagValue(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const [name, inlineValue] = splitFlag(argv[i]);
+    if (name === flag) {
+      return inlineValue !== undefined ? inlineValue : argv[i + 1];
+    }
+  }
+  return undefined;
+}
+
+function errorMessage(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// What we've said in each mention thread, keyed by the platform's conversation ID, so
+// that follow-ups like "summarize #2" or "what was the sample size?" can be tied back to
+// the articles we showed. Kept as a small JSON snapshot; old threads expire.
+
+export interface ConversationArticle {
+  id: string;
+  title: string;
+  source: string;
+}
+
+export interface Conversation {
+  id: string;
+  topic?: string;
+  // In the order we listed them, so "#2" is articles[1]
+  articles: ConversationArticle[];
+  // The article last summarized or asked about: what "it" and "that study" refer to
+  focusArticleId?: string;
+  updatedAt: string;
+}
+
+const CONVERSATION_TTL_DAYS = 7;
+const MAX_CONVERSATIONS = 1000;
+
+export class ConversationStore {
+  private filePath?: string;
+  private conversations: Map<string, Conversation> = new Map();
+
+  // Without a file path the store only lives in memory
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  load(): void {
+    this.conversations.clear();
+
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const saved: Conversation[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const conversation of saved) {
+        this.conversations.set(conversation.id, conversation);
+      }
+      this.prune();
+    } catch (error) {
+      console.error(`Error reading conversations from ${this.filePath}, starting fresh:`, error);
+    }
+  }
+
+  get(conversationId: string): Conversation | undefined {
+    return this.conversations.get(conversationId);
+  }
+
+  // A new list of results replaces the old one: "#1" always means the latest list
+  recordArticles(conversationId: string, articles: ConversationArticle[], topic?: string): void {
+    this.update(conversationId, conversation => ({
+      ...conversation,
+      topic: topic || conversation.topic,
+      articles: articles.map(article => ({ id: article.id, title: article.title, source: article.source })),
+      focusArticleId: articles.length === 1 ? articles[0].id : undefined
+    }));
+  }
+
+  // Remember the article we just talked about; adds it to the thread if we hadn't listed it
+  recordFocus(conversationId: string, article: ConversationArticle, topic?: string): void {
+    this.update(conversationId, conversation => ({
+      ...conversation,
+      topic: topic || conversation.topic,
+      articles: conversation.articles.some(a => a.id === article.id)
+        ? conversation.articles
+        : [...conversation.articles, { id: article.id, title: article.title, source: article.source }],
+      focusArticleId: article.id
+    }));
+  }
+
+  recordTopic(conversationId: string, topic: string): void {
+    this.update(conversationId, conversation => ({ ...conversation, topic }));
+  }
+
+  private update(conversationId: string, change: (conversation: Conversation) => Conversation): void {
+    const existing = this.conversations.get(conversationId) || { id: conversationId, articles: [], updatedAt: '' };
+    // Re-insert so the Map stays ordered by last activity
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, { ...change(existing), updatedAt: new Date().toISOString() });
+
+    this.prune();
+    this.save();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - CONVERSATION_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+    for (const [id, conversation] of this.conversations) {
+      if (new Date(conversation.updatedAt).getTime() < cutoff || this.conversations.size > MAX_CONVERSATIONS) {
+        this.conversations.delete(id);
+      }
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.conversations.values())));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error('Error saving conversations:', error);
+    }
+  }
+}
+
+const ORDINALS: {[word: string]: number} = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+// Which of the conversation's articles the text points at: "#2", "number 2", "the 2nd",
+// "the second one" or "the last one". Anything else ("it", "that study") means the
+// article in focus. Returns null when the reference is out of range or ambiguous.
+export function resolveArticleReference(text: string, conversation: Conversation): ConversationArticle | null {
+  const lower = text.toLowerCase();
+  const articles = conversation.articles;
+  const at = (position: number) => position >= 1 && position <= articles.length ? articles[position - 1] : null;
+
+  const numbered = lower.match(/(?:#|\bnumber\s+|\bno\.?\s*)(\d{1,2})\b/) || lower.match(/\b(\d{1,2})(?:st|nd|rd|th)\b/);
+  if (numbered) {
+    return at(Number(numbered[1]));
+  }
+
+  const ordinal = lower.match(/\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last)\b/);
+  if (ordinal && /\b(one|study|paper|article|trial|preprint|result|link)\b/.test(lower.slice(ordinal.index!))) {
+    return ordinal[1] === 'last' ? at(articles.length) : at(ORDINALS[ordinal[1]]);
+  }
+
+  const focus = articles.find(article => article.id === conversation.focusArticleId);
+  if (focus) {
+    return focus;
+  }
+  // Only one article on the table: nothing else "it" could mean
+  return articles.length === 1 ? articles[0] : null;
+}
+
+export type FollowUpKind =
+  | 'sample-size'
+  | 'design'
+  | 'finding'
+  | 'limitations'
+  | 'journal'
+  | 'authors'
+  | 'date'
+  | 'link'
+  | 'peer-review'
+  | 'funding';
+
+const FOLLOW_UPS: [FollowUpKind, RegExp][] = [
+  ['sample-size', /\b(sample size|how many (people|patients|participants|subjects|adults|children|women|men)|how (big|large) was|participants|enrolled|\bn\s*=)/i],
+  ['design', /\b(what (kind|type) of (study|trial|paper)|study design|randomi[sz]ed|is it an? (rct|trial|meta-analysis|observational)|how good is the evidence|evidence level)/i],
+  ['limitations', /\b(limitations?|weakness(es)?|caveats?|downsides?|catch)\b/i],
+  ['peer-review', /\b(peer[- ]?review(ed)?|preprint)\b/i],
+  ['funding', /\b(funded|funding|sponsor(ed)?|paid for|conflicts? of interest)\b/i],
+  ['journal', /\b(which|what) journal\b|\bpublished (in|where)\b|\bwhere was it published\b/i],
+  ['authors', /\bwho (wrote|did|ran|led|published)\b|\bauthors?\b/i],
+  ['date', /\bwhen (was|did)\b.*\b(published|come out|out)\b|\bpublication date\b|\bhow (new|recent|old)\b/i],
+  ['link', /\b(link|url|doi|full text|where can i read|source)\b/i],
+  ['finding', /\b(what did (it|they|the study|the authors) find|main finding|results?|conclusions?|tl;?dr|what does it say|takeaway|bottom line)\b/i]
+];
+
+// The kind of question asked about an article we've shown, if it's one we can answer
+export function detectFollowUp(text: string): FollowUpKind | null {
+  const match = FOLLOW_UPS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+}
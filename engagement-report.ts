@@ -0,0 +1,116 @@
+import { AgentConfig, loadConfig } from './config';
+import {
+  EngagementGroup, EngagementRecord, EngagementStore, engagementCount, enthusiasmAdjustments,
+  performanceBy, topicWeights
+} from './engagement-store';
+import { StateStore } from './state-store';
+
+// How posted tweets have done, from the metrics the agent collects every
+// engagementCheckHours:
+//   npm run engagement                   engagement rate by topic, persona and response
+//                                        pattern, then the best tweets
+//   npm run engagement -- --days <n>     only tweets posted in the last n days
+//   npm run engagement -- --top <n>      how many of the best tweets to list (default 5)
+// Ends with the topic weights and enthusiasm changes topicBias applies. Settings flags
+// such as --engagement-file or --config work as they do for the agent.
+const REPORT_FLAGS = ['--days', '--top'];
+const args = process.argv.slice(2);
+
+function flagValue(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function countFlag(name: string, fallback: number): number {
+  const text = flagValue(name);
+  if (text === undefined) {
+    return fallback;
+  }
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a whole number of at least 1, got "${text}"`);
+  }
+  return value;
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function printGroup(records: EngagementRecord[], group: EngagementGroup): void {
+  const rows = performanceBy(records, group);
+  console.log(`\nBy ${group}:`);
+  if (rows.length === 0) {
+    console.log('  (no metrics yet)');
+    return;
+  }
+
+  const width = Math.max(...rows.map(row => row.key.length));
+  console.log(`  ${''.padEnd(width)}  posts  impressions  engagements    rate`);
+  for (const row of rows) {
+    console.log(`  ${row.key.padEnd(width)}  ${String(row.posts).padStart(5)}  ${String(row.impressions).padStart(11)}  ${String(row.engagements).padStart(11)}  ${percent(row.rate).padStart(6)}`);
+  }
+}
+
+// Most engagements first; the post's article title, or its first line, says which it was
+function printTopTweets(records: EngagementRecord[], count: number, state: StateStore): void {
+  const measured = records
+    .filter(record => record.metrics)
+    .sort((a, b) => engagementCount(b.metrics!) - engagementCount(a.metrics!))
+    .slice(0, count);
+
+  console.log(`\nTop ${measured.length} tweets:`);
+  for (const record of measured) {
+    const metrics = record.metrics!;
+    const article = record.articleId ? state.getArticle(record.articleId) : undefined;
+    const label = article ? article.title : (record.articleId || 'no article');
+    const attribution = [record.attribution.topic, record.attribution.persona].filter(Boolean).join(', ');
+
+    console.log(`  ${record.tweetId}  ${record.postedAt.slice(0, 10)}  ${attribution ? `[${attribution}]` : ''}`);
+    console.log(`    ${metrics.impressions} impressions, ${metrics.likes} likes, ${metrics.replies} replies, ${metrics.retweets} retweets, ${metrics.quotes} quotes`);
+    console.log(`    ${label.length > 100 ? label.slice(0, 99) + '…' : label}`);
+  }
+}
+
+function printBias(records: EngagementRecord[], config: AgentConfig): void {
+  if (config.topicBias === 0) {
+    console.log('\ntopicBias is 0: topics are searched in a random order and enthusiasm comes from the personality files');
+    return;
+  }
+
+  const weights = topicWeights(records, config.priorityTopics, { bias: config.topicBias, exploration: config.topicExploration });
+  const adjustments = enthusiasmAdjustments(records, config.topicBias);
+  console.log(`\nTopic weights (topicBias ${config.topicBias}, topicExploration ${config.topicExploration}):`);
+  for (const [topic, weight] of Array.from(weights).sort((a, b) => b[1] - a[1])) {
+    const change = adjustments.get(topic);
+    console.log(`  ${topic.padEnd(24)} ${weight.toFixed(2)}${change ? `  enthusiasm ${change > 0 ? '+' : ''}${change}` : ''}`);
+  }
+}
+
+function run(config: AgentConfig): void {
+  const store = new EngagementStore(config.engagementFile);
+  store.load();
+  // Only for article titles; the agent may be writing to the log right now
+  const state = new StateStore(config.stateFile, config.timeZone);
+  state.load({ readOnly: true });
+
+  const days = flagValue('--days') !== undefined ? countFlag('--days', 0) : undefined;
+  const records = days !== undefined ? store.due(days) : store.list();
+  const measured = records.filter(record => record.metrics).length;
+
+  console.log(`${records.length} tweets tracked${days !== undefined ? ` in the last ${days} days` : ''}, ${measured} with metrics (${config.engagementFile})`);
+  printGroup(records, 'topic');
+  printGroup(records, 'persona');
+  printGroup(records, 'pattern');
+  printTopTweets(records, countFlag('--top', 5), state);
+  // The bias always looks at everything the agent has, like the agent does
+  printBias(store.list(), config);
+}
+
+try {
+  run(loadConfig({ argv: args, passThroughFlags: REPORT_FLAGS }));
+} catch (error) {
+  // Config problems and bad flags end up here
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EvidenceTier } from './rating-engine';
+import { TweetMetrics } from './social-client';
+
+// How each posted tweet has done, with what went into it: the topic that was searched,
+// the persona and response pattern that wrote it, and the article's rating. Metrics are
+// refreshed while a tweet is young; the numbers then feed the engagement report and,
+// if topicBias is set, which topics the bot searches first. Kept as a JSON snapshot.
+
+// What a post was made of, carried with it from generation to posting
+export interface PostAttribution {
+  topic?: string;
+  persona?: string;
+  pattern?: string;
+  score?: number;
+  tier?: EvidenceTier;
+}
+
+export interface EngagementRecord {
+  tweetId: string;           // the first tweet of a thread; replies to it count toward it
+  articleId?: string;
+  postedAt: string;
+  attribution: PostAttribution;
+  metrics?: TweetMetrics;
+  collectedAt?: string;
+}
+
+export type EngagementGroup = 'topic' | 'persona' | 'pattern';
+
+export interface GroupPerformance {
+  key: string;
+  posts: number;             // posts with metrics
+  impressions: number;
+  engagements: number;       // likes, replies, retweets and quotes
+  rate: number;              // engagements per impression
+}
+
+export interface TopicBiasOptions {
+  bias: number;              // 0 ignores engagement, 1 goes fully by it
+  exploration: number;       // the lowest weight a topic can get, next to 1 for an average one
+}
+
+const MAX_RECORDS = 5000;
+// Fewer measured posts than this and a topic is treated as average
+const MIN_POSTS_FOR_BIAS = 3;
+// A topic can't count as more than this many times the average
+const MAX_RELATIVE_RATE = 3;
+// Enthusiasm moves at most this far from the personality file's level
+const MAX_ENTHUSIASM_CHANGE = 2;
+
+export class EngagementStore {
+  private filePath?: string;
+  private records: Map<string, EngagementRecord> = new Map();
+
+  // Without a file path the store only lives in memory
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  load(): void {
+    this.records.clear();
+
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const saved: EngagementRecord[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const record of saved) {
+        this.records.set(record.tweetId, record);
+      }
+    } catch (error) {
+      console.error(`Error reading engagement from ${this.filePath}, starting fresh:`, error);
+    }
+  }
+
+  // Oldest first
+  list(): EngagementRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  track(tweetId: string, articleId: string | undefined, attribution: PostAttribution = {}): void {
+    this.records.set(tweetId, { tweetId, articleId, postedAt: new Date().toISOString(), attribution });
+    this.prune();
+    this.save();
+  }
+
+  // Tweets posted in the last windowDays, whose numbers are still moving
+  due(windowDays: number, now: Date = new Date()): EngagementRecord[] {
+    const cutoff = now.getTime() - windowDays * 24 * 60 * 60 * 1000;
+    return this.list().filter(record => new Date(record.postedAt).getTime() >= cutoff);
+  }
+
+  // Tweets missing from `metrics` keep their last numbers
+  recordMetrics(metrics: Map<string, TweetMetrics>, now: Date = new Date()): number {
+    let updated = 0;
+    for (const [tweetId, counts] of metrics) {
+      const record = this.records.get(tweetId);
+      if (record) {
+        this.records.set(tweetId, { ...record, metrics: counts, collectedAt: now.toISOString() });
+        updated++;
+      }
+    }
+
+    if (updated > 0) {
+      this.save();
+    }
+    return updated;
+  }
+
+  private prune(): void {
+    for (const id of this.records.keys()) {
+      if (this.records.size <= MAX_RECORDS) {
+        break;
+      }
+      this.records.delete(id);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.list()));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error('Error saving engagement:', error);
+    }
+  }
+}
+
+export function engagementCount(metrics: TweetMetrics): number {
+  return metrics.likes + metrics.replies + metrics.retweets + metrics.quotes;
+}
+
+// Totals per topic, persona or pattern over the posts that have metrics, best rate first.
+// Posts without a value for the group are listed under "(none)".
+export function performanceBy(records: EngagementRecord[], group: EngagementGroup): GroupPerformance[] {
+  const groups = new Map<string, GroupPerformance>();
+
+  for (const record of records) {
+    if (!record.metrics) {
+      continue;
+    }
+    const key = record.attribution[group] || '(none)';
+    const totals = groups.get(key) || { key, posts: 0, impressions: 0, engagements: 0, rate: 0 };
+    totals.posts++;
+    totals.impressions += record.metrics.impressions;
+    totals.engagements += engagementCount(record.metrics);
+    groups.set(key, totals);
+  }
+
+  return Array.from(groups.values())
+    .map(totals => ({ ...totals, rate: totals.impressions > 0 ? totals.engagements / totals.impressions : 0 }))
+    .sort((a, b) => b.rate - a.rate || b.posts - a.posts);
+}
+
+// Each topic's engagement rate over the rate of every measured post (1 is average), for
+// topics with enough posts to say; the rest are left out
+function relativeTopicRates(records: EngagementRecord[]): Map<string, number> {
+  const measured = records.filter(record => record.metrics);
+  const impressions = measured.reduce((sum, record) => sum + record.metrics!.impressions, 0);
+  const engagements = measured.reduce((sum, record) => sum + engagementCount(record.metrics!), 0);
+  const relative = new Map<string, number>();
+
+  if (impressions === 0 || engagements === 0) {
+    return relative;
+  }
+
+  const overall = engagements / impressions;
+  for (const topic of performanceBy(measured, 'topic')) {
+    if (topic.key !== '(none)' && topic.posts >= MIN_POSTS_FOR_BIAS && topic.impressions > 0) {
+      relative.set(topic.key, Math.min(MAX_RELATIVE_RATE, topic.rate / overall));
+    }
+  }
+  return relative;
+}
+
+// How likely each topic is to be searched early: 1 for an average topic (and for ones
+// without enough data), more for topics that do better, less for ones that do worse,
+// but never under options.exploration so every topic still gets tried
+export function topicWeights(records: EngagementRecord[], topics: string[], options: TopicBiasOptions): Map<string, number> {
+  const relative = relativeTopicRates(records);
+  const weights = new Map<string, number>();
+
+  for (const topic of topics) {
+    const rate = relative.has(topic) ? relative.get(topic)! : 1;
+    weights.set(topic, Math.max(options.exploration, (1 - options.bias) + options.bias * rate));
+  }
+  return weights;
+}
+
+// Enthusiasm up for topics that do better than average and down for ones that do worse,
+// scaled by bias; for PersonaSet.setEnthusiasmAdjustments
+export function enthusiasmAdjustments(records: EngagementRecord[], bias: number): Map<string, number> {
+  const adjustments = new Map<string, number>();
+
+  for (const [topic, rate] of relativeTopicRates(records)) {
+    const change = Math.min(MAX_ENTHUSIASM_CHANGE, Math.max(-MAX_ENTHUSIASM_CHANGE, (rate - 1) * 2));
+    adjustments.set(topic, Math.round(change * bias * 10) / 10);
+  }
+  return adjustments;
+}
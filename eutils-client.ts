@@ -0,0 +1,332 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// One client for every NCBI E-utilities call (esearch, esummary, efetch, epost).
+// NCBI allows 3 requests a second per IP, 10 with an API key; going over gets the
+// requests refused and, done repeatedly, the IP blocked. So all calls share one token
+// bucket, transient failures are retried with backoff, and each request carries the
+// tool/email parameters NCBI asks for. Lookups by ID are cached on disk; anything tied
+// to a history-server session (WebEnv) is not, since sessions expire.
+
+export const EUTILS_BASE_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+export const IDCONV_URL = 'https://www.ncbi.nlm.nih.gov/pmc/utils/idconv/v1.0/';
+
+export type EutilsParams = {[name: string]: string | number | undefined};
+
+export interface EutilsResponse {
+  status: number;
+  body: string;
+}
+
+// Sends one HTTP request. Swapped out in check-eutils.ts to replay recorded responses.
+export type EutilsTransport = (url: string, params: EutilsParams, method: 'GET' | 'POST') => Promise<EutilsResponse>;
+
+// A result set parked on the NCBI history server, usable by later esummary/efetch calls
+export interface HistoryRef {
+  webEnv: string;
+  queryKey: string;
+  count: number;
+}
+
+export interface SearchResult {
+  ids: string[];
+  count: number;
+  history?: HistoryRef;
+}
+
+export interface EutilsClientOptions {
+  apiKey?: string;
+  tool?: string;
+  email?: string;
+  // Directory for cached responses; no disk cache without one
+  cacheDir?: string;
+  cacheTtlHours?: number;
+  maxRetries?: number;
+  transport?: EutilsTransport;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+// IDs per efetch/esummary page when reading from the history server
+const HISTORY_PAGE_SIZE = 200;
+
+const axiosTransport: EutilsTransport = async (url, params, method) => {
+  const response = method === 'POST'
+    ? await axios.post(url, new URLSearchParams(definedParams(params)).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      responseType: 'text',
+      validateStatus: () => true,
+      timeout: 30000
+    })
+    : await axios.get(url, { params, responseType: 'text', validateStatus: () => true, timeout: 30000 });
+
+  return { status: response.status, body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data) };
+};
+
+function definedParams(params: EutilsParams): {[name: string]: string} {
+  const defined: {[name: string]: string} = {};
+  Object.keys(params).sort().forEach(name => {
+    if (params[name] !== undefined && params[name] !== '') {
+      defined[name] = String(params[name]);
+    }
+  });
+  return defined;
+}
+
+// Requests are let through at `ratePerSecond`, with bursts of up to `capacity`
+export class TokenBucket {
+  private ratePerSecond: number;
+  private capacity: number;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private tokens: number;
+  private updatedAt: number;
+  // Waiting callers queue up here so they're served in order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number, capacity: number, now: () => number, sleep: (ms: number) => Promise<void>) {
+    this.ratePerSecond = ratePerSecond;
+    this.capacity = capacity;
+    this.now = now;
+    this.sleep = sleep;
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  take(): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await this.sleep(Math.ceil((1 - this.tokens) / this.ratePerSecond * 1000));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    return this.queue;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.ratePerSecond);
+    this.updatedAt = now;
+  }
+}
+
+export class EutilsClient {
+  private options: EutilsClientOptions;
+  private bucket: TokenBucket;
+  private transport: EutilsTransport;
+  private sleep: (ms: number) => Promise<void>;
+  private now: () => number;
+
+  constructor(options: EutilsClientOptions = {}) {
+    this.options = options;
+    this.transport = options.transport || axiosTransport;
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.now = options.now || Date.now;
+
+    const ratePerSecond = options.apiKey ? 10 : 3;
+    this.bucket = new TokenBucket(ratePerSecond, ratePerSecond, this.now, this.sleep);
+
+    if (!options.email) {
+      console.warn('No NCBI contact email configured (NCBI_EMAIL); NCBI asks every E-utilities tool for one');
+    }
+  }
+
+  // Run a search. With `useHistory` the full result set is also kept on the history
+  // server, so it can be read in pages without sending the IDs back.
+  async esearch(db: string, term: string, options: { retmax?: number; sort?: string; useHistory?: boolean } = {}): Promise<SearchResult> {
+    const data = await this.requestJson('esearch', {
+      db,
+      term,
+      retmax: options.retmax,
+      sort: options.sort,
+      usehistory: options.useHistory ? 'y' : undefined
+    });
+
+    const result = data.esearchresult;
+    if (!result || result.ERROR) {
+      throw new Error(`esearch failed: ${(result && result.ERROR) || 'no result'}`);
+    }
+
+    const count = Number(result.count) || 0;
+    return {
+      ids: result.idlist || [],
+      count,
+      history: result.webenv ? { webEnv: result.webenv, queryKey: String(result.querykey), count } : undefined
+    };
+  }
+
+  // Put a list of IDs on the history server, for IDs that didn't come from an esearch
+  async epost(db: string, ids: string[]): Promise<HistoryRef> {
+    const body = await this.request('epost', { db, id: ids.join(',') }, { method: 'POST' });
+    const webEnv = body.match(/<WebEnv>([^<]+)<\/WebEnv>/);
+    const queryKey = body.match(/<QueryKey>([^<]+)<\/QueryKey>/);
+
+    if (!webEnv || !queryKey) {
+      const error = body.match(/<ERROR>([^<]+)<\/ERROR>/);
+      throw new Error(`epost failed: ${error ? error[1] : 'no WebEnv in the response'}`);
+    }
+    return { webEnv: webEnv[1], queryKey: queryKey[1], count: ids.length };
+  }
+
+  // Document summaries keyed by UID, plus `uids` in the order NCBI returned them.
+  // Pass IDs to look them up (cached), or a history reference to page through a result set.
+  async esummary(db: string, source: string[] | HistoryRef, page: { retstart?: number; retmax?: number } = {}): Promise<any> {
+    const data = await this.requestJson('esummary', { db, ...this.selection(source), ...page });
+
+    if (!data.result) {
+      throw new Error(`esummary failed: ${data.error || 'no result'}`);
+    }
+    return data.result;
+  }
+
+  // Full records (XML unless told otherwise) for a list of IDs
+  async efetch(db: string, ids: string[], retmode: string = 'xml'): Promise<string> {
+    return this.request('efetch', { db, id: ids.join(','), retmode });
+  }
+
+  // Full records for any number of IDs: posted to the history server once, then read
+  // back a page at a time. Returns one response body per page.
+  async efetchBatch(db: string, ids: string[], retmode: string = 'xml'): Promise<string[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    if (ids.length === 1) {
+      return [await this.efetch(db, ids, retmode)];
+    }
+
+    const history = await this.epost(db, ids);
+    const pages: string[] = [];
+    for (let retstart = 0; retstart < history.count; retstart += HISTORY_PAGE_SIZE) {
+      pages.push(await this.request('efetch', { db, ...this.selection(history), retmode, retstart, retmax: HISTORY_PAGE_SIZE }));
+    }
+    return pages;
+  }
+
+  // PMC ID Converter records ({ pmid, pmcid, doi, ... }) for a list of PMIDs. Not an
+  // E-utility, but NCBI counts it against the same limit, so it shares the throttle,
+  // retries, cache and tool/email parameters.
+  async idconv(pmids: string[]): Promise<any[]> {
+    const body = await this.request('idconv', { ids: pmids.join(','), idtype: 'pmid', format: 'json' }, { url: IDCONV_URL });
+    try {
+      const data = JSON.parse(body);
+      return Array.isArray(data.records) ? data.records : [];
+    } catch (error) {
+      throw new Error(`idconv returned invalid JSON: ${body.slice(0, 200)}`);
+    }
+  }
+
+  private selection(source: string[] | HistoryRef): EutilsParams {
+    return Array.isArray(source)
+      ? { id: source.join(',') }
+      : { WebEnv: source.webEnv, query_key: source.queryKey };
+  }
+
+  private async requestJson(utility: string, params: EutilsParams): Promise<any> {
+    const body = await this.request(utility, { ...params, retmode: 'json' });
+    try {
+      return JSON.parse(body);
+    } catch (error) {
+      throw new Error(`${utility} returned invalid JSON: ${body.slice(0, 200)}`);
+    }
+  }
+
+  // `url` is for NCBI services outside E-utilities; it defaults to <utility>.fcgi
+  private async request(utility: string, params: EutilsParams, options: { method?: 'GET' | 'POST'; url?: string } = {}): Promise<string> {
+    const method = options.method || 'GET';
+    // History-server reads depend on a session that expires, and searches should be fresh
+    const cacheable = method === 'GET' && !params.WebEnv && utility !== 'esearch';
+    const cacheFile = cacheable ? this.cacheFile(utility, params) : null;
+
+    const cached = cacheFile ? this.readCache(cacheFile) : null;
+    if (cached !== null) {
+      return cached;
+    }
+
+    const url = options.url || `${EUTILS_BASE_URL}/${utility}.fcgi`;
+    const fullParams: EutilsParams = {
+      ...params,
+      tool: this.options.tool || 'pubmed-twitter-bot',
+      email: this.options.email,
+      api_key: this.options.apiKey
+    };
+    const maxRetries = this.options.maxRetries !== undefined ? this.options.maxRetries : 3;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+
+      let response: EutilsResponse | null = null;
+      let problem = '';
+      try {
+        response = await this.transport(url, definedParams(fullParams), method);
+      } catch (error) {
+        // No response at all: connection reset, timeout, DNS...
+        problem = (error as Error).message;
+      }
+
+      if (response) {
+        // NCBI sometimes reports going over the limit in a 200 response
+        const rateLimited = response.status === 429 || /API rate limit exceeded/i.test(response.body.slice(0, 300));
+
+        if (response.status >= 200 && response.status < 300 && !rateLimited) {
+          if (cacheFile) {
+            this.writeCache(cacheFile, response.body);
+          }
+          return response.body;
+        }
+        if (!rateLimited && response.status < 500) {
+          throw new Error(`${utility} failed with HTTP ${response.status}: ${response.body.slice(0, 200)}`);
+        }
+        problem = rateLimited ? 'rate limited' : `HTTP ${response.status}`;
+      }
+
+      if (attempt >= maxRetries) {
+        throw new Error(`${utility} failed after ${attempt + 1} attempts: ${problem}`);
+      }
+
+      const delay = 1000 * Math.pow(2, attempt);
+      console.warn(`E-utilities ${utility} ${problem}, retrying in ${delay / 1000}s`);
+      await this.sleep(delay);
+    }
+  }
+
+  // Keyed by utility and parameters; the key, tool and email don't change the answer
+  private cacheFile(utility: string, params: EutilsParams): string | null {
+    if (!this.options.cacheDir || !(this.options.cacheTtlHours! > 0)) {
+      return null;
+    }
+    const key = crypto.createHash('sha1').update(`${utility}?${JSON.stringify(definedParams(params))}`).digest('hex');
+    return path.join(this.options.cacheDir, `${utility}-${key}.json`);
+  }
+
+  private readCache(file: string): string | null {
+    try {
+      if (!fs.existsSync(file)) {
+        return null;
+      }
+      const entry: { storedAt: number; body: string } = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (this.now() - entry.storedAt > this.options.cacheTtlHours! * 60 * 60 * 1000) {
+        fs.unlinkSync(file);
+        return null;
+      }
+      return entry.body;
+    } catch (error) {
+      console.warn(`Ignoring unreadable E-utilities cache entry ${file}`);
+      return null;
+    }
+  }
+
+  private writeCache(file: string, body: string): void {
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const tempPath = `${file}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ storedAt: this.now(), body }));
+      fs.renameSync(tempPath, file);
+    } catch (error) {
+      console.error('Error writing E-utilities cache:', error);
+    }
+  }
+}
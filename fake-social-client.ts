@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PostResult, SocialClient, ThreadResult, TweetMetrics, postThreadParts } from './social-client';
+import { composeThread, truncateForTweet } from './thread-composer';
+
+export interface FakePost {
+  id: string;
+  text: string;
+  inReplyTo?: string;
+  postedAt: string;
+}
+
+export interface FakeSocialClientOptions {
+  // JSONL file of mentions to replay, one per line. Each line is either a filtered-stream
+  // payload ({ data, includes }) or a shorthand { text, username?, id?, authorId? }.
+  mentionsFile?: string;
+  // JSONL file that every post and reply is appended to, for review after a run
+  outputFile?: string;
+}
+
+// In-memory stand-in for TwitterClient. Nothing leaves the machine: posts get
+// sequential fake IDs, are kept in `posts` and optionally written to a file.
+export class FakeSocialClient implements SocialClient {
+  readonly posts: FakePost[] = [];
+  private nextId: number = 1;
+  private mentionsFile?: string;
+  private outputFile?: string;
+  private mentionCallback: ((tweet: any) => Promise<void>) | null = null;
+
+  constructor(options: FakeSocialClientOptions = {}) {
+    this.mentionsFile = options.mentionsFile;
+    this.outputFile = options.outputFile;
+
+    if (this.outputFile) {
+      fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    }
+
+    console.log('Using fake social client (dry run), nothing will be posted');
+  }
+
+  async waitUntilReady(): Promise<boolean> {
+    return true;
+  }
+
+  async postTweet(text: string): Promise<string | null> {
+    return this.record(truncateForTweet(text));
+  }
+
+  async replyToTweet(tweetId: string, text: string): Promise<string | null> {
+    return this.record(truncateForTweet(text), tweetId);
+  }
+
+  async sendTweet(text: string, replyToId: string | null = null): Promise<PostResult> {
+    return { ok: true, id: this.record(truncateForTweet(text), replyToId || undefined) };
+  }
+
+  async postThread(text: string, postedIds: string[] = []): Promise<ThreadResult> {
+    return postThreadParts(this, composeThread(text), null, postedIds);
+  }
+
+  async replyWithThread(tweetId: string, text: string, prefix: string = ''): Promise<string[]> {
+    return (await postThreadParts(this, composeThread(text, { prefix }), tweetId)).tweetIds;
+  }
+
+  // Replays the mentions file (if any) through the callback, one mention at a time
+  async setupMentionListener(callback: (tweet: any) => Promise<void>): Promise<void> {
+    this.mentionCallback = callback;
+
+    if (!this.mentionsFile) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.mentionsFile, 'utf8').split('\n').filter(line => line.trim());
+    console.log(`Replaying ${lines.length} mentions from ${this.mentionsFile}`);
+
+    for (const [index, line] of lines.entries()) {
+      try {
+        await this.injectMention(JSON.parse(line));
+      } catch (error) {
+        console.error(`Error replaying mention on line ${index + 1}:`, error);
+      }
+    }
+  }
+
+  // Feed one mention to the registered listener, as if it came from the stream
+  async injectMention(mention: any): Promise<void> {
+    if (!this.mentionCallback) {
+      throw new Error('No mention listener registered');
+    }
+
+    await this.mentionCallback(this.toStreamPayload(mention));
+  }
+
+  async searchTweets(query: string, maxResults: number = 10): Promise<any[]> {
+    return [];
+  }
+
+  // Nobody sees a dry run, so every post we made has no engagement; IDs we didn't post are left out
+  async getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>> {
+    const metrics = new Map<string, TweetMetrics>();
+    for (const id of tweetIds) {
+      if (this.posts.some(post => post.id === id)) {
+        metrics.set(id, { impressions: 0, likes: 0, replies: 0, retweets: 0, quotes: 0 });
+      }
+    }
+    return metrics;
+  }
+
+  private toStreamPayload(mention: any): any {
+    if (mention.data) {
+      return mention;
+    }
+
+    const id = mention.id || `mention-${this.nextId++}`;
+    const authorId = mention.authorId || `user-${mention.username || 'anonymous'}`;
+
+    return {
+      data: {
+        id,
+        text: mention.text,
+        author_id: authorId,
+        conversation_id: mention.conversationId || id,
+        created_at: mention.createdAt || new Date().toISOString()
+      },
+      includes: {
+        users: [{ id: authorId, username: mention.username || 'user', name: mention.username || 'user' }]
+      }
+    };
+  }
+
+  private record(text: string, inReplyTo?: string): string {
+    const post: FakePost = {
+      id: `fake-${this.nextId++}`,
+      text,
+      inReplyTo,
+      postedAt: new Date().toISOString()
+    };
+
+    this.posts.push(post);
+    console.log(inReplyTo ? `[dry run] REPLY to ${inReplyTo} (${post.id}):` : `[dry run] TWEET (${post.id}):`);
+    console.log(text);
+
+    if (this.outputFile) {
+      fs.appendFileSync(this.outputFile, JSON.stringify(post) + '\n');
+    }
+
+    return post.id;
+  }
+}
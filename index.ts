@@ -1,7 +1,80 @@
-import twitterPubMedAgent from './twitter-pubmed-agent';
+import * as path from 'path';
+import { createTwitterPubMedAgent, TwitterPubMedAgent, TwitterPubMedAgentOptions } from './twitter-pubmed-agent';
+import { FakeSocialClient } from './fake-social-client';
+import { AgentConfig, ConfigError, describeConfig, loadConfig } from './config';
+import { ApiServer } from './api-server';
+import { PersonalityError } from './personality-schema';
+
+// Command line flags:
+//   --dry-run              use the local fake social client instead of the Twitter API
+//   --mentions <file>      (dry run) JSONL file of mentions to replay
+//   --output <file>        (dry run) JSONL file to record every post and reply in
+//   --config <file>        JSON config file (default ./agent.config.json if present)
+//   --help                 list every setting with its flag and environment variable
+// Any setting from config.ts can also be given as a flag, e.g. --max-daily-tweets 3.
+// --api-port <port> also serves the local HTTP/JSON API (see api-server.ts).
+const args = process.argv.slice(2);
+
+function flagValue(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+if (args.includes('--help')) {
+  console.log('Usage: ts-node index.ts [--dry-run [--mentions <file>] [--output <file>]] [--config <file>] [settings]');
+  console.log('Settings (flag, environment variable):');
+  console.log(describeConfig().join('\n'));
+  process.exit(0);
+}
+
+let config: AgentConfig;
+try {
+  config = loadConfig({ argv: args, passThroughFlags: ['--dry-run', '--mentions', '--output'] });
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  console.error(error.message);
+  process.exit(1);
+}
+
+const dryRun = args.includes('--dry-run');
+const agentOptions: TwitterPubMedAgentOptions = { config };
+
+if (dryRun) {
+  agentOptions.socialClient = new FakeSocialClient({
+    mentionsFile: flagValue('--mentions'),
+    outputFile: flagValue('--output') || path.join(process.cwd(), 'data', 'dry-run-posts.jsonl')
+  });
+  // Keep dry runs from touching the live agent's seen-articles, counters, review queue, threads,
+  // user limits, engagement numbers and safety audit log
+  agentOptions.stateFile = path.join(process.cwd(), 'data', 'dry-run-state.jsonl');
+  agentOptions.config = {
+    ...config,
+    approvalFile: path.join(process.cwd(), 'data', 'dry-run-approvals.jsonl'),
+    conversationFile: path.join(process.cwd(), 'data', 'dry-run-conversations.json'),
+    userLimitsFile: path.join(process.cwd(), 'data', 'dry-run-user-limits.json'),
+    engagementFile: path.join(process.cwd(), 'data', 'dry-run-engagement.json'),
+    safetyLogFile: path.join(process.cwd(), 'data', 'dry-run-safety-log.jsonl')
+  };
+}
+
+let twitterPubMedAgent: TwitterPubMedAgent;
+try {
+  twitterPubMedAgent = createTwitterPubMedAgent(agentOptions);
+} catch (error) {
+  if (!(error instanceof PersonalityError)) {
+    throw error;
+  }
+  console.error(error.message);
+  process.exit(1);
+}
+const apiServer = config.apiPort > 0
+  ? new ApiServer(twitterPubMedAgent, { port: config.apiPort, host: config.apiHost, token: config.apiToken })
+  : null;
 
 // Start the Twitter-enabled PubMed agent
-console.log('Starting Twitter PubMed AI Agent...');
+console.log(`Starting Twitter PubMed AI Agent${dryRun ? ' (dry run)' : ''}...`);
 
 twitterPubMedAgent.start().then((success) => {
   if (success) {
@@ -10,6 +83,10 @@ twitterPubMedAgent.start().then((success) => {
     console.log('1. Automatically find and tweet about high-quality medical research');
     console.log('2. Respond to Twitter mentions and commands like /search and /summarize');
     console.log('3. Answer questions about medical topics');
+
+    if (apiServer) {
+      apiServer.start().catch(error => console.error('Error starting the API server:', error));
+    }
   } else {
     console.error('Failed to start Twitter PubMed AI Agent.');
     console.error('Please check your API keys and internet connection.');
@@ -23,4 +100,4 @@ process.on('SIGINT', () => {
   console.log('Shutting down Twitter PubMed AI Agent...');
   // Any cleanup code would go here
   process.exit(0);
-});
\ No newline at end of file
+});
@@ -0,0 +1,211 @@
+import { XmlElement, XmlNode, parseXml, findAll, findFirst, findDescendants, childElements, textContent, textAt, isElement } from './xml-parser';
+
+// Pieces of a PubMed Central full-text article (JATS XML, as served by EFetch db=pmc)
+
+export interface FullTextSection {
+  title: string;
+  type: string;        // sec-type attribute when present (e.g. "results"), otherwise derived from the title
+  depth: number;       // 1 for top-level sections of the body
+  text: string;        // the section's own paragraphs, without nested subsections
+}
+
+export interface FigureCaption {
+  id?: string;
+  label: string;
+  caption: string;
+}
+
+export interface TableData {
+  id?: string;
+  label: string;
+  caption: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ArticleReference {
+  id?: string;
+  label?: string;
+  citation: string;
+  pmid?: string;
+  doi?: string;
+}
+
+export interface JatsArticle {
+  pmcid?: string;
+  title: string;
+  sections: FullTextSection[];
+  figures: FigureCaption[];
+  tables: TableData[];
+  references: ArticleReference[];
+}
+
+// Elements whose text belongs to figures/tables rather than the running prose
+const NON_PROSE_ELEMENTS = ['fig', 'table-wrap', 'disp-formula', 'supplementary-material'];
+
+// Parse a JATS document (a bare <article> or a <pmc-articleset> wrapper).
+// Returns null when there is no body, which is what PMC serves for articles
+// whose publisher does not allow full-text XML download.
+export function parseJatsArticle(xml: string): JatsArticle | null {
+  const document = parseXml(xml);
+  const article = findFirst(document, 'pmc-articleset/article') || findFirst(document, 'article');
+
+  if (!article) {
+    return null;
+  }
+
+  const body = findFirst(article, 'body');
+  if (!body) {
+    return null;
+  }
+
+  const pmcidElement = findAll(article, 'front/article-meta/article-id')
+    .find(id => id.attributes['pub-id-type'] === 'pmc' || id.attributes['pub-id-type'] === 'pmcid');
+  const pmcid = pmcidElement ? textContent(pmcidElement) : undefined;
+
+  return {
+    pmcid: pmcid ? (pmcid.startsWith('PMC') ? pmcid : `PMC${pmcid}`) : undefined,
+    title: textAt(article, 'front/article-meta/title-group/article-title'),
+    sections: parseSections(body),
+    figures: findDescendants(article, 'fig').map(parseFigure),
+    tables: findDescendants(article, 'table-wrap').map(parseTable),
+    references: findAll(article, 'back/ref-list/ref').map(parseReference)
+  };
+}
+
+function parseSections(body: XmlElement): FullTextSection[] {
+  const sections: FullTextSection[] = [];
+
+  // Some articles put paragraphs straight into <body> without any <sec>
+  const looseText = paragraphText(body);
+  if (looseText) {
+    sections.push({ title: '', type: 'body', depth: 0, text: looseText });
+  }
+
+  const visit = (sec: XmlElement, depth: number) => {
+    const title = textAt(sec, 'title');
+    sections.push({
+      title,
+      type: (sec.attributes['sec-type'] || classifySectionTitle(title)).toLowerCase(),
+      depth,
+      text: paragraphText(sec)
+    });
+
+    for (const child of childElements(sec, 'sec')) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const sec of childElements(body, 'sec')) {
+    visit(sec, 1);
+  }
+
+  return sections;
+}
+
+// Map common section headings onto the usual IMRaD section types
+function classifySectionTitle(title: string): string {
+  const normalized = title.toLowerCase();
+  const patterns: [RegExp, string][] = [
+    [/limitation/, 'limitations'],
+    [/introduction|background/, 'intro'],
+    [/method|materials|patients and|study design/, 'methods'],
+    [/result|finding/, 'results'],
+    [/discussion/, 'discussion'],
+    [/conclusion/, 'conclusions']
+  ];
+
+  for (const [pattern, type] of patterns) {
+    if (pattern.test(normalized)) {
+      return type;
+    }
+  }
+
+  return 'other';
+}
+
+function paragraphText(container: XmlElement): string {
+  return childElements(container, 'p')
+    .map(p => proseText(p))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function proseText(node: XmlNode): string {
+  const collect = (current: XmlNode): string => {
+    if (!isElement(current)) {
+      return current;
+    }
+    if (NON_PROSE_ELEMENTS.includes(current.name)) {
+      return ' ';
+    }
+    return current.children.map(collect).join('');
+  };
+
+  return collect(node).replace(/\s+/g, ' ').trim();
+}
+
+function parseFigure(fig: XmlElement): FigureCaption {
+  return {
+    id: fig.attributes.id,
+    label: textAt(fig, 'label'),
+    caption: textContent(findFirst(fig, 'caption'))
+  };
+}
+
+function parseTable(wrap: XmlElement): TableData {
+  const table = findFirst(wrap, 'table') || findDescendants(wrap, 'table')[0];
+  const rowCells = (row: XmlElement) =>
+    childElements(row).filter(cell => cell.name === 'td' || cell.name === 'th').map(textContent);
+
+  const headerRows = table ? findAll(table, 'thead/tr') : [];
+  const bodyRows = table
+    ? findDescendants(table, 'tr').filter(row => !headerRows.includes(row))
+    : [];
+
+  return {
+    id: wrap.attributes.id,
+    label: textAt(wrap, 'label'),
+    caption: textContent(findFirst(wrap, 'caption')),
+    headers: headerRows.length > 0 ? rowCells(headerRows[headerRows.length - 1]) : [],
+    rows: bodyRows.map(rowCells)
+  };
+}
+
+// mixed-citation carries its own punctuation; element-citation is bare fields that need spacing
+function citationText(citation: XmlElement | undefined): string {
+  if (!citation || citation.name === 'mixed-citation') {
+    return textContent(citation);
+  }
+
+  const leaves: string[] = [];
+  const collect = (node: XmlNode) => {
+    if (isElement(node)) {
+      node.children.forEach(collect);
+    } else if (node.trim()) {
+      leaves.push(node.trim());
+    }
+  };
+  collect(citation);
+
+  return leaves.join(' ');
+}
+
+function parseReference(ref: XmlElement): ArticleReference {
+  const citation = childElements(ref).find(child =>
+    child.name === 'element-citation' || child.name === 'mixed-citation' || child.name === 'citation'
+  );
+  const pubIds = citation ? findAll(citation, 'pub-id') : [];
+  const pubIdOfType = (type: string) => {
+    const match = pubIds.find(id => id.attributes['pub-id-type'] === type);
+    return match ? textContent(match) : undefined;
+  };
+
+  return {
+    id: ref.attributes.id,
+    label: textAt(ref, 'label') || undefined,
+    citation: citationText(citation),
+    pmid: pubIdOfType('pmid'),
+    doi: pubIdOfType('doi')
+  };
+}
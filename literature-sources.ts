@@ -0,0 +1,368 @@
+import axios from 'axios';
+import { EutilsClient } from './eutils-client';
+import { PubMedArticle } from './pubmed-agent';
+import { SearchFilters, buildPubMedTerm, pubmedSortParam } from './pubmed-query';
+
+export type LiteratureSourceName = 'pubmed' | 'europepmc' | 'biorxiv' | 'medrxiv' | 'clinicaltrials';
+
+// The source answered and has no such record, as opposed to not answering at all
+export class ArticleNotFoundError extends Error {
+  readonly id: string;
+
+  constructor(id: string, message: string = 'Article not found') {
+    super(message);
+    this.name = 'ArticleNotFoundError';
+    this.id = id;
+  }
+}
+
+// A searchable literature database. Every adapter maps its records into the
+// PubMedArticle shape so the rest of the agent doesn't care where a paper came from.
+export interface LiteratureSource {
+  readonly name: LiteratureSourceName;
+  readonly displayName: string;
+  // Only items published within the last `days` days (default RECENT_DAYS). Filters
+  // (article type, journal, date range...) are only understood by PubMed.
+  search(query: string, limit: number, days?: number, filters?: SearchFilters): Promise<PubMedArticle[]>;
+  fetchById(id: string): Promise<PubMedArticle>;
+  // Whether an identifier looks like one of this source's IDs
+  ownsId(id: string): boolean;
+}
+
+// How many days back "recent" searches look unless told otherwise
+export const RECENT_DAYS = 30;
+
+function isoDateDaysAgo(days: number): string {
+  const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+}
+
+// NCBI PubMed via E-utilities (esearch + esummary)
+export class PubMedSource implements LiteratureSource {
+  readonly name = 'pubmed' as const;
+  readonly displayName = 'PubMed';
+  private eutils: EutilsClient;
+
+  constructor(eutils: EutilsClient) {
+    this.eutils = eutils;
+  }
+
+  ownsId(id: string): boolean {
+    return /^\d+$/.test(id);
+  }
+
+  async search(query: string, limit: number, days: number = RECENT_DAYS, filters: SearchFilters = {}): Promise<PubMedArticle[]> {
+    // The matches stay on the history server, so the summaries don't need the IDs sent back
+    const search = await this.eutils.esearch('pubmed', buildPubMedTerm(query, filters, days), {
+      retmax: limit * 2, // Fetch more than needed in case some don't have abstracts
+      sort: pubmedSortParam(filters),
+      useHistory: true
+    });
+
+    if (search.ids.length === 0) {
+      return [];
+    }
+
+    // Fetch details for each article
+    const results = await this.eutils.esummary('pubmed', search.history || search.ids, { retstart: 0, retmax: limit * 2 });
+    const ids: string[] = results.uids || search.ids;
+    const articles: PubMedArticle[] = [];
+
+    for (const id of ids) {
+      const articleData = results[id];
+
+      if (articleData && articleData.title && !articleData.title.includes('[Retracted]')) {
+        articles.push(this.mapSummary(id, articleData));
+
+        // Stop once we have enough articles
+        if (articles.length >= limit) {
+          break;
+        }
+      }
+    }
+
+    return articles;
+  }
+
+  async fetchById(pmid: string): Promise<PubMedArticle> {
+    const results = await this.eutils.esummary('pubmed', [pmid]);
+    const articleData = results[pmid];
+
+    if (!articleData || !articleData.title) {
+      throw new ArticleNotFoundError(pmid);
+    }
+
+    return {
+      ...this.mapSummary(pmid, articleData),
+      fullTextUrl: `https://www.ncbi.nlm.nih.gov/pmc/articles/pmid/${pmid}/`
+    };
+  }
+
+  private mapSummary(id: string, articleData: any): PubMedArticle {
+    const authors = articleData.authors ?
+      articleData.authors.map((author: any) => `${author.name}`) : [];
+
+    return {
+      id,
+      source: this.name,
+      title: articleData.title,
+      abstract: articleData.abstract || "Abstract not available",
+      authors: authors,
+      publicationDate: articleData.pubdate || "Date not available",
+      journal: articleData.fulljournalname || articleData.source || "Journal not specified",
+      doi: articleData.elocationid || undefined
+    };
+  }
+}
+
+// Europe PMC REST API, which also indexes preprints (source "PPR") and PMC-only content
+export class EuropePmcSource implements LiteratureSource {
+  readonly name = 'europepmc' as const;
+  readonly displayName = 'Europe PMC';
+  private baseUrl = 'https://www.ebi.ac.uk/europepmc/webservices/rest';
+
+  ownsId(id: string): boolean {
+    return /^(PPR|PMC)\d+$/i.test(id);
+  }
+
+  async search(query: string, limit: number, days: number = RECENT_DAYS): Promise<PubMedArticle[]> {
+    const response = await axios.get(`${this.baseUrl}/search`, {
+      params: {
+        query: `(${query}) AND FIRST_PDATE:[${isoDateDaysAgo(days)} TO ${isoDateDaysAgo(0)}]`,
+        format: 'json',
+        resultType: 'core',
+        pageSize: limit,
+        sort: 'FIRST_PDATE desc'
+      }
+    });
+
+    const results: any[] = (response.data.resultList && response.data.resultList.result) || [];
+
+    return results
+      .filter(result => result.title && !/retract/i.test(result.title))
+      .slice(0, limit)
+      .map(result => this.mapResult(result));
+  }
+
+  async fetchById(id: string): Promise<PubMedArticle> {
+    const query = /^PPR/i.test(id) ? `EXT_ID:${id} AND SRC:PPR`
+      : /^PMC/i.test(id) ? `PMCID:${id}`
+      : `EXT_ID:${id}`;
+
+    const response = await axios.get(`${this.baseUrl}/search`, {
+      params: { query, format: 'json', resultType: 'core', pageSize: 1 }
+    });
+
+    const result = response.data.resultList && response.data.resultList.result[0];
+
+    if (!result || !result.title) {
+      throw new ArticleNotFoundError(id);
+    }
+
+    return this.mapResult(result);
+  }
+
+  private mapResult(result: any): PubMedArticle {
+    const authors = result.authorList && result.authorList.author
+      ? result.authorList.author.map((author: any) => author.fullName || author.collectiveName).filter(Boolean)
+      : (result.authorString ? result.authorString.replace(/\.$/, '').split(/,\s*/) : []);
+    const isPreprint = result.source === 'PPR';
+    const journalTitle = result.journalInfo && result.journalInfo.journal && result.journalInfo.journal.title;
+    const bookOrPublisher = result.bookOrReportDetails && result.bookOrReportDetails.publisher;
+
+    return {
+      // Prefer the PMID so Europe PMC hits dedupe against PubMed hits
+      id: result.pmid || result.pmcid || result.id,
+      source: this.name,
+      title: result.title,
+      abstract: result.abstractText ? result.abstractText.replace(/<[^>]+>/g, '') : "Abstract not available",
+      authors,
+      publicationDate: result.firstPublicationDate || "Date not available",
+      journal: journalTitle || bookOrPublisher || (isPreprint ? 'Preprint server' : "Journal not specified"),
+      doi: result.doi || undefined,
+      fullTextUrl: result.pmcid ? `https://europepmc.org/article/PMC/${result.pmcid}` : undefined,
+      isPreprint
+    };
+  }
+}
+
+// bioRxiv and medRxiv share one API. It has no keyword search, so we pull the
+// most recent postings and match the query against titles and abstracts ourselves.
+type RxivServer = 'biorxiv' | 'medrxiv';
+
+const RXIV_DISPLAY_NAMES: {[server in RxivServer]: string} = { biorxiv: 'bioRxiv', medrxiv: 'medRxiv' };
+
+export class RxivSource implements LiteratureSource {
+  readonly name: RxivServer;
+  readonly displayName: string;
+  private maxPages = 3;
+
+  constructor(server: RxivServer) {
+    this.name = server;
+    this.displayName = RXIV_DISPLAY_NAMES[server];
+  }
+
+  ownsId(id: string): boolean {
+    return /^10\.1101\//.test(id);
+  }
+
+  async search(query: string, limit: number, days: number = RECENT_DAYS): Promise<PubMedArticle[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+    const articles: PubMedArticle[] = [];
+
+    for (let page = 0; page < this.maxPages && articles.length < limit; page++) {
+      const response = await axios.get(
+        `https://api.biorxiv.org/details/${this.name}/${days}d/${page * 100}`
+      );
+      const collection: any[] = response.data.collection || [];
+
+      for (const record of collection) {
+        const text = `${record.title} ${record.abstract}`.toLowerCase();
+        if (terms.length > 0 && terms.every(term => text.includes(term))) {
+          articles.push(this.mapRecord(record, this.name));
+          if (articles.length >= limit) {
+            break;
+          }
+        }
+      }
+
+      // The API pages by 100; a short page means there is nothing left
+      if (collection.length < 100) {
+        break;
+      }
+    }
+
+    return articles;
+  }
+
+  // bioRxiv and medRxiv DOIs share the 10.1101/ prefix and both sources claim them, so
+  // a DOI that isn't on this server is looked up on the other one
+  async fetchById(doi: string): Promise<PubMedArticle> {
+    const other: RxivServer = this.name === 'biorxiv' ? 'medrxiv' : 'biorxiv';
+
+    for (const server of [this.name, other]) {
+      const response = await axios.get(`https://api.biorxiv.org/details/${server}/${doi}`);
+      const collection: any[] = response.data.collection || [];
+
+      // Several versions may be returned; the last one is the latest
+      const record = collection[collection.length - 1];
+      if (record && record.title) {
+        return this.mapRecord(record, server);
+      }
+    }
+
+    throw new ArticleNotFoundError(doi);
+  }
+
+  private mapRecord(record: any, server: RxivServer): PubMedArticle {
+    return {
+      id: record.doi,
+      source: server,
+      title: record.title,
+      abstract: record.abstract || "Abstract not available",
+      authors: record.authors ? record.authors.split(/;\s*/).filter(Boolean) : [],
+      publicationDate: record.date || "Date not available",
+      journal: `${RXIV_DISPLAY_NAMES[server]} (preprint)`,
+      doi: record.doi,
+      fullTextUrl: `https://www.${server}.org/content/${record.doi}v${record.version || 1}`,
+      isPreprint: true
+    };
+  }
+}
+
+// ClinicalTrials.gov API v2, limited to studies that have posted results
+export class ClinicalTrialsSource implements LiteratureSource {
+  readonly name = 'clinicaltrials' as const;
+  readonly displayName = 'ClinicalTrials.gov';
+  private baseUrl = 'https://clinicaltrials.gov/api/v2/studies';
+
+  ownsId(id: string): boolean {
+    return /^NCT\d{8}$/i.test(id);
+  }
+
+  async search(query: string, limit: number, days: number = RECENT_DAYS): Promise<PubMedArticle[]> {
+    const response = await axios.get(this.baseUrl, {
+      params: {
+        'query.term': query,
+        'aggFilters': 'results:with',
+        'filter.advanced': `AREA[ResultsFirstPostDate]RANGE[${isoDateDaysAgo(days)},MAX]`,
+        'sort': 'ResultsFirstPostDate:desc',
+        'pageSize': limit,
+        'format': 'json'
+      }
+    });
+
+    const studies: any[] = response.data.studies || [];
+    return studies.map(study => this.mapStudy(study));
+  }
+
+  async fetchById(nctId: string): Promise<PubMedArticle> {
+    // The API answers 404 for an NCT number it doesn't have
+    const response = await axios.get(`${this.baseUrl}/${nctId.toUpperCase()}`, {
+      params: { format: 'json' },
+      validateStatus: status => (status >= 200 && status < 300) || status === 404
+    });
+
+    if (response.status === 404 || !response.data || !response.data.protocolSection) {
+      throw new ArticleNotFoundError(nctId, "Study not found");
+    }
+
+    return this.mapStudy(response.data);
+  }
+
+  private mapStudy(study: any): PubMedArticle {
+    const protocol = study.protocolSection || {};
+    const identification = protocol.identificationModule || {};
+    const description = protocol.descriptionModule || {};
+    const status = protocol.statusModule || {};
+    const officials = (protocol.contactsLocationsModule && protocol.contactsLocationsModule.overallOfficials) || [];
+    const sponsor = protocol.sponsorCollaboratorsModule && protocol.sponsorCollaboratorsModule.leadSponsor;
+    const resultsDate = status.resultsFirstPostDateStruct || status.lastUpdatePostDateStruct;
+
+    return {
+      id: identification.nctId,
+      source: this.name,
+      title: identification.officialTitle || identification.briefTitle,
+      abstract: description.briefSummary || "Abstract not available",
+      authors: officials.length > 0
+        ? officials.map((official: any) => official.name).filter(Boolean)
+        : (sponsor && sponsor.name ? [sponsor.name] : []),
+      publicationDate: (resultsDate && resultsDate.date) || "Date not available",
+      journal: 'ClinicalTrials.gov',
+      fullTextUrl: `https://clinicaltrials.gov/study/${identification.nctId}`
+    };
+  }
+}
+
+// Accepted spellings for the `source:` search qualifier
+export const SOURCE_ALIASES: {[alias: string]: LiteratureSourceName} = {
+  pubmed: 'pubmed',
+  europepmc: 'europepmc',
+  epmc: 'europepmc',
+  biorxiv: 'biorxiv',
+  medrxiv: 'medrxiv',
+  preprint: 'medrxiv',
+  preprints: 'medrxiv',
+  clinicaltrials: 'clinicaltrials',
+  ctgov: 'clinicaltrials',
+  trials: 'clinicaltrials'
+};
+
+// The source a user-typed name refers to; only the aliases above count, not names such as
+// "constructor" that every object has
+export function sourceForAlias(alias: string): LiteratureSourceName | undefined {
+  const key = alias.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(SOURCE_ALIASES, key) ? SOURCE_ALIASES[key] : undefined;
+}
+
+export function createLiteratureSources(eutils: EutilsClient): Map<LiteratureSourceName, LiteratureSource> {
+  const sources: LiteratureSource[] = [
+    new PubMedSource(eutils),
+    new EuropePmcSource(),
+    new RxivSource('biorxiv'),
+    new RxivSource('medrxiv'),
+    new ClinicalTrialsSource()
+  ];
+
+  return new Map(sources.map(source => [source.name, source] as [LiteratureSourceName, LiteratureSource]));
+}
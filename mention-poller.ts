@@ -0,0 +1,173 @@
+// Mention ingestion by polling the account's mention timeline. A since_id checkpoint
+// is saved after every mention handled, so after a restart or an outage we pick up
+// exactly where we left off (paging through everything missed), and nothing is
+// answered twice. Our own tweets and retweets are never passed on.
+
+export interface MentionPage {
+  tweets: any[];
+  users: any[];
+  nextToken?: string;
+}
+
+export interface MentionPageRequest {
+  sinceId?: string;
+  startTime?: string;        // ISO time; only used when there's no checkpoint yet
+  paginationToken?: string;
+}
+
+// Where the newest handled mention ID is kept between runs
+export interface MentionCheckpointStore {
+  getMentionSinceId(): string | undefined;
+  saveMentionSinceId(id: string): void;
+}
+
+export interface MentionPollerOptions {
+  fetchPage: (request: MentionPageRequest) => Promise<MentionPage>;
+  ownUserId: string;
+  checkpoint?: MentionCheckpointStore;
+  intervalMs?: number;
+  // Without a checkpoint (first run), how far back to answer mentions
+  backfillMinutes?: number;
+  // Upper bound on pages fetched per poll; the mention timeline holds at most 800 tweets
+  maxPages?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// Snowflake IDs are too big for a number; compare them as digit strings
+export function compareTweetIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Mentions we must not answer: anything we posted ourselves, and plain retweets
+export function isIgnorableMention(tweet: any, ownUserId: string): boolean {
+  if (!tweet || !tweet.id) {
+    return true;
+  }
+  if (tweet.author_id && tweet.author_id === ownUserId) {
+    return true;
+  }
+  const references: any[] = tweet.referenced_tweets || [];
+  return references.some(reference => reference.type === 'retweeted') || /^RT @\w+:/.test(tweet.text || '');
+}
+
+export class MentionPoller {
+  private options: MentionPollerOptions;
+  private sinceId?: string;
+  // Only used until the first mention sets a checkpoint
+  private startTime: string;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private failures: number = 0;
+  private callback: ((tweet: any) => Promise<void>) | null = null;
+
+  constructor(options: MentionPollerOptions) {
+    this.options = options;
+    this.sinceId = options.checkpoint ? options.checkpoint.getMentionSinceId() : undefined;
+    this.startTime = new Date(Date.now() - (options.backfillMinutes || 0) * 60 * 1000).toISOString();
+  }
+
+  start(callback: (tweet: any) => Promise<void>): void {
+    this.callback = callback;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Fetch everything newer than the checkpoint and hand it over oldest first. Returns
+  // how many mentions were passed to the callback.
+  async pollOnce(callback: ((tweet: any) => Promise<void>) | null = this.callback): Promise<number> {
+    const tweets: any[] = [];
+    const users: any[] = [];
+    const maxPages = this.options.maxPages || 8;
+    const request: MentionPageRequest = this.sinceId ? { sinceId: this.sinceId } : { startTime: this.startTime };
+
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.options.fetchPage(request);
+      tweets.push(...result.tweets);
+      users.push(...result.users);
+
+      if (!result.nextToken) {
+        break;
+      }
+      if (page === maxPages - 1) {
+        console.warn(`More than ${maxPages} pages of mentions since the last poll; the oldest are skipped`);
+      }
+      request.paginationToken = result.nextToken;
+    }
+
+    tweets.sort((a, b) => compareTweetIds(a.id, b.id));
+    let handled = 0;
+
+    for (const tweet of tweets) {
+      if (this.hasHandled(tweet.id)) {
+        continue;
+      }
+
+      if (!isIgnorableMention(tweet, this.options.ownUserId) && callback) {
+        try {
+          await callback({ data: tweet, includes: { users } });
+          handled++;
+        } catch (error) {
+          // One bad mention mustn't hold up the rest; it counts as handled
+          console.error(`Error handling mention ${tweet.id}:`, error);
+        }
+      }
+
+      this.advance(tweet.id);
+    }
+
+    return handled;
+  }
+
+  hasHandled(tweetId: string): boolean {
+    return !!this.sinceId && compareTweetIds(tweetId, this.sinceId) <= 0;
+  }
+
+  // Move the checkpoint forward, e.g. for a mention that arrived through the stream
+  advance(tweetId: string): void {
+    if (this.hasHandled(tweetId)) {
+      return;
+    }
+    this.sinceId = tweetId;
+    if (this.options.checkpoint) {
+      this.options.checkpoint.saveMentionSinceId(tweetId);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      const interval = this.options.intervalMs || DEFAULT_INTERVAL_MS;
+
+      try {
+        const handled = await this.pollOnce();
+        if (this.failures > 0) {
+          console.log(`Mention polling recovered after ${this.failures} failed attempts`);
+        }
+        this.failures = 0;
+        if (handled > 0) {
+          console.log(`Handled ${handled} new mentions`);
+        }
+        this.schedule(interval);
+      } catch (error) {
+        // Network trouble or an API outage: back off, then resume from the checkpoint
+        this.failures++;
+        const backoff = Math.min(interval * Math.pow(2, this.failures), MAX_BACKOFF_MS);
+        console.error(`Error polling mentions (attempt ${this.failures}), retrying in ${Math.round(backoff / 1000)}s:`, (error as Error).message);
+        this.schedule(backoff);
+      }
+    }, delayMs);
+  }
+}
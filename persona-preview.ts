@@ -0,0 +1,99 @@
+import { loadConfig } from './config';
+import { createSeededRandom } from './random';
+import { PERSONA_CHANNELS, PersonaSet, PersonalityManager, parsePersonaRules } from './personality-system';
+
+// Check the configured personas and print sample output in each voice:
+//   npm run personas                       every persona from personalityFile and personaFiles
+//   npm run personas -- <file> [<file>...] just these personality files
+//   npm run personas -- --persona <id>     one persona
+//   npm run personas -- --seed <n>         the same text every time
+// Then shows which persona personaRules would pick on each channel right now. Exits
+// with status 1, listing every problem, if a file or rule is invalid. Settings flags
+// such as --persona-rules or --config work as they do for the agent.
+const PREVIEW_FLAGS = ['--persona', '--seed'];
+const args = process.argv.slice(2);
+
+function flagValue(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Words that aren't flags or flag values: personality files to preview
+function positionalArgs(): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      if (!args[i].includes('=')) {
+        i++;
+      }
+      continue;
+    }
+    positional.push(args[i]);
+  }
+  return positional;
+}
+
+// A made-up article, so the preview needs no network
+const SAMPLE = {
+  articleTitle: 'Intensive blood pressure lowering and cognitive decline in older adults: a randomized trial',
+  journal: 'Lancet Neurology',
+  simplifiedPoint: 'Lowering systolic pressure below 120 mmHg cut new cases of mild cognitive impairment by 15% over 4 years.',
+  limitationNote: '\n\nFine print: Participants were mostly white and the trial stopped early.',
+  hashtags: '#Neuroscience #BrainResearch'
+};
+
+function preview(persona: PersonalityManager, isDefault: boolean): void {
+  console.log(`=== ${persona.getId()}${isDefault ? ' (default)' : ''}: ${persona.getName()}, ${persona.getTone()}`);
+  console.log(persona.getBio());
+  console.log('\n--- Article post');
+  console.log(persona.customizeArticleSummary(persona.formatResponse('summaryFormat', SAMPLE, { topic: 'neuroscience', threaded: true }), 'neuroscience'));
+  console.log('\n--- Greeting');
+  console.log(persona.generateGreeting('science_fan'));
+  console.log('\n--- Topic question');
+  console.log(persona.generateTopicResponse('neuroscience', 'Let me find the latest research on this for you...'));
+  console.log('\n--- Other question');
+  console.log(persona.formatResponse('questionResponse', {
+    topic: 'medical research',
+    answer: 'Which medical topic are you interested in?'
+  }));
+  console.log('');
+}
+
+function main(): void {
+  const config = loadConfig({ argv: args, passThroughFlags: PREVIEW_FLAGS });
+  const files = positionalArgs();
+  const personas = new PersonaSet({
+    files: files.length > 0 ? files : [config.personalityFile, ...config.personaFiles],
+    // Rules name personas from the config, so they only apply to the configured set
+    rules: files.length > 0 ? [] : parsePersonaRules(config.personaRules),
+    quirkProbability: config.quirkProbability,
+    random: flagValue('--seed') !== undefined ? createSeededRandom(Number(flagValue('--seed'))) : undefined,
+    timeZone: config.timeZone
+  });
+
+  const only = flagValue('--persona');
+  const selected = only ? personas.get(only) : undefined;
+  if (only && !selected) {
+    console.error(`No persona "${only}" (loaded: ${personas.list().map(persona => persona.getId()).join(', ')})`);
+    process.exit(1);
+  }
+
+  for (const persona of selected ? [selected] : personas.list()) {
+    preview(persona, persona === personas.getDefault());
+  }
+
+  if (files.length === 0) {
+    console.log(`Persona rules: ${config.personaRules || '(none, the default persona always speaks)'}`);
+    for (const channel of PERSONA_CHANNELS) {
+      console.log(`  ${channel.padEnd(8)} ${personas.select({ channel }).getId()}`);
+    }
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  // Config problems and invalid personality files end up here
+  console.error((error as Error).message);
+  process.exit(1);
+}
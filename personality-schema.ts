@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QUIRK_ACTION_TYPES, QuirkDefinition } from './quirk-engine';
+import { TemplateError, parseTemplate, templateVariables } from './response-template';
+
+// The personality file format, checked in full when a persona is loaded so that a
+// missing emoji set or an empty phrase list is reported at startup (with every other
+// problem in the file) instead of surfacing mid-reply. Files carry a format version;
+// ones written before versioning are read as version 1.
+//   version 1: persona.quirks is a list of descriptions, which do nothing
+//   version 2: persona.quirks is a list of quirk definitions (see quirk-engine.ts)
+//   version 3: responsePatterns may use conditionals and filters (see response-template.ts)
+
+export const PERSONALITY_FORMAT_VERSION = 3;
+
+export interface BotPersonality {
+  version: number;
+  // Name personas are chosen by in personaRules; defaults to the file name
+  id: string;
+  name: string;
+  bio: string;
+  persona: {
+    background: string;
+    tone: string;
+    quirks: QuirkDefinition[];
+  };
+  vocabulary: {
+    positiveReactions: string[];
+    transitionPhrases: string[];
+    introStarters: string[];
+    closingRemarks: string[];
+    greetings: string[];
+  };
+  topicEnthusiasm: {
+    [key: string]: number;
+  };
+  emojiSets: {
+    [key: string]: string[];
+  };
+  responsePatterns: {
+    [key: string]: string;
+  };
+}
+
+const TOP_LEVEL_KEYS = ['version', 'id', 'name', 'bio', 'persona', 'vocabulary', 'topicEnthusiasm', 'emojiSets', 'responsePatterns'];
+const VOCABULARY_KEYS: (keyof BotPersonality['vocabulary'])[] = ['positiveReactions', 'transitionPhrases', 'introStarters', 'closingRemarks', 'greetings'];
+
+// Filled in from the vocabulary for every pattern
+const VOCABULARY_VARIABLES = ['introStarter', 'positiveReaction', 'closingRemark', 'transitionPhrase', 'emoji'];
+
+// Patterns the agent formats: the variables its calls provide, and the ones a pattern
+// can't do without. Optional patterns may be left out.
+const RESPONSE_PATTERNS: {[pattern: string]: { variables: string[]; required: string[]; optional?: boolean }} = {
+  summaryFormat: { variables: ['articleTitle', 'journal', 'simplifiedPoint', 'limitationNote', 'hashtags'], required: ['articleTitle', 'simplifiedPoint', 'limitationNote'] },
+  questionResponse: { variables: ['topic', 'answer'], required: [] },
+  topicIntroduction: { variables: ['topic', 'enthusiasm', 'relatedFacts'], required: ['topic'] },
+  articleDiscovery: { variables: ['articleTitle', 'journal'], required: [], optional: true }
+};
+
+// Thrown when a personality file can't be used; lists every problem at once
+export class PersonalityError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid personality:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'PersonalityError';
+    this.problems = problems;
+  }
+}
+
+export function loadPersonalityFile(filePath: string): BotPersonality {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new PersonalityError([`${filePath}: could not read personality file (${(error as Error).message})`]);
+  }
+  return validatePersonality(data, filePath);
+}
+
+// Check parsed JSON against the format; `source` (usually the file path) prefixes
+// each problem and supplies the default id
+export function validatePersonality(data: unknown, source: string): BotPersonality {
+  const problems: string[] = [];
+  const problem = (where: string, message: string) => problems.push(`${source}: ${where} ${message}`);
+
+  if (!isObject(data)) {
+    throw new PersonalityError([`${source}: expected a JSON object`]);
+  }
+
+  Object.keys(data).filter(key => !TOP_LEVEL_KEYS.includes(key)).forEach(key => problem(`"${key}"`, 'is not a personality setting'));
+
+  let version = data.version;
+  if (version === undefined) {
+    console.warn(`${source} has no "version"; reading it as personality format version 1`);
+    version = 1;
+  } else if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    problem('version', `must be a whole number, got ${JSON.stringify(version)}`);
+  } else if (version > PERSONALITY_FORMAT_VERSION) {
+    problem('version', `is ${version}, but this agent reads personality files up to version ${PERSONALITY_FORMAT_VERSION}`);
+  }
+
+  const id = data.id !== undefined ? data.id : path.basename(source, '.json').toLowerCase();
+  if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    problem('id', `must be lower-case letters, digits and dashes, got ${JSON.stringify(id)}`);
+  }
+
+  expectText(data.name, 'name', problem);
+  expectText(data.bio, 'bio', problem);
+
+  let quirks: QuirkDefinition[] = [];
+  if (expectObject(data.persona, 'persona', problem)) {
+    expectText(data.persona.background, 'persona.background', problem);
+    expectText(data.persona.tone, 'persona.tone', problem);
+
+    if (version === 1) {
+      // Plain descriptions never did anything on their own; say so instead of guessing
+      expectPhrases(data.persona.quirks, 'persona.quirks', problem);
+      if (Array.isArray(data.persona.quirks) && data.persona.quirks.length > 0) {
+        console.warn(`${source}: quirks in version 1 files are descriptions only and are ignored; define them as quirk objects (version ${PERSONALITY_FORMAT_VERSION})`);
+      }
+    } else if (!Array.isArray(data.persona.quirks)) {
+      problem('persona.quirks', 'must be a list of quirk definitions');
+    } else {
+      quirks = data.persona.quirks;
+      const ids = new Set<string>();
+      quirks.forEach((quirk, index) => {
+        const where = `persona.quirks[${index}]`;
+        if (isObject(quirk) && typeof quirk.id === 'string') {
+          if (ids.has(quirk.id)) {
+            problem(`${where}.id`, `"${quirk.id}" is used by another quirk`);
+          }
+          ids.add(quirk.id);
+        }
+        validateQuirk(quirk, where, isObject(data.emojiSets) ? data.emojiSets : {}, problem);
+      });
+    }
+  }
+
+  if (expectObject(data.vocabulary, 'vocabulary', problem)) {
+    const vocabulary = data.vocabulary;
+    VOCABULARY_KEYS.forEach(key => expectPhrases(vocabulary[key], `vocabulary.${key}`, problem));
+    Object.keys(vocabulary).filter(key => !VOCABULARY_KEYS.includes(key as keyof BotPersonality['vocabulary']))
+      .forEach(key => problem(`vocabulary.${key}`, `is not a phrase list (expected ${VOCABULARY_KEYS.join(', ')})`));
+  }
+
+  if (expectObject(data.topicEnthusiasm, 'topicEnthusiasm', problem)) {
+    for (const [topic, level] of Object.entries(data.topicEnthusiasm)) {
+      if (typeof level !== 'number' || level < 0 || level > 10) {
+        problem(`topicEnthusiasm.${topic}`, `must be a number from 0 to 10, got ${JSON.stringify(level)}`);
+      }
+    }
+  }
+
+  if (expectObject(data.emojiSets, 'emojiSets', problem)) {
+    // Any other set falls back to "general", so that one has to exist
+    if (data.emojiSets.general === undefined) {
+      problem('emojiSets.general', 'is missing');
+    }
+    for (const [set, emojis] of Object.entries(data.emojiSets)) {
+      expectPhrases(emojis, `emojiSets.${set}`, problem);
+    }
+  }
+
+  if (expectObject(data.responsePatterns, 'responsePatterns', problem)) {
+    const patterns = data.responsePatterns;
+    for (const [key, pattern] of Object.entries(patterns)) {
+      expectText(pattern, `responsePatterns.${key}`, problem);
+      if (typeof pattern === 'string') {
+        validatePattern(key, pattern, problem);
+      }
+    }
+    for (const [key, spec] of Object.entries(RESPONSE_PATTERNS)) {
+      if (patterns[key] === undefined && !spec.optional) {
+        problem(`responsePatterns.${key}`, 'is missing');
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PersonalityError(problems);
+  }
+
+  return { ...data, version, id, persona: { ...data.persona, quirks } } as BotPersonality;
+}
+
+// Parse the template and check that it only reads what the agent passes to it
+function validatePattern(key: string, pattern: string, problem: (where: string, message: string) => void): void {
+  const where = `responsePatterns.${key}`;
+  const spec = Object.prototype.hasOwnProperty.call(RESPONSE_PATTERNS, key) ? RESPONSE_PATTERNS[key] : undefined;
+  if (!spec) {
+    problem(where, `is not a pattern the agent uses (expected ${Object.keys(RESPONSE_PATTERNS).join(', ')})`);
+    return;
+  }
+
+  let used: string[];
+  try {
+    used = templateVariables(parseTemplate(pattern));
+  } catch (error) {
+    if (!(error instanceof TemplateError)) {
+      throw error;
+    }
+    problem(where, error.message);
+    return;
+  }
+
+  const available = [...VOCABULARY_VARIABLES, ...spec.variables];
+  used.filter(name => !available.includes(name))
+    .forEach(name => problem(where, `uses {${name}}, which isn't available here (available: ${available.join(', ')})`));
+  spec.required.filter(name => !used.includes(name))
+    .forEach(name => problem(where, `must include {${name}}`));
+}
+
+function validateQuirk(quirk: unknown, where: string, emojiSets: {[set: string]: unknown}, problem: (where: string, message: string) => void): void {
+  if (!isObject(quirk)) {
+    problem(where, 'must be an object with an id and an action');
+    return;
+  }
+
+  if (typeof quirk.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(quirk.id)) {
+    problem(`${where}.id`, `must be lower-case letters, digits and dashes, got ${JSON.stringify(quirk.id)}`);
+  }
+  if (quirk.probability !== undefined && !(typeof quirk.probability === 'number' && quirk.probability >= 0 && quirk.probability <= 1)) {
+    problem(`${where}.probability`, `must be a number from 0 to 1, got ${JSON.stringify(quirk.probability)}`);
+  }
+  if (quirk.cooldownMinutes !== undefined && !(typeof quirk.cooldownMinutes === 'number' && quirk.cooldownMinutes >= 0)) {
+    problem(`${where}.cooldownMinutes`, `must be a number of minutes, got ${JSON.stringify(quirk.cooldownMinutes)}`);
+  }
+
+  if (quirk.trigger !== undefined && expectObject(quirk.trigger, `${where}.trigger`, problem)) {
+    const trigger = quirk.trigger;
+    if (trigger.keywords !== undefined) {
+      expectPhrases(trigger.keywords, `${where}.trigger.keywords`, problem);
+    }
+    if (trigger.topics !== undefined) {
+      expectPhrases(trigger.topics, `${where}.trigger.topics`, problem);
+    }
+    if (trigger.pattern !== undefined) {
+      expectPattern(trigger.pattern, `${where}.trigger.pattern`, problem);
+    }
+    if (trigger.minEnthusiasm !== undefined && !(typeof trigger.minEnthusiasm === 'number' && trigger.minEnthusiasm >= 0 && trigger.minEnthusiasm <= 10)) {
+      problem(`${where}.trigger.minEnthusiasm`, `must be a number from 0 to 10, got ${JSON.stringify(trigger.minEnthusiasm)}`);
+    }
+  }
+
+  if (!expectObject(quirk.action, `${where}.action`, problem)) {
+    return;
+  }
+  const action = quirk.action;
+  if (!QUIRK_ACTION_TYPES.includes(action.type)) {
+    problem(`${where}.action.type`, `must be one of ${QUIRK_ACTION_TYPES.join(', ')}, got ${JSON.stringify(action.type)}`);
+  } else if (action.type === 'emoji-burst') {
+    if (action.emojiSet !== undefined && !Object.prototype.hasOwnProperty.call(emojiSets, action.emojiSet)) {
+      problem(`${where}.action.emojiSet`, `"${action.emojiSet}" is not in emojiSets`);
+    }
+    const counts = Array.isArray(action.count) ? action.count : action.count !== undefined ? [action.count] : [];
+    const positive = counts.every((count: unknown) => typeof count === 'number' && Number.isInteger(count) && count > 0);
+    if (!positive || counts.length > 2 || (counts.length === 2 && counts[0] > counts[1])) {
+      problem(`${where}.action.count`, `must be a whole number or a [min, max] range, got ${JSON.stringify(action.count)}`);
+    }
+  } else {
+    expectPhrases(action.phrases, `${where}.action.phrases`, problem);
+    if (action.type === 'replace') {
+      expectPattern(action.pattern, `${where}.action.pattern`, problem);
+    }
+  }
+}
+
+function expectPattern(value: unknown, where: string, problem: (where: string, message: string) => void): void {
+  if (typeof value !== 'string' || !value) {
+    problem(where, 'must be a regular expression string');
+    return;
+  }
+  try {
+    new RegExp(value, 'i');
+  } catch (error) {
+    problem(where, `is not a valid regular expression (${(error as Error).message})`);
+  }
+}
+
+function isObject(value: unknown): value is {[key: string]: any} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, where: string, problem: (where: string, message: string) => void): value is {[key: string]: any} {
+  if (value === undefined) {
+    problem(where, 'is missing');
+    return false;
+  }
+  if (!isObject(value)) {
+    problem(where, 'must be an object');
+    return false;
+  }
+  return true;
+}
+
+function expectText(value: unknown, where: string, problem: (where: string, message: string) => void): void {
+  if (value === undefined) {
+    problem(where, 'is missing');
+  } else if (typeof value !== 'string' || !value.trim()) {
+    problem(where, 'must be a non-empty string');
+  }
+}
+
+// Phrase lists are picked from at random, so an empty one would break the pick
+function expectPhrases(value: unknown, where: string, problem: (where: string, message: string) => void): void {
+  if (value === undefined) {
+    problem(where, 'is missing');
+  } else if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+    problem(where, 'must be a list of non-empty strings');
+  } else if (value.length === 0) {
+    problem(where, 'must have at least one entry');
+  }
+}
@@ -1,47 +1,36 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { AgentConfig } from './config';
+import { BotPersonality, PersonalityError, loadPersonalityFile } from './personality-schema';
+import { PostingWindow, isWithinWindows, parsePostingWindows, systemTimeZone } from './scheduler';
+import { QuirkContext, QuirkEngine } from './quirk-engine';
+import { RandomSource, pickRandom } from './random';
+import { TemplateNode, TemplateVariables, parseTemplate, renderTemplate } from './response-template';
 
-// Personality type definitions
-interface BotPersonality {
-  name: string;
-  bio: string;
-  persona: {
-    background: string;
-    tone: string;
-    quirks: string[];
-  };
-  vocabulary: {
-    positiveReactions: string[];
-    transitionPhrases: string[];
-    introStarters: string[];
-    closingRemarks: string[];
-    greetings: string[];
-  };
-  topicEnthusiasm: {
-    [key: string]: number;
-  };
-  emojiSets: {
-    [key: string]: string[];
-  };
-  responsePatterns: {
-    [key: string]: string;
-  };
-}
+// Used for a pattern the personality file doesn't define
+const DEFAULT_PATTERN = parseTemplate('{introStarter} {positiveReaction}');
 
 export class PersonalityManager {
   private personality: BotPersonality;
   private lastUsedPhrases: Map<string, Set<string>> = new Map();
-  private quirkProbability: number = 0.7; // 70% chance to use quirks
+  private quirks: QuirkEngine;
+  private random: RandomSource;
+  // responsePatterns, parsed once (the schema has already checked them)
+  private templates: Map<string, TemplateNode[]> = new Map();
+  // Added to topicEnthusiasm, by topic, from how posts on each topic have done
+  private enthusiasmAdjustments: Map<string, number> = new Map();
   
-  constructor(personalityFilePath: string) {
-    try {
-      const personalityData = fs.readFileSync(personalityFilePath, 'utf8');
-      this.personality = JSON.parse(personalityData);
-      this.initLastUsedPhrases();
-    } catch (error) {
-      console.error('Error loading personality file:', error);
-      throw new Error('Failed to load personality configuration');
+  // Throws a PersonalityError listing everything wrong with the file. Every phrase,
+  // emoji and quirk is picked with `random`; a seeded one repeats the same text.
+  constructor(personalityFilePath: string, config: Pick<AgentConfig, 'quirkProbability'> = { quirkProbability: 0.7 }, random: RandomSource = Math.random) {
+    this.personality = loadPersonalityFile(personalityFilePath);
+    this.random = random;
+    this.quirks = new QuirkEngine(this.personality.persona.quirks, this.personality.emojiSets, {
+      probability: config.quirkProbability,
+      random
+    });
+    for (const [key, pattern] of Object.entries(this.personality.responsePatterns)) {
+      this.templates.set(key, parseTemplate(pattern));
     }
+    this.initLastUsedPhrases();
   }
   
   private initLastUsedPhrases(): void {
@@ -51,6 +40,10 @@ export class PersonalityManager {
     }
   }
   
+  getId(): string {
+    return this.personality.id;
+  }
+  
   getName(): string {
     return this.personality.name;
   }
@@ -59,6 +52,19 @@ export class PersonalityManager {
     return this.personality.bio;
   }
   
+  // Instructions for a language model to write in this persona's voice
+  getStylePrompt(): string {
+    const { persona, vocabulary } = this.personality;
+    
+    return [
+      `You are ${this.personality.name}: ${this.personality.bio}`,
+      `Background: ${persona.background}.`,
+      `Tone: ${persona.tone}.`,
+      `Typical phrases: ${vocabulary.positiveReactions.slice(0, 5).map(phrase => `"${phrase}"`).join(', ')}.`,
+      'Keep the voice, but accuracy always comes before style.'
+    ].join('\n');
+  }
+  
   // Get a random item from vocabulary that hasn't been used recently
   getPhrase(category: keyof BotPersonality['vocabulary']): string {
     const phrases = this.personality.vocabulary[category];
@@ -78,7 +84,7 @@ export class PersonalityManager {
     }
     
     // Select a random phrase
-    const selectedPhrase = availablePhrases[Math.floor(Math.random() * availablePhrases.length)];
+    const selectedPhrase = pickRandom(availablePhrases, this.random);
     
     // Track this phrase as recently used
     lastUsed.add(selectedPhrase);
@@ -104,7 +110,7 @@ export class PersonalityManager {
       let index;
       // Try to get unique emojis unless we've used them all
       do {
-        index = Math.floor(Math.random() * emojiSet.length);
+        index = Math.floor(this.random() * emojiSet.length);
       } while (usedIndices.has(index) && usedIndices.size < emojiSet.length);
       
       usedIndices.add(index);
@@ -114,120 +120,72 @@ export class PersonalityManager {
     return result.trim();
   }
   
-  // Get enthusiasm level for a topic
+  getTone(): string {
+    return this.personality.persona.tone;
+  }
+  
+  // Topics this persona has an enthusiasm level for
+  getTopics(): string[] {
+    return Object.keys(this.personality.topicEnthusiasm);
+  }
+  
+  // Get enthusiasm level for a topic, with any engagement adjustment, from 0 to 10
   getTopicEnthusiasm(topic: string): number {
-    // Look for exact match
-    if (this.personality.topicEnthusiasm[topic]) {
-      return this.personality.topicEnthusiasm[topic];
-    }
-    
-    // Look for partial match
-    for (const [key, value] of Object.entries(this.personality.topicEnthusiasm)) {
-      if (topic.includes(key) || key.includes(topic)) {
-        return value;
-      }
-    }
+    const adjusted = this.baseEnthusiasm(topic) + (matchTopic(this.enthusiasmAdjustments, topic) || 0);
+    return Math.min(10, Math.max(0, adjusted));
+  }
+  
+  // Replaces the previous adjustments; an empty map goes back to the file's levels
+  setEnthusiasmAdjustments(adjustments: Map<string, number>): void {
+    this.enthusiasmAdjustments = new Map(adjustments);
+  }
+  
+  private baseEnthusiasm(topic: string): number {
+    const level = matchTopic(new Map(Object.entries(this.personality.topicEnthusiasm)), topic);
     
     // Default enthusiasm
-    return 5;
+    return level !== undefined ? level : 5;
   }
   
-  // Apply personality quirks based on probability
-  applyQuirks(text: string): string {
-    if (Math.random() > this.quirkProbability) {
-      return text; // No quirk this time
-    }
-    
-    const quirks = this.personality.persona.quirks;
-    const selectedQuirk = quirks[Math.floor(Math.random() * quirks.length)];
-    
-    // Apply the quirk based on what it is
-    switch (selectedQuirk) {
-      case "uses too many emojis":
-        // Add 2-3 extra emojis
-        return text + ' ' + this.getEmojis('excitement', 2 + Math.floor(Math.random() * 2));
-        
-      case "occasionally references memes":
-        const memeReferences = [
-          " (iykyk)",
-          " *chef's kiss*",
-          " (living for this)",
-          " (it's giving innovation)",
-          " (main character energy)",
-          " (rent free in my mind)"
-        ];
-        return text + memeReferences[Math.floor(Math.random() * memeReferences.length)];
-        
-      case "gets genuinely excited about breakthrough research":
-        if (text.includes("breakthrough") || text.includes("revolutionary") || 
-            text.includes("first time") || text.includes("discover")) {
-          const excitedAdditions = [
-            " THIS IS HUGE!",
-            " I can't stress enough how important this is!",
-            " We're witnessing history!",
-            " This changes everything!",
-            " I'm literally shaking!"
-          ];
-          return text + excitedAdditions[Math.floor(Math.random() * excitedAdditions.length)];
-        }
-        return text;
-        
-      case "calls followers 'science besties'":
-        if (text.includes("you") || text.includes("interested") || text.includes("want")) {
-          return text.replace(/you/i, "you science besties");
-        }
-        return text;
-        
-      case "has a slight obsession with brain research":
-        if (text.toLowerCase().includes("brain") || text.toLowerCase().includes("neuro")) {
-          const brainAdditions = [
-            " (brains are literally my favorite organ, btw)",
-            " (brain research is life!)",
-            " (neuroscience stans unite!)",
-            " (the brain? superior organ, no competition)"
-          ];
-          return text + brainAdditions[Math.floor(Math.random() * brainAdditions.length)];
-        }
-        return text;
-        
-      default:
-        return text;
-    }
+  // Apply at most one of the persona's quirks, keeping within context.maxLength
+  applyQuirks(text: string, context: QuirkContext = {}): string {
+    const enthusiasm = context.topic ? this.getTopicEnthusiasm(context.topic) : undefined;
+    return this.quirks.apply(text, { enthusiasm, ...context });
   }
   
-  // Format response using pattern and filling in variables
-  formatResponse(patternKey: string, variables: {[key: string]: string}): string {
-    let pattern = this.personality.responsePatterns[patternKey] || '{introStarter} {positiveReaction}';
+  // Fill in one of the responsePatterns. The variables a pattern may use are listed in
+  // personality-schema.ts; add new ones there too, or files using them won't load.
+  formatResponse(patternKey: string, variables: TemplateVariables, quirkContext: QuirkContext = {}): string {
+    const template = this.templates.get(patternKey) || DEFAULT_PATTERN;
     
-    // Replace pattern variables with actual content
-    for (const [key, value] of Object.entries(variables)) {
-      pattern = pattern.replace(new RegExp(`{${key}}`, 'g'), value);
-    }
-    
-    // Replace standard vocabulary placeholders
-    pattern = pattern.replace(/{introStarter}/g, this.getPhrase('introStarters'));
-    pattern = pattern.replace(/{positiveReaction}/g, this.getPhrase('positiveReactions'));
-    pattern = pattern.replace(/{closingRemark}/g, this.getPhrase('closingRemarks'));
-    pattern = pattern.replace(/{transitionPhrase}/g, this.getPhrase('transitionPhrases'));
-    pattern = pattern.replace(/{emoji}/g, this.getEmojis('general'));
+    // Vocabulary is picked up front in a fixed order, whichever of it the pattern uses,
+    // so seeded output doesn't change when a pattern is reworded
+    const text = renderTemplate(template, {
+      introStarter: this.getPhrase('introStarters'),
+      positiveReaction: this.getPhrase('positiveReactions'),
+      closingRemark: this.getPhrase('closingRemarks'),
+      transitionPhrase: this.getPhrase('transitionPhrases'),
+      emoji: this.getEmojis('general'),
+      ...variables
+    });
     
     // Apply random quirks
-    return this.applyQuirks(pattern);
+    return this.applyQuirks(text, quirkContext);
   }
   
   // Generate a greeting based on time of day and user info
-  generateGreeting(username?: string): string {
+  generateGreeting(username?: string, quirkContext: QuirkContext = {}): string {
     let greeting = this.getPhrase('greetings');
     
     if (username) {
       greeting = greeting.replace(/there|sup|hey|hi/i, `$& ${username}`);
     }
     
-    return this.applyQuirks(greeting);
+    return this.applyQuirks(greeting, quirkContext);
   }
   
   // Generate a response about a specific topic with appropriate enthusiasm
-  generateTopicResponse(topic: string, factoid: string): string {
+  generateTopicResponse(topic: string, factoid: string, quirkContext: QuirkContext = {}): string {
     const enthusiasm = this.getTopicEnthusiasm(topic);
     let enthusiasmText = '';
     
@@ -248,7 +206,7 @@ export class PersonalityManager {
       enthusiasm: enthusiasmText,
       relatedFacts: factoid,
       emoji: this.getEmojis(emojiCategory)
-    });
+    }, { topic, ...quirkContext });
   }
   
   // Customize an article summary based on topic and content
@@ -264,9 +222,163 @@ export class PersonalityManager {
         `\n\nIf you're not excited about this, we can't be friends. ${this.getEmojis('excitement')}`
       ];
       
-      return summary + enhancers[Math.floor(Math.random() * enhancers.length)];
+      return summary + pickRandom(enhancers, this.random);
     }
     
     return summary;
   }
-}
\ No newline at end of file
+}
+
+// The value for a topic: an exact key first, then one that contains it or is contained in it
+function matchTopic(values: Map<string, number>, topic: string): number | undefined {
+  if (values.has(topic)) {
+    return values.get(topic);
+  }
+  for (const [key, value] of values) {
+    if (topic.includes(key) || key.includes(topic)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Where a piece of text is going; personas can be chosen per channel
+export type PersonaChannel = 'post' | 'mention' | 'dm' | 'api';
+
+export const PERSONA_CHANNELS: PersonaChannel[] = ['post', 'mention', 'dm', 'api'];
+
+// One entry of personaRules; every condition given must hold
+export interface PersonaRule {
+  channel?: PersonaChannel;
+  topic?: string;              // matched case-insensitively anywhere in the text being written about
+  windows?: PostingWindow[];   // time of day, in the bot's time zone
+  persona: string;
+}
+
+export interface PersonaContext {
+  channel: PersonaChannel;
+  // What the text is about: a search query, a question, an article's title and abstract...
+  topic?: string;
+  time?: Date;
+}
+
+// "channel:dm=clinician, topic:oncology=clinician, channel:post+window:06:00-09:00=clinician"
+export function parsePersonaRules(spec: string): PersonaRule[] {
+  return spec.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const equals = part.lastIndexOf('=');
+    const persona = part.slice(equals + 1).trim();
+    if (equals <= 0 || !persona) {
+      throw new Error(`Invalid persona rule "${part}", expected <condition>=<persona>`);
+    }
+    
+    const rule: PersonaRule = { persona };
+    for (const condition of part.slice(0, equals).split('+').map(text => text.trim())) {
+      const colon = condition.indexOf(':');
+      const kind = condition.slice(0, colon).toLowerCase();
+      const value = condition.slice(colon + 1).trim();
+      
+      if (colon <= 0 || !value) {
+        throw new Error(`Invalid condition "${condition}" in persona rule "${part}", expected channel:, topic: or window:`);
+      }
+      if (kind === 'channel') {
+        if (!PERSONA_CHANNELS.includes(value as PersonaChannel)) {
+          throw new Error(`Unknown channel "${value}" in persona rule "${part}", expected ${PERSONA_CHANNELS.join(', ')}`);
+        }
+        rule.channel = value as PersonaChannel;
+      } else if (kind === 'topic') {
+        rule.topic = value.toLowerCase();
+      } else if (kind === 'window') {
+        rule.windows = parsePostingWindows(value);
+      } else {
+        throw new Error(`Unknown condition "${kind}" in persona rule "${part}", expected channel:, topic: or window:`);
+      }
+    }
+    return rule;
+  });
+}
+
+export interface PersonaSetOptions {
+  files: string[];             // the first file is the default persona
+  rules?: PersonaRule[];
+  quirkProbability: number;
+  // Shared by every persona; Math.random when omitted
+  random?: RandomSource;
+  timeZone?: string;
+}
+
+// All configured personas, and the rules deciding which one speaks. Rules are tried
+// in order; when none matches, the default persona does.
+export class PersonaSet {
+  private personas: Map<string, PersonalityManager> = new Map();
+  private defaultPersona: PersonalityManager;
+  private rules: PersonaRule[];
+  private timeZone?: string;
+  
+  // Throws a PersonalityError covering every file and rule that's wrong
+  constructor(options: PersonaSetOptions) {
+    const problems: string[] = [];
+    
+    for (const file of options.files) {
+      try {
+        const persona = new PersonalityManager(file, options, options.random);
+        if (this.personas.has(persona.getId())) {
+          problems.push(`${file}: persona id "${persona.getId()}" is already used by another file`);
+        } else {
+          this.personas.set(persona.getId(), persona);
+        }
+      } catch (error) {
+        if (!(error instanceof PersonalityError)) {
+          throw error;
+        }
+        problems.push(...error.problems);
+      }
+    }
+    
+    this.rules = options.rules || [];
+    this.timeZone = options.timeZone;
+    if (this.personas.size > 0) {
+      for (const rule of this.rules.filter(r => !this.personas.has(r.persona))) {
+        problems.push(`personaRules: no persona "${rule.persona}" (loaded: ${Array.from(this.personas.keys()).join(', ')})`);
+      }
+    }
+    
+    if (problems.length > 0 || this.personas.size === 0) {
+      throw new PersonalityError(problems.length > 0 ? problems : ['no personality files configured']);
+    }
+    this.defaultPersona = this.personas.values().next().value as PersonalityManager;
+  }
+  
+  getDefault(): PersonalityManager {
+    return this.defaultPersona;
+  }
+  
+  get(id: string): PersonalityManager | undefined {
+    return this.personas.get(id);
+  }
+  
+  list(): PersonalityManager[] {
+    return Array.from(this.personas.values());
+  }
+  
+  setEnthusiasmAdjustments(adjustments: Map<string, number>): void {
+    this.personas.forEach(persona => persona.setEnthusiasmAdjustments(adjustments));
+  }
+  
+  select(context: PersonaContext): PersonalityManager {
+    const rule = this.rules.find(candidate => this.matches(candidate, context));
+    return rule ? this.personas.get(rule.persona)! : this.defaultPersona;
+  }
+  
+  private matches(rule: PersonaRule, context: PersonaContext): boolean {
+    if (rule.channel && rule.channel !== context.channel) {
+      return false;
+    }
+    if (rule.topic && !(context.topic || '').toLowerCase().includes(rule.topic)) {
+      return false;
+    }
+    if (rule.windows && !isWithinWindows(rule.windows, context.time || new Date(), this.timeZone || systemTimeZone())) {
+      return false;
+    }
+    return true;
+  }
+}
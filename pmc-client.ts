@@ -0,0 +1,59 @@
+import { EutilsClient } from './eutils-client';
+import { JatsArticle, parseJatsArticle } from './jats-parser';
+
+// Fetches open-access full text from PubMed Central.
+// PMID -> PMCID mapping goes through the PMC ID Converter API, and the JATS XML
+// comes from EFetch (db=pmc), which only includes a <body> for open-access articles.
+// Both go through the E-utilities client, so they share its throttle.
+export class PmcClient {
+  private eutils: EutilsClient;
+
+  constructor(eutils: EutilsClient) {
+    this.eutils = eutils;
+  }
+
+  // Returns e.g. "PMC1234567", or null when the article is not in PMC
+  async resolvePmcid(pmid: string): Promise<string | null> {
+    try {
+      const records = await this.eutils.idconv([pmid]);
+      const record = records.find((r: any) => String(r.pmid) === pmid);
+
+      return record && record.pmcid ? record.pmcid : null;
+    } catch (error) {
+      console.error(`Error converting PMID ${pmid} to PMCID:`, error);
+      return null;
+    }
+  }
+
+  // Download the JATS XML for a PMC article. Resolves to null if the request fails.
+  async fetchJatsXml(pmcid: string): Promise<string | null> {
+    try {
+      return await this.eutils.efetch('pmc', [pmcid.replace(/^PMC/i, '')]);
+    } catch (error) {
+      console.error(`Error downloading JATS XML for ${pmcid}:`, error);
+      return null;
+    }
+  }
+
+  // Full pipeline: resolve the PMCID (unless already known from the PubMed record),
+  // download the JATS XML and parse it. Returns null when no open-access copy exists.
+  async fetchOpenAccessArticle(pmid: string, knownPmcid?: string): Promise<JatsArticle | null> {
+    const pmcid = knownPmcid || await this.resolvePmcid(pmid);
+    if (!pmcid) {
+      return null;
+    }
+
+    const xml = await this.fetchJatsXml(pmcid);
+    if (!xml) {
+      return null;
+    }
+
+    const article = parseJatsArticle(xml);
+    if (!article) {
+      console.log(`No open-access full text available for ${pmcid}`);
+      return null;
+    }
+
+    return { ...article, pmcid: article.pmcid || pmcid };
+  }
+}
@@ -1,12 +1,35 @@
-import { Agent, Message, CommandHandler } from './agent-base';
-import axios from 'axios';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { Agent, Message, CommandHandler, ParsedCommand } from './agent-base';
+import {
+  AbstractSection,
+  ArticleAuthor,
+  MeshHeading,
+  GrantInfo,
+  PubMedRecord,
+  parsePubMedArticleSet,
+  abstractToText
+} from './pubmed-xml-parser';
+import { FullTextSection, FigureCaption, TableData, ArticleReference } from './jats-parser';
+import { PmcClient } from './pmc-client';
+import { EutilsClient } from './eutils-client';
+import {
+  ArticleNotFoundError, LiteratureSource, LiteratureSourceName, RECENT_DAYS, createLiteratureSources, sourceForAlias
+} from './literature-sources';
+import { QueuedTweet, StateStore } from './state-store';
+import { Scheduler, JobStatus, parsePostingWindows } from './scheduler';
+import { AgentConfig, loadConfig } from './config';
+import { DESIGN_LABELS, EvidenceTier, StudyDesign, rateEvidence } from './rating-engine';
+import { Summarizer, createSummarizer, findSectionText, simplifyText } from './summarizer';
+import { SafetyGuard } from './safety-guard';
+import { FollowUpKind } from './conversation-store';
+import { UserLimiter, parseQuotas } from './user-limits';
+import { PersonaChannel } from './personality-system';
+import { SearchFilters, describeSearchFilters, hasSearchFilters, parseSearchFilters } from './pubmed-query';
+import { RandomSource, pickRandom, shuffle, weightedShuffle } from './random';
 
 // Types for PubMed API responses
-interface PubMedArticle {
+export interface PubMedArticle {
   id: string;
+  source: LiteratureSourceName;
   title: string;
   abstract: string;
   authors: string[];
@@ -14,14 +37,27 @@ interface PubMedArticle {
   journal: string;
   doi?: string;
   fullTextUrl?: string;
+  isPreprint?: boolean;
 }
 
-interface ArticleContent {
+export interface ArticleContent {
   id: string;
   fullText: string;
+  abstractSections: AbstractSection[];
+  authors: ArticleAuthor[];
+  meshHeadings: MeshHeading[];
+  keywords: string[];
+  publicationTypes: string[];
+  grants: GrantInfo[];
+  // Open-access full text from PubMed Central; empty when only the abstract is available
+  pmcid?: string;
+  sections: FullTextSection[];
+  figures: FigureCaption[];
+  tables: TableData[];
+  references: ArticleReference[];
 }
 
-interface ArticleRating {
+export interface ArticleRating {
   id: string;
   score: number;
   novelty: number;
@@ -29,59 +65,190 @@ interface ArticleRating {
   methodology: number;
   relevance: number;
   tweetable: boolean;
+  limitations?: string;
+  tier: EvidenceTier;
+  design: StudyDesign;
+  sampleSize?: number;
+  explanation: string;      // why it got this score, factor by factor
+}
+
+// The article a post is about, kept with it for human review, and what wrote it, kept
+// with its engagement numbers
+export interface PostContext extends PostVoice {
+  article: PubMedArticle;
+  rating: ArticleRating;
+  topic?: string;           // the priority topic whose search found the article
+}
+
+// The persona and response pattern a summary was written with
+export interface PostVoice {
+  persona?: string;
+  pattern?: string;
+}
+
+// What became of a post handed to queueTweet
+export type QueueOutcome =
+  | { status: 'queued'; entry: QueuedTweet }
+  | { status: 'awaiting-approval'; id: string }
+  | { status: 'blocked'; reasons: string[] };
+
+// What became of a post handed to postTweet: this agent posts it there and then, the
+// Twitter agent queues it
+export type PostOutcome = { status: 'posted' } | QueueOutcome;
+
+// A parsed /search request
+export interface SearchRequest {
+  query: string;
+  source: LiteratureSourceName;
+  days: number;
+  limit?: number;     // each channel picks its own default
+  filters?: SearchFilters;
+}
+
+export interface PubMedAgentOptions {
+  // Validated settings; loaded from the config file and environment when omitted
+  config?: AgentConfig;
+  // Overrides config.stateFile, e.g. to keep dry runs apart from the live state
+  stateFile?: string;
+  // Writes the key finding of each summary; built from the config when omitted
+  summarizer?: Summarizer;
+  // NCBI client, e.g. one replaying recorded responses; built from the config when omitted
+  eutils?: EutilsClient;
+  // Picks reply wording and topics; pass a seeded one for reproducible output
+  random?: RandomSource;
 }
 
 export class PubMedAgent extends Agent {
   protected apiKey: string;
-  protected maxDailyTweets: number = 5;
+  protected eutils: EutilsClient;
+  protected pmcClient: PmcClient;
+  protected literatureSources: Map<LiteratureSourceName, LiteratureSource>;
+  protected config: AgentConfig;
   protected tweetsPostedToday: number = 0;
   protected lastTweetTime: Date = new Date();
-  protected minScoreToTweet: number = 7.5;
   protected recentArticleIds: Set<string> = new Set();
-  protected priorityTopics: string[] = [
-    'vaccine', 'immunotherapy', 'CRISPR', 'artificial intelligence', 'machine learning',
-    'precision medicine', 'genomics', 'microbiome', 'neuroscience', 'pandemic',
-    'mental health', 'cancer research', 'rare disease', 'public health', 'drug discovery'
-  ];
-  
-  protected avoidTopics: string[] = [
-    'political', 'controversial', 'abortion', 'gun', 'religion', 'alternative medicine',
-    'unproven therapy', 'unethical', 'retracted', 'disputed', 'lawsuit'
-  ];
+  // MEDLINE records fetched ahead of time in one batch, by PMID
+  protected prefetchedRecords: Map<string, PubMedRecord> = new Map();
+  protected stateStore: StateStore;
+  protected scheduler: Scheduler;
+  protected summarizer: Summarizer;
+  protected safetyGuard: SafetyGuard;
+  protected userLimits: UserLimiter;
+  protected random: RandomSource;
+  // How likely each priority topic is to be searched first, from past engagement; empty
+  // while topicBias is off, and then every order is equally likely
+  protected topicWeights: Map<string, number> = new Map();
 
-  constructor(config?: {name: string, description: string, version: string}) {
+  constructor(config?: {name: string, description: string, version: string}, options: PubMedAgentOptions = {}) {
     super(config || {
       name: "MedSciDrops",
       description: "Your go-to for the freshest medical research takes 🧬🔬 No cap, just facts!",
       version: "1.0.0",
     });
     
-    this.apiKey = process.env.PUBMED_API_KEY || '';
+    this.config = options.config || loadConfig();
+    this.apiKey = this.config.pubmedApiKey;
     
     if (!this.apiKey) {
-      console.warn("Warning: No PubMed API key found in environment variables");
+      console.warn("Warning: No PubMed API key configured");
     }
     
+    this.random = options.random || Math.random;
+    this.summarizer = options.summarizer || createSummarizer(this.config);
+    this.safetyGuard = new SafetyGuard({ logFile: this.config.safetyLogFile });
+    this.userLimits = new UserLimiter({
+      file: this.config.userLimitsFile,
+      mentionQuotas: parseQuotas(this.config.mentionLimits),
+      expensiveQuotas: parseQuotas(this.config.searchLimits)
+    });
+    this.userLimits.load();
+    // Every NCBI request goes through one client, so they all share its rate limit
+    this.eutils = options.eutils || new EutilsClient({
+      apiKey: this.apiKey,
+      tool: this.config.ncbiTool,
+      email: this.config.ncbiEmail,
+      cacheDir: this.config.eutilsCacheDir,
+      cacheTtlHours: this.config.eutilsCacheHours
+    });
+    this.pmcClient = new PmcClient(this.eutils);
+    this.literatureSources = createLiteratureSources(this.eutils);
+    
+    // "Today", posting windows and cron jobs all follow the bot's time zone
+    this.stateStore = new StateStore(options.stateFile || this.config.stateFile, this.config.timeZone);
+    this.scheduler = new Scheduler({
+      timeZone: this.config.timeZone,
+      postingWindows: parsePostingWindows(this.config.postingWindows),
+      store: this.stateStore,
+      random: this.random
+    });
+    
     // Register command handlers
     this.registerCommands();
+    this.registerAdminCommands();
     
     // Schedule daily article searches and tweets
     this.scheduleJobs();
   }
 
+  async start(): Promise<boolean> {
+    await super.start();
+    this.restoreState();
+    
+    // Start the scheduler only now, so catch-up sees the restored job history
+    this.scheduler.start();
+    for (const job of this.scheduler.getJobs()) {
+      console.log(`Job "${job.name}" (${job.cron}): last run ${job.lastRun ? job.lastRun.toISOString() : 'never'}, next run ${job.nextRun ? job.nextRun.toISOString() : 'not scheduled'}`);
+    }
+    
+    return true;
+  }
+  
+  // Reload seen articles and today's counters so a restart doesn't re-tweet or reset the cap
+  protected restoreState(): void {
+    this.stateStore.load();
+    
+    const counters = this.stateStore.getCounters();
+    this.tweetsPostedToday = counters.tweetsPostedToday;
+    if (counters.lastTweetTime) {
+      this.lastTweetTime = new Date(counters.lastTweetTime);
+    }
+    
+    console.log(`Restored state: ${this.stateStore.getArticles().length} known articles, ${this.tweetsPostedToday} tweets posted today`);
+  }
+  
+  protected saveCounters(): void {
+    this.stateStore.saveCounters(this.tweetsPostedToday, this.lastTweetTime);
+  }
+
   private registerCommands() {
     this.addCommandHandler(
       new CommandHandler({
         name: "search",
         description: "Search for recent medical articles on a specific topic",
-        handler: async (msg: Message) => {
-          const query = msg.content.trim();
-          if (!query) {
-            return this.reply(msg, "I need a topic to search for! Try something like 'cancer immunotherapy' or 'CRISPR advances'");
+        aliases: ["find", "s"],
+        args: [{
+          name: "query",
+          description: "Topic to search for; may include source:<name>, type:rct, since:2024, until:2024-06, journal:nejm, " +
+            "author:<name>, mesh:<heading>, tiab:<phrase>, only:humans, only:free and sort:date (filters work on PubMed only)",
+          required: true,
+          rest: true
+        }],
+        flags: [
+          { name: "days", description: "Only articles from the last N days", type: "number", default: RECENT_DAYS },
+          { name: "limit", description: "How many articles to return (1-10)", type: "number" },
+          { name: "source", description: "Where to search: pubmed, europepmc, medrxiv, biorxiv or trials", type: "string" }
+        ],
+        handler: async (msg: Message, command: ParsedCommand) => {
+          const request = this.parseSearchRequest(command.args.query as string, {
+            days: command.flags.days as number,
+            limit: command.flags.limit as number | undefined,
+            source: command.flags.source as string | undefined
+          });
+          if (typeof request === 'string') {
+            return this.reply(msg, request);
           }
           
-          const articles = await this.searchRecentArticles(query, 5);
-          return this.formatArticleListResponse(msg, articles, query);
+          return this.handleSearchCommand(msg, request);
         }
       })
     );
@@ -89,51 +256,221 @@ export class PubMedAgent extends Agent {
     this.addCommandHandler(
       new CommandHandler({
         name: "summarize",
-        description: "Summarize a specific article by PubMed ID",
-        handler: async (msg: Message) => {
-          const pmid = msg.content.trim();
-          if (!pmid || !/^\d+$/.test(pmid)) {
-            return this.reply(msg, "I need a valid PubMed ID to summarize an article!");
+        description: "Summarize a specific article by PubMed ID, NCT number or preprint DOI",
+        aliases: ["summary", "tldr"],
+        args: [{ name: "id", description: "PMID, PMC/PPR ID, NCT number or 10.1101 preprint DOI", required: true }],
+        handler: async (msg: Message, command: ParsedCommand) => {
+          const articleId = (command.args.id as string).trim();
+          if (!this.isValidArticleId(articleId)) {
+            return this.reply(msg, "I need a valid PubMed ID (or NCT number / preprint DOI) to summarize an article!");
           }
           
-          try {
-            const article = await this.fetchArticleById(pmid);
-            const fullContent = await this.fetchFullArticleContent(article);
-            const summary = this.generateSummary(article, fullContent);
-            return this.reply(msg, summary);
-          } catch (error) {
-            return this.reply(msg, `Couldn't find that article, sorry! The error was: ${error.message}`);
-          }
+          return this.handleSummarizeCommand(msg, articleId);
         }
       })
     );
   }
+  
+  // Moderation commands, for the users listed in adminUsers
+  private registerAdminCommands() {
+    const userArg = { name: "user", description: "Username (with or without @) or user ID", required: true };
+    const user = (command: ParsedCommand) => (command.args.user as string).replace(/^@/, '');
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "limits",
+      description: "Show a user's recent usage, strikes and block/allow status",
+      args: [userArg],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => this.reply(msg, this.userLimits.describe(user(command)))
+    }));
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "resetlimits",
+      description: "Clear a user's counters, strikes and mute",
+      args: [userArg],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => this.reply(msg, this.userLimits.reset(user(command))
+        ? `Limits reset for @${user(command)}.`
+        : `No recent activity recorded for @${user(command)}.`)
+    }));
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "block",
+      description: "Ignore every message from a user until unblocked",
+      args: [userArg, { name: "reason", description: "Why, for the record", rest: true }],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => {
+        this.userLimits.block(user(command), (command.args.reason as string | undefined) || undefined);
+        return this.reply(msg, `Blocked @${user(command)}.`);
+      }
+    }));
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "unblock",
+      description: "Take a user off the block list",
+      args: [userArg],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => this.reply(msg, this.userLimits.unblock(user(command))
+        ? `Unblocked @${user(command)}.`
+        : `@${user(command)} wasn't blocked.`)
+    }));
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "allow",
+      description: "Exempt a user from rate limits and repeat detection",
+      args: [userArg],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => {
+        this.userLimits.allow(user(command));
+        return this.reply(msg, `@${user(command)} is on the allow list.`);
+      }
+    }));
+    
+    this.addCommandHandler(new CommandHandler({
+      name: "unallow",
+      description: "Take a user off the allow list",
+      args: [userArg],
+      adminOnly: true,
+      handler: async (msg: Message, command: ParsedCommand) => this.reply(msg, this.userLimits.unallow(user(command))
+        ? `@${user(command)} is no longer on the allow list.`
+        : `@${user(command)} wasn't on the allow list.`)
+    }));
+  }
+  
+  protected async handleSearchCommand(msg: Message, request: SearchRequest): Promise<void> {
+    const articles = await this.searchRecentArticles(request.query, request.limit || 5, request.source, request.days, request.filters);
+    await this.reply(msg, this.formatArticleListResponse(msg, articles, this.describeSearch(request)));
+  }
+  
+  // Read search text (topic plus source: and filter qualifiers) and the optional days,
+  // limit and source settings into a request. Returns a message for the user when the
+  // search can't be run as asked.
+  parseSearchRequest(text: string, options: { days?: number, limit?: number, source?: string } = {}): SearchRequest | string {
+    const { query: unfiltered, source: qualifiedSource, sourceName: qualifiedName } = this.parseSourceQualifier(text);
+    const { text: query, filters, errors } = parseSearchFilters(unfiltered);
+    const source = options.source ? sourceForAlias(options.source) : qualifiedSource;
+    const sourceName = options.source || qualifiedName;
+    const fieldSearch = (filters.mesh || filters.titleAbstract || filters.authors || []).length > 0;
+    
+    if (errors.length > 0) {
+      return errors.join(' ');
+    }
+    if (!query && !fieldSearch) {
+      return "I need a topic to search for! Try something like 'cancer immunotherapy' or 'CRISPR advances'";
+    }
+    if (!source) {
+      return `I don't know the source "${sourceName}". Try pubmed, europepmc, medrxiv, biorxiv or trials.`;
+    }
+    if (source !== 'pubmed' && hasSearchFilters(filters)) {
+      return "Filters like type:, journal: and since: only work on PubMed. Drop them or search source:pubmed.";
+    }
+    
+    return {
+      query,
+      source,
+      days: clamp(Math.round(options.days !== undefined ? options.days : RECENT_DAYS), 1, 365),
+      limit: options.limit !== undefined ? clamp(Math.round(options.limit), 1, 10) : undefined,
+      filters
+    };
+  }
+  
+  // The search as repeated back to the user, e.g. "statins (Randomized Controlled Trial, since 2024)"
+  protected describeSearch(request: SearchRequest): string {
+    const filters = request.filters ? describeSearchFilters(request.filters) : '';
+    if (!request.query) {
+      return filters;
+    }
+    return filters ? `${request.query} (${filters})` : request.query;
+  }
+  
+  protected async handleSummarizeCommand(msg: Message, articleId: string): Promise<void> {
+    try {
+      const article = await this.fetchArticleById(articleId);
+      const fullContent = await this.fetchFullArticleContent(article);
+      const summary = await this.generateSummary(article, fullContent, msg.channel);
+      await this.reply(msg, summary);
+    } catch (error) {
+      await this.reply(msg, `Couldn't find that article, sorry! The error was: ${(error as Error).message}`);
+    }
+  }
+  
+  // Turn natural-language requests ("search for crispr", "summarize 12345678") into
+  // command text; returns the text unchanged for real commands and null otherwise
+  protected toCommandText(text: string): string | null {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('/')) {
+      return trimmed;
+    }
+    
+    const search = trimmed.match(/\bsearch\s+for\s+([\s\S]+)$/i);
+    if (search) {
+      return `/search ${search[1]}`;
+    }
+    
+    const summarize = trimmed.match(/\bsummari[sz]e\s+(\S+)/i);
+    if (summarize) {
+      return `/summarize ${summarize[1].replace(/[.,!?)]+$/, '')}`;
+    }
+    
+    return null;
+  }
 
   private scheduleJobs() {
-    // Reset tweet counter daily
-    setInterval(() => {
-      this.tweetsPostedToday = 0;
-      this.recentArticleIds.clear();
-    }, 24 * 60 * 60 * 1000); // 24 hours
-    
-    // Check for tweetable articles every 4 hours
-    setInterval(async () => {
-      if (this.tweetsPostedToday < this.maxDailyTweets) {
-        await this.findAndTweetTopArticle();
+    // Reset tweet counter at local midnight
+    this.scheduler.addJob({
+      name: 'daily-reset',
+      cron: '0 0 * * *',
+      catchUp: true,
+      run: () => {
+        this.tweetsPostedToday = 0;
+        this.recentArticleIds.clear();
+        this.saveCounters();
+      }
+    });
+    
+    // Check for tweetable articles every 4 hours by default, only while we're allowed to post
+    this.scheduler.addJob({
+      name: 'article-search',
+      cron: this.config.searchCron,
+      jitterMinutes: this.config.scheduleJitterMinutes,
+      onlyInPostingWindow: true,
+      catchUp: true,
+      run: async () => {
+        if (this.tweetsPostedToday < this.config.maxDailyTweets) {
+          await this.findAndTweetTopArticle();
+        }
       }
-    }, 4 * 60 * 60 * 1000); // 4 hours
+    });
+  }
+  
+  getScheduledJobs(): JobStatus[] {
+    return this.scheduler.getJobs();
   }
 
   async onMessage(msg: Message): Promise<void> {
+    // Commands, typed or phrased in plain words, all go through the command registry
+    const commandText = this.toCommandText(msg.content);
+    if (!(await this.admitMessage(msg, this.isExpensiveRequest(commandText, msg.content)))) {
+      return;
+    }
+    
+    if (commandText) {
+      await this.dispatchCommand(msg, commandText);
+      return;
+    }
+    
+    // "Should I take X?" gets a polite refusal, never an answer
+    if (this.safetyGuard.isAdviceRequest(msg.content)) {
+      this.reply(msg, this.safetyGuard.refuseAdvice(msg.content));
+      return;
+    }
+    
     // Handle direct messages or mentions not using commands
-    if (!msg.isCommand() && (msg.isDM() || msg.isMention())) {
+    if (msg.isDM() || msg.isMention()) {
       const content = msg.content.toLowerCase();
       
       // Check for common question patterns
-      if (content.includes('?') || 
-          content.includes('what') || 
-          content.includes('how') || 
-          content.includes('why')) {
+      if (this.isQuestion(content)) {
         this.handleQuestion(msg);
         return;
       }
@@ -150,492 +487,641 @@ export class PubMedAgent extends Agent {
       }
       
       // Default response for other messages
-      this.reply(msg, "Not sure what you're asking for. Try asking about recent medical research or use /search [topic] to find articles!");
+      this.reply(msg, "Not sure what you're asking for. Try asking about recent medical research or use /search [topic] to find articles! Send /help for everything I can do.");
+    }
+  }
+  
+  protected isQuestion(text: string): boolean {
+    const content = text.toLowerCase();
+    return content.includes('?') || 
+      content.includes('what') || 
+      content.includes('how') || 
+      content.includes('why');
+  }
+  
+  // Searches, summaries and questions cost API calls and several replies, so they have
+  // their own, tighter per-user quota
+  protected isExpensiveRequest(commandText: string | null, text: string): boolean {
+    return commandText
+      ? /^\/(search|find|s|summari[sz]e|summary|tldr)\b/i.test(commandText)
+      : this.isQuestion(text);
+  }
+  
+  // Per-user limits: returns false when the message should get no further handling.
+  // Over-quota senders hear about it once per cooldown; blocked, muted and repeated
+  // messages are dropped silently.
+  protected async admitMessage(msg: Message, expensive: boolean): Promise<boolean> {
+    if (!msg.author || this.isAdmin(msg)) {
+      return true;
+    }
+    
+    const user = { id: msg.author.id, username: msg.author.username };
+    const decision = this.userLimits.check(user, msg.content, expensive);
+    if (decision.action === 'allow') {
+      return true;
     }
     
-    // Let the command system handle commands
-    await super.onMessage(msg);
+    console.log(`Not answering @${user.username || user.id}: ${decision.reason}`);
+    if (decision.action === 'cooldown' && decision.notify) {
+      await this.reply(msg, this.userLimits.cooldownMessage(decision));
+    }
+    return false;
+  }
+  
+  protected isAdmin(msg: Message): boolean {
+    if (!msg.author) {
+      return false;
+    }
+    const admins = this.config.adminUsers.map(user => user.replace(/^@/, '').toLowerCase());
+    return [msg.author.id, msg.author.username && msg.author.username.toLowerCase()]
+      .some(key => !!key && admins.includes(key));
   }
   
   protected isGreeting(text: string): boolean {
     const greetings = ['hi', 'hello', 'hey', 'sup', 'yo', 'greetings', 'howdy'];
-    return greetings.some(greeting => text
-        protected isGreeting(text: string): boolean {
-            const greetings = ['hi', 'hello', 'hey', 'sup', 'yo', 'greetings', 'howdy'];
-            return greetings.some(greeting => text.includes(greeting));
-          }
-          
-          protected handleQuestion(msg: Message): void {
-            const content = msg.content.toLowerCase();
-            
-            // Try to identify the topic from the question
-            const topicMatches = this.priorityTopics.filter(topic => content.includes(topic));
-            
-            if (topicMatches.length > 0) {
-              // There's a match with our priority topics
-              this.reply(msg, `Interesting question about ${topicMatches[0]}! Let me search for the latest research on this...`);
-              
-              // Actually search and reply with results
-              this.searchRecentArticles(topicMatches[0], 3)
-                .then(articles => {
-                  const response = this.formatArticleListResponse(msg, articles, topicMatches[0]);
-                  this.reply(msg, response);
-                })
-                .catch(error => {
-                  this.reply(msg, "Tried to find some research on that but hit a snag. Maybe try again with a different topic?");
-                });
-              
-              return;
-            }
-            
-            // Generic responses for other questions
-            this.reply(msg, this.getRandomResponse([
-              "Great question! To help you better, could you specify which medical topic you're curious about?",
-              "I'd love to help with that! Could you mention a specific medical field or condition you're interested in?",
-              "Cool question! To give you the freshest research, what specific area of medicine should I focus on?",
-              "Interesting! What particular aspect of medical science would you like me to search for?"
-            ]));
-          }
-        
-          protected getRandomResponse(options: string[]): string {
-            return options[Math.floor(Math.random() * options.length)];
-          }
-        
-          async searchRecentArticles(query: string, limit: number = 10): Promise<PubMedArticle[]> {
-            try {
-              // Check if the query contains any topics to avoid
-              if (this.avoidTopics.some(topic => query.toLowerCase().includes(topic))) {
-                return [];
-              }
-              
-              const response = await axios.get('https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi', {
-                params: {
-                  db: 'pubmed',
-                  term: `${query} AND ("last 30 days"[PDat])`,
-                  retmode: 'json',
-                  retmax: limit * 2, // Fetch more than needed in case some don't have abstracts
-                  api_key: this.apiKey
-                }
-              });
-              
-              const ids = response.data.esearchresult.idlist;
-              
-              if (!ids || ids.length === 0) {
-                return [];
-              }
-              
-              // Fetch details for each article
-              const articlesResponse = await axios.get('https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi', {
-                params: {
-                  db: 'pubmed',
-                  id: ids.join(','),
-                  retmode: 'json',
-                  api_key: this.apiKey
-                }
-              });
-              
-              const results = articlesResponse.data.result;
-              const articles: PubMedArticle[] = [];
-              
-              // Process each article
-              for (const id of ids) {
-                const articleData = results[id];
-                
-                if (articleData && articleData.title && !articleData.title.includes('[Retracted]')) {
-                  // Get author list
-                  const authors = articleData.authors ? 
-                    articleData.authors.map(author => `${author.name}`) : [];
-                  
-                  // Create article object
-                  const article: PubMedArticle = {
-                    id,
-                    title: articleData.title,
-                    abstract: articleData.abstract || "Abstract not available",
-                    authors: authors,
-                    publicationDate: articleData.pubdate || "Date not available",
-                    journal: articleData.fulljournalname || articleData.source || "Journal not specified",
-                    doi: articleData.elocationid || undefined
-                  };
-                  
-                  articles.push(article);
-                  
-                  // Stop once we have enough articles
-                  if (articles.length >= limit) {
-                    break;
-                  }
-                }
-              }
-              
-              return articles;
-            } catch (error) {
-              console.error('Error searching PubMed:', error);
-              return [];
-            }
-          }
-        
-          async fetchArticleById(pmid: string): Promise<PubMedArticle> {
-            try {
-              const response = await axios.get('https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi', {
-                params: {
-                  db: 'pubmed',
-                  id: pmid,
-                  retmode: 'json',
-                  api_key: this.apiKey
-                }
-              });
-              
-              const articleData = response.data.result[pmid];
-              
-              if (!articleData || !articleData.title) {
-                throw new Error("Article not found");
-              }
-              
-              // Get author list
-              const authors = articleData.authors ? 
-                articleData.authors.map(author => `${author.name}`) : [];
-              
-              // Create article object
-              return {
-                id: pmid,
-                title: articleData.title,
-                abstract: articleData.abstract || "Abstract not available",
-                authors: authors,
-                publicationDate: articleData.pubdate || "Date not available",
-                journal: articleData.fulljournalname || articleData.source || "Journal not specified",
-                doi: articleData.elocationid || undefined,
-                fullTextUrl: this.getPossibleFullTextUrl(pmid)
-              };
-            } catch (error) {
-              console.error('Error fetching article:', error);
-              throw new Error("Failed to fetch article information");
-            }
-          }
-        
-          private getPossibleFullTextUrl(pmid: string): string {
-            return `https://www.ncbi.nlm.nih.gov/pmc/articles/pmid/${pmid}/`;
-          }
-        
-          async fetchFullArticleContent(article: PubMedArticle): Promise<ArticleContent> {
-            // In a real implementation, this would use an API that can access full-text content
-            // However, for this example, we'll use the abstract as a stand-in for full text
-            
-            try {
-              // Try to fetch more detailed abstract using EFetch
-              const response = await axios.get('https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi', {
-                params: {
-                  db: 'pubmed',
-                  id: article.id,
-                  retmode: 'xml',
-                  api_key: this.apiKey
-                }
-              });
-              
-              // In a real implementation, you would parse the XML to extract more content
-              // For now, we'll return the abstract we already have
-              return {
-                id: article.id,
-                fullText: article.abstract || "Content not available"
-              };
-            } catch (error) {
-              console.error('Error fetching full article content:', error);
-              return {
-                id: article.id,
-                fullText: article.abstract || "Content not available"
-              };
-            }
-          }
+    return greetings.some(greeting => text.includes(greeting));
+  }
+  
+  protected handleQuestion(msg: Message): void {
+    const content = msg.content.toLowerCase();
+    
+    // Try to identify the topic from the question
+    const topicMatches = this.config.priorityTopics.filter(topic => content.includes(topic));
+    
+    if (topicMatches.length > 0) {
+      // There's a match with our priority topics
+      this.reply(msg, `Interesting question about ${topicMatches[0]}! Let me search for the latest research on this...`);
+      
+      // Actually search and reply with results
+      this.searchRecentArticles(topicMatches[0], 3)
+        .then(articles => {
+          const response = this.formatArticleListResponse(msg, articles, topicMatches[0]);
+          this.reply(msg, response);
+        })
+        .catch(error => {
+          this.reply(msg, "Tried to find some research on that but hit a snag. Maybe try again with a different topic?");
+        });
+      
+      return;
+    }
+    
+    // Generic responses for other questions
+    this.reply(msg, this.getRandomResponse([
+      "Great question! To help you better, could you specify which medical topic you're curious about?",
+      "I'd love to help with that! Could you mention a specific medical field or condition you're interested in?",
+      "Cool question! To give you the freshest research, what specific area of medicine should I focus on?",
+      "Interesting! What particular aspect of medical science would you like me to search for?"
+    ]));
+  }
+
+  protected getRandomResponse(options: string[]): string {
+    return pickRandom(options, this.random);
+  }
+
+  async searchRecentArticles(
+    query: string,
+    limit: number = 10,
+    sourceName: LiteratureSourceName = 'pubmed',
+    days: number = RECENT_DAYS,
+    filters?: SearchFilters
+  ): Promise<PubMedArticle[]> {
+    const source = this.literatureSources.get(sourceName);
+    
+    if (!source) {
+      return [];
+    }
+    
+    try {
+      // Check if the query contains any topics to avoid
+      if (this.config.avoidTopics.some(topic => query.toLowerCase().includes(topic))) {
+        return [];
+      }
+      
+      return await source.search(query, limit, days, filters);
+    } catch (error) {
+      console.error(`Error searching ${source.displayName}:`, error);
+      return [];
+    }
+  }
+
+  async fetchArticleById(id: string, sourceName?: LiteratureSourceName): Promise<PubMedArticle> {
+    const source = sourceName
+      ? this.literatureSources.get(sourceName)
+      : this.findSourceForId(id);
+    
+    if (!source) {
+      throw new Error("Unrecognized article ID");
+    }
+    
+    try {
+      return await source.fetchById(id);
+    } catch (error) {
+      // Callers tell "no such article" apart from the source failing
+      if (error instanceof ArticleNotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching article:', error);
+      throw new Error("Failed to fetch article information");
+    }
+  }
+
+  // Work out which database an identifier belongs to (PMID, NCT number, bioRxiv DOI, ...)
+  protected findSourceForId(id: string): LiteratureSource | undefined {
+    for (const source of this.literatureSources.values()) {
+      if (source.ownsId(id)) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
+  isValidArticleId(id: string): boolean {
+    return this.findSourceForId(id) !== undefined;
+  }
+
+  // Pull a `source:name` qualifier out of a search query. The source is undefined when
+  // the name isn't one we know; sourceName is what was typed.
+  protected parseSourceQualifier(query: string): {query: string, source?: LiteratureSourceName, sourceName: string} {
+    const match = query.match(/(?:^|\s)source:(\S+)/i);
+    
+    if (!match) {
+      return { query: query.trim(), source: 'pubmed', sourceName: 'pubmed' };
+    }
+    
+    return { query: query.replace(match[0], ' ').replace(/\s+/g, ' ').trim(), source: sourceForAlias(match[1]), sourceName: match[1] };
+  }
+
+  // Fetch the MEDLINE records for many PubMed articles in one batch, so that
+  // fetchFullArticleContent doesn't need a request per article afterwards
+  protected async prefetchPubMedRecords(articles: PubMedArticle[]): Promise<void> {
+    this.prefetchedRecords.clear();
+    const pmids = articles.map(article => article.id).filter(id => /^\d+$/.test(id));
+    
+    if (pmids.length < 2) {
+      return;
+    }
+    
+    try {
+      for (const page of await this.eutils.efetchBatch('pubmed', pmids)) {
+        parsePubMedArticleSet(page).forEach(record => this.prefetchedRecords.set(record.pmid, record));
+      }
+    } catch (error) {
+      // Not fatal: each article is then fetched on its own
+      console.error('Error prefetching PubMed records:', error);
+    }
+  }
+  
+  async fetchFullArticleContent(article: PubMedArticle): Promise<ArticleContent> {
+    // Preprints and trial registry entries have no MEDLINE record; their abstract is all we get
+    if (!/^\d+$/.test(article.id)) {
+      return this.buildFallbackContent(article);
+    }
+    
+    try {
+      // EFetch returns the complete MEDLINE record, including the abstract that esummary omits
+      let record = this.prefetchedRecords.get(article.id);
+      if (!record) {
+        const records = parsePubMedArticleSet(await this.eutils.efetch('pubmed', [article.id]));
+        record = records.find(r => r.pmid === article.id) || records[0];
+      }
+      
+      if (!record) {
+        console.warn(`No PubMed record returned by EFetch for PMID ${article.id}`);
+        return this.buildFallbackContent(article);
+      }
+      
+      const content = this.buildArticleContent(article, record);
+      return await this.attachOpenAccessFullText(content, record.pmcid);
+    } catch (error) {
+      console.error('Error fetching full article content:', error);
+      return this.buildFallbackContent(article);
+    }
+  }
+  
+  protected buildArticleContent(article: PubMedArticle, record: PubMedRecord): ArticleContent {
+    const abstractText = abstractToText(record.abstractSections);
+    
+    return {
+      id: article.id,
+      fullText: abstractText || article.abstract || "Content not available",
+      abstractSections: record.abstractSections,
+      authors: record.authors,
+      meshHeadings: record.meshHeadings,
+      keywords: record.keywords,
+      publicationTypes: record.publicationTypes,
+      grants: record.grants,
+      pmcid: record.pmcid,
+      sections: [],
+      figures: [],
+      tables: [],
+      references: []
+    };
+  }
+  
+  // Add PMC full text when an open-access copy exists; otherwise keep the abstract-only content
+  protected async attachOpenAccessFullText(content: ArticleContent, pmcid?: string): Promise<ArticleContent> {
+    const openAccess = await this.pmcClient.fetchOpenAccessArticle(content.id, pmcid);
+    
+    if (!openAccess) {
+      return content;
+    }
+    
+    return {
+      ...content,
+      pmcid: openAccess.pmcid,
+      sections: openAccess.sections,
+      figures: openAccess.figures,
+      tables: openAccess.tables,
+      references: openAccess.references
+    };
+  }
+  
+  protected buildFallbackContent(article: PubMedArticle): ArticleContent {
+    return {
+      id: article.id,
+      fullText: article.abstract || "Content not available",
+      abstractSections: [],
+      authors: [],
+      meshHeadings: [],
+      keywords: [],
+      publicationTypes: article.isPreprint ? ['Preprint'] : [],
+      grants: [],
+      sections: [],
+      figures: [],
+      tables: [],
+      references: []
+    };
+  }
+  
+  // Abstract text plus indexing terms, lowercased, for keyword-based checks
+  protected getSearchableText(article: PubMedArticle, content: ArticleContent): string {
+    return [
+      article.title,
+      content.fullText,
+      content.meshHeadings.map(heading => heading.descriptor).join(' '),
+      content.keywords.join(' ')
+    ].join(' ').toLowerCase();
+  }
+  
+  // The authors' own statement of limitations, from a Limitations section or the discussion
+  protected extractLimitation(content: ArticleContent): string | undefined {
+    const limitationsText = findSectionText(content, 'limitations');
+    if (limitationsText) {
+      return limitationsText.split(/\.\s+/)[0].replace(/\.$/, '') + '.';
+    }
+    
+    const discussion = findSectionText(content, 'discussion');
+    const sentence = discussion
+      ? discussion.split(/\.\s+/).find(s => /\blimitations?\b/i.test(s))
+      : undefined;
+    
+    return sentence ? sentence.replace(/\.$/, '') + '.' : undefined;
+  }
+  
+  protected formatLimitationNote(content: ArticleContent): string {
+    const limitation = this.extractLimitation(content);
+    return limitation ? `\n\nFine print: ${simplifyText(limitation)}` : '';
+  }
+  
+  // Answer a follow-up question about an article from what we have of it (abstract,
+  // full text when open access, MEDLINE metadata)
+  async answerArticleQuestion(kind: FollowUpKind, article: PubMedArticle, content: ArticleContent): Promise<string> {
+    const title = article.title.replace(/\.$/, '');
+    const shortTitle = title.length > 80 ? title.slice(0, 79) + '…' : title;
+    
+    switch (kind) {
+      case 'sample-size': {
+        const rating = this.rateArticle(article, content);
+        return rating.sampleSize !== undefined
+          ? `"${shortTitle}" included ${rating.sampleSize.toLocaleString('en-US')} participants (${DESIGN_LABELS[rating.design].toLowerCase()}).`
+          : `I couldn't find the sample size in what I can read of "${shortTitle}". The full paper should have it: ${this.formatArticleIdLabel(article)}`;
+      }
+      
+      case 'design': {
+        const rating = this.rateArticle(article, content);
+        return `It's a ${DESIGN_LABELS[rating.design].toLowerCase()}, which I rate as ${rating.tier} evidence. ${rating.explanation}`;
+      }
+      
+      case 'finding':
+        // Like every summary, a preprint's finding says up front that it isn't peer-reviewed
+        return `${this.formatSourceLabel(article)}The main finding: ${await this.summarizer.summarize(article, content)}`;
+      
+      case 'limitations': {
+        const limitation = this.extractLimitation(content);
+        return limitation
+          ? `The authors' own caveat: ${simplifyText(limitation)}`
+          : `The authors don't spell out limitations in what I can read. My take on the evidence: ${this.rateArticle(article, content).explanation}`;
+      }
+      
+      case 'journal':
+        return `It was published in ${article.journal}${article.publicationDate ? ` (${article.publicationDate})` : ''}.`;
+      
+      case 'authors':
+        return `It's by ${this.formatAuthorsShort(article.authors).replace(/\.$/, '')}.`;
+      
+      case 'date':
+        return article.publicationDate
+          ? `It came out ${article.publicationDate}.`
+          : "I don't have a publication date for that one.";
+      
+      case 'link':
+        return article.doi
+          ? `Here you go: https://doi.org/${article.doi}`
+          : article.fullTextUrl || (/^\d+$/.test(article.id) ? `https://pubmed.ncbi.nlm.nih.gov/${article.id}/` : this.formatArticleIdLabel(article));
+      
+      case 'peer-review':
+        return article.isPreprint
+          ? "No, it's a preprint: it hasn't been peer-reviewed yet, so treat the results with caution."
+          : `Yes, it was published in a peer-reviewed journal (${article.journal}).`;
+      
+      case 'funding': {
+        const funders = Array.from(new Set(content.grants.map(grant => grant.agency).filter((agency): agency is string => !!agency)));
+        return funders.length > 0
+          ? `Funding listed: ${funders.slice(0, 4).join(', ')}${funders.length > 4 ? ` and ${funders.length - 4} more` : ''}.`
+          : "No funding is listed in the record I can see; the paper's disclosures section will have the details.";
+      }
+    }
+  }
+  
+  rateArticle(article: PubMedArticle, content: ArticleContent): ArticleRating {
+    const limitations = this.extractLimitation(content);
+    
+    const evidence = rateEvidence({
+      title: article.title,
+      abstract: content.fullText || article.abstract,
+      journal: article.journal,
+      publicationTypes: content.publicationTypes,
+      meshHeadings: content.meshHeadings.map(heading => heading.descriptor),
+      keywords: content.keywords,
+      isPreprint: article.isPreprint,
+      limitations
+    }, {
+      priorityTopics: this.config.priorityTopics,
+      avoidTopics: this.config.avoidTopics
+    });
+    
+    // Never tweet retracted work, controversial topics, or anything below moderate evidence
+    const tweetable = evidence.score >= this.config.minScoreToTweet &&
+      !evidence.controversial &&
+      !evidence.retracted &&
+      (evidence.tier === 'high' || evidence.tier === 'moderate');
+    
+    return {
+      id: article.id,
+      score: evidence.score,
+      novelty: evidence.novelty,
+      impact: evidence.impact,
+      methodology: evidence.methodology,
+      relevance: evidence.relevance,
+      tweetable,
+      limitations,
+      tier: evidence.tier,
+      design: evidence.design,
+      sampleSize: evidence.sampleSize,
+      explanation: evidence.explanation
+    };
+  }
+
+  // `channel` lets subclasses pick a voice for where the summary is going
+  async generateSummary(article: PubMedArticle, content: ArticleContent, channel?: PersonaChannel): Promise<string> {
+    // Extract key information for the summary
+    const title = article.title.replace(/\.$/, '');
+    const journal = article.journal;
+    const authors = article.authors.length > 0 
+      ? (article.authors.length > 3 
+        ? `${article.authors[0]} et al.` 
+        : article.authors.join(', '))
+      : 'researchers';
+    
+    // Gen-Z/AIXBT style elements
+    const openings = [
+      "Yooo, science just dropped some 🔥 findings!",
+      "This research is lowkey mind-blowing fr fr 🧠✨",
+      "Scientists back at it again with the breakthrough vibes ⚡",
+      "New study just dropped and it's actually kinda wild 👀",
+      "Medical science community eating good with this one 💯"
+    ];
+    
+    const transitions = [
+      "The takeaway?",
+      "So basically,",
+      "TL;DR:",
+      "Here's the tea:",
+      "The vibe check:"
+    ];
+    
+    const closings = [
+      "This could be huge for patients, no cap!",
+      "We love to see medical science making moves!",
+      "The future of medicine looking extra bright rn!",
+      "Not me getting excited about medical research again!",
+      "Gotta appreciate the scientists putting in that work!"
+    ];
+    
+    // The key finding, from the configured summarizer
+    const mainPoint = await this.summarizer.summarize(article, content);
+    
+    // Build the summary
+    const opening = this.getRandomResponse(openings);
+    const transition = this.getRandomResponse(transitions);
+    const closing = this.getRandomResponse(closings);
+    
+    const summary = `${this.formatSourceLabel(article)}${opening}\n\n${title} - just published in ${journal}.\n\n${transition} ${mainPoint}${this.formatLimitationNote(content)}\n\n${closing}\n\n#MedicalResearch #Science ${this.generateRelevantHashtags(article, content)}`;
+    return this.reviewArticleText(summary, article, content);
+  }
+  
+  // Run a summary past the safety guard with what the rating knows about the study. If
+  // nothing survives (e.g. it was all hype about a mouse study), fall back to a plain
+  // title-and-journal post, which still gets the caveats and footer.
+  protected reviewArticleText(text: string, article: PubMedArticle, content: ArticleContent): string {
+    const rating = this.rateArticle(article, content);
+    const context = {
+      kind: 'post' as const,
+      design: rating.design,
+      sampleSize: rating.sampleSize,
+      isPreprint: article.isPreprint
+    };
+    
+    const verdict = this.safetyGuard.review(text, context);
+    if (verdict.action !== 'block') {
+      return verdict.text;
+    }
+    
+    const plain = `${this.formatSourceLabel(article)}${article.title.replace(/\.$/, '')} - ${article.journal}. ${this.formatArticleIdLabel(article)}`;
+    return this.safetyGuard.review(plain, context).text;
+  }
+  
+  protected generateRelevantHashtags(article: PubMedArticle, content: ArticleContent): string {
+    // MeSH headings and author keywords catch topics the abstract never spells out
+    const combinedText = this.getSearchableText(article, content);
+    const possibleHashtags = [
+      { term: 'cancer', tag: '#CancerResearch' },
+      { term: 'diabet', tag: '#Diabetes' },
+      { term: 'heart disease', tag: '#HeartHealth' },
+      { term: 'cardio', tag: '#Cardiology' },
+      { term: 'neuro', tag: '#Neuroscience' },
+      { term: 'brain', tag: '#BrainResearch' },
+      { term: 'covid', tag: '#COVID19' },
+      { term: 'pandemic', tag: '#PandemicResearch' },
+      { term: 'genetic', tag: '#Genetics' },
+      { term: 'surgery', tag: '#Surgery' },
+      { term: 'pediatric', tag: '#PediatricMedicine' },
+      { term: 'children', tag: '#ChildHealth' },
+      { term: 'mental health', tag: '#MentalHealth' },
+      { term: 'psychiatr', tag: '#Psychiatry' },
+      { term: 'vaccine', tag: '#Vaccines' },
+      { term: 'drug', tag: '#DrugDevelopment' },
+      { term: 'pharma', tag: '#Pharma' },
+      { term: 'antibio', tag: '#Antibiotics' },
+      { term: 'resistance', tag: '#AntimicrobialResistance' },
+      { term: 'infection', tag: '#InfectiousDisease' }
+    ];
+    
+    // Find matching hashtags
+    const matchedTags = possibleHashtags
+      .filter(item => combinedText.includes(item.term))
+      .map(item => item.tag);
+    
+    // Take up to 3 hashtags
+    return matchedTags.slice(0, 3).join(' ');
+  }
+
+  formatArticleListResponse(msg: Message, articles: PubMedArticle[], query: string): string {
+    if (articles.length === 0) {
+      return `Couldn't find any recent articles about "${query}". Maybe try a different search term?`;
+    }
+    
+    const intro = this.getRandomResponse([
+      `Found some fresh research on "${query}" 👀`,
+      `Just dropped! Latest studies on "${query}" 🔬`,
+      `Check out these new papers on "${query}" that scientists are buzzing about ✨`,
+      `The science girlies/bois have been busy with "${query}" research 🧬`
+    ]);
+    
+    let response = `${intro}\n\n`;
+    
+    // Add each article with Gen-Z flair
+    articles.forEach((article, index) => {
+      response += `${index + 1}. "${article.title}"\n`;
+      response += `   ${this.formatAuthorsShort(article.authors)} in ${article.journal}\n`;
+      response += `   ${this.formatArticleIdLabel(article)}\n\n`;
+    });
+    
+    response += `Want me to summarize any of these? Just reply with "/summarize [ID]" 💯`;
+    
+    return response;
+  }
+  
+  protected formatArticleIdLabel(article: PubMedArticle): string {
+    if (/^\d+$/.test(article.id)) {
+      return `PMID: ${article.id}`;
+    }
+    if (article.source === 'clinicaltrials') {
+      return `Trial: ${article.id}`;
+    }
+    if (article.isPreprint) {
+      return `Preprint: ${article.id}`;
+    }
+    return `ID: ${article.id}`;
+  }
+  
+  // Every summary of a preprint has to say up front that it hasn't been peer-reviewed
+  protected formatSourceLabel(article: PubMedArticle): string {
+    return article.isPreprint ? "⚠️ PREPRINT - not peer-reviewed yet, treat with caution.\n\n" : '';
+  }
+  
+  protected formatAuthorsShort(authors: string[]): string {
+    if (authors.length === 0) {
+      return "Unknown authors";
+    } else if (authors.length === 1) {
+      return authors[0];
+    } else {
+      return `${authors[0]} et al.`;
+    }
+  }
+
+  async findAndTweetTopArticle(): Promise<void> {
+    // Search for articles on priority topics across all auto-tweet sources
+    for (const topic of this.getRandomizedTopics()) {
+      const articles: PubMedArticle[] = [];
+      for (const sourceName of this.config.autoTweetSources) {
+        articles.push(...await this.searchRecentArticles(topic, 5, sourceName));
+      }
+      
+      await this.prefetchPubMedRecords(articles.filter(article =>
+        !this.recentArticleIds.has(article.id) && !this.stateStore.hasSeenArticle(article.id)));
+      
+      for (const article of articles) {
+        // Skip if we've already seen this article, today or on any earlier run
+        if (this.recentArticleIds.has(article.id) || this.stateStore.hasSeenArticle(article.id)) {
+          continue;
+        }
         
-          rateArticle(article: PubMedArticle, content: ArticleContent): ArticleRating {
-            // Initialize rating components
-            let novelty = 0;
-            let impact = 0;
-            let methodology = 0;
-            let relevance = 0;
-            
-            const fullText = (article.title + " " + content.fullText).toLowerCase();
-            
-            // Check for novelty indicators
-            const noveltyTerms = [
-              'first time', 'novel', 'breakthrough', 'pioneering', 'discovered', 
-              'new approach', 'innovative', 'groundbreaking', 'first-in-human',
-              'paradigm shift', 'revolutionize'
-            ];
-            novelty = this.scoreTermsPresence(fullText, noveltyTerms, 10);
-            
-            // Check for impact indicators
-            const impactTerms = [
-              'significant', 'substantial', 'major', 'important', 'crucial',
-              'life-saving', 'effective', 'efficacy', 'survival', 'mortality',
-              'quality of life', 'large cohort', 'multi-center', 'phase 3'
-            ];
-            impact = this.scoreTermsPresence(fullText, impactTerms, 10);
-            
-            // Check for methodology strength
-            const methodologyTerms = [
-              'randomized', 'double-blind', 'placebo-controlled', 'meta-analysis',
-              'systematic review', 'large sample', 'longitudinal', 'prospective',
-              'controlled trial', 'robust', 'validated', 'statistical significance'
-            ];
-            methodology = this.scoreTermsPresence(fullText, methodologyTerms, 10);
-            
-            // Check for relevance to wider population
-            const relevanceTerms = [
-              'public health', 'common disease', 'prevalent', 'population',
-              'widespread', 'epidemic', 'pandemic', 'burden', 'incidence',
-              'morbidity', 'mortality', 'preventable', 'treatment', 'therapy'
-            ];
-            relevance = this.scoreTermsPresence(fullText, relevanceTerms, 10);
-            
-            // Check for red flags (deduction from score)
-            const redFlagTerms = [
-              'preliminary', 'limited sample', 'pilot study', 'small cohort',
-              'inconclusive', 'mixed results', 'further research needed',
-              'conflicting', 'questionable', 'limitations', 'not statistically significant'
-            ];
-            const redFlagScore = this.scoreTermsPresence(fullText, redFlagTerms, 10);
-            
-            // Check for controversial topics
-            const controversialScore = this.scoreTermsPresence(fullText, this.avoidTopics, 10);
-            
-            // Final weighted score calculation (scale of 0-10)
-            let score = (
-              (novelty * 0.25) + 
-              (impact * 0.3) + 
-              (methodology * 0.25) + 
-              (relevance * 0.2) - 
-              (redFlagScore * 0.5) -
-              (controversialScore * 2)  // Heavy penalty for controversial topics
-            );
-            
-            // Ensure score is within 0-10 range
-            score = Math.max(0, Math.min(10, score));
-            
-            // Determine if the article is tweetable
-            const tweetable = score >= this.minScoreToTweet && controversialScore < 0.5;
-            
-            return {
-              id: article.id,
-              score,
-              novelty,
-              impact,
-              methodology,
-              relevance,
-              tweetable
-            };
-          }
-          
-          private scoreTermsPresence(text: string, terms: string[], maxScore: number): number {
-            let matches = 0;
-            
-            for (const term of terms) {
-              if (text.includes(term.toLowerCase())) {
-                matches++;
-              }
-            }
-            
-            // Calculate score based on percentage of matching terms
-            return (matches / terms.length) * maxScore;
-          }
+        this.recentArticleIds.add(article.id);
         
-          generateSummary(article: PubMedArticle, content: ArticleContent): string {
-            // Extract key information for the summary
-            const title = article.title.replace(/\.$/, '');
-            const journal = article.journal;
-            const authors = article.authors.length > 0 
-              ? (article.authors.length > 3 
-                ? `${article.authors[0]} et al.` 
-                : article.authors.join(', '))
-              : 'researchers';
-            
-            // Gen-Z/AIXBT style elements
-            const openings = [
-              "Yooo, science just dropped some 🔥 findings!",
-              "This research is lowkey mind-blowing fr fr 🧠✨",
-              "Scientists back at it again with the breakthrough vibes ⚡",
-              "New study just dropped and it's actually kinda wild 👀",
-              "Medical science community eating good with this one 💯"
-            ];
-            
-            const transitions = [
-              "The takeaway?",
-              "So basically,",
-              "TL;DR:",
-              "Here's the tea:",
-              "The vibe check:"
-            ];
-            
-            const closings = [
-              "This could be huge for patients, no cap!",
-              "We love to see medical science making moves!",
-              "The future of medicine looking extra bright rn!",
-              "Not me getting excited about medical research again!",
-              "Gotta appreciate the scientists putting in that work!"
-            ];
-            
-            // Extract main points from abstract (simplified NLP approach)
-            const abstractSentences = content.fullText.split(/\.\s+/);
-            let mainPoint = abstractSentences.find(s => 
-              s.toLowerCase().includes('conclude') || 
-              s.toLowerCase().includes('finding') ||
-              s.toLowerCase().includes('result') ||
-              s.toLowerCase().includes('demonstrate') ||
-              s.toLowerCase().includes('show')
-            ) || abstractSentences[abstractSentences.length - 1];
-            
-            // Clean up and simplify the main point
-            mainPoint = this.simplifyText(mainPoint);
-            
-            // Build the summary
-            const opening = this.getRandomResponse(openings);
-            const transition = this.getRandomResponse(transitions);
-            const closing = this.getRandomResponse(closings);
-            
-            return `${opening}\n\n${title} - just published in ${journal}.\n\n${transition} ${mainPoint}\n\n${closing}\n\n#MedicalResearch #Science ${this.generateRelevantHashtags(article, content)}`;
-          }
-          
-          protected simplifyText(text: string): string {
-            // This is a simplified version. In a real implementation,
-            // you might use a more sophisticated NLP approach
-            
-            return text
-              .replace(/^\s*(?:we|the authors|researchers|this study)\s+(?:found|demonstrate[ds]?|show[ns]?|conclude[ds]?|observe[ds]?|note[ds]?|report[ds]?)\s+that\s+/i, '')
-              .replace(/\(.*?\)/g, '')  // Remove parenthetical expressions
-              .replace(/\[.*?\]/g, '')  // Remove bracketed content
-              .replace(/,\s*(?:respectively|however|therefore|thus|hence|moreover)\s*,/g, ',')
-              .replace(/\s+/g, ' ')     // Normalize whitespace
-              .trim()
-              .replace(/^\s*(?:these|the|our)\s+(?:data|results|findings)\s+(?:suggest|indicate|show|demonstrate|reveal)\s+that\s+/i, '')
-              .replace(/^\s*(?:it\s+(?:is|was)\s+(?:found|shown|demonstrated|concluded)\s+that)\s+/i, '')
-              .replace(/\s+(?:p\s*(?:<|>|=)\s*0?\.\d+)/, '')  // Remove p-values
-              .replace(/\s+\(\d+(?:\.\d+)?%\s*(?:CI|confidence interval)[^\)]+\)/, '')  // Remove confidence intervals
-              + '.';  // Ensure it ends with a period
-          }
-          
-          private generateRelevantHashtags(article: PubMedArticle, content: ArticleContent): string {
-            const combinedText = (article.title + " " + content.fullText).toLowerCase();
-            const possibleHashtags = [
-              { term: 'cancer', tag: '#CancerResearch' },
-              { term: 'diabet', tag: '#Diabetes' },
-              { term: 'heart disease', tag: '#HeartHealth' },
-              { term: 'cardio', tag: '#Cardiology' },
-              { term: 'neuro', tag: '#Neuroscience' },
-              { term: 'brain', tag: '#BrainResearch' },
-              { term: 'covid', tag: '#COVID19' },
-              { term: 'pandemic', tag: '#PandemicResearch' },
-              { term: 'genetic', tag: '#Genetics' },
-              { term: 'surgery', tag: '#Surgery' },
-              { term: 'pediatric', tag: '#PediatricMedicine' },
-              { term: 'children', tag: '#ChildHealth' },
-              { term: 'mental health', tag: '#MentalHealth' },
-              { term: 'psychiatr', tag: '#Psychiatry' },
-              { term: 'vaccine', tag: '#Vaccines' },
-              { term: 'drug', tag: '#DrugDevelopment' },
-              { term: 'pharma', tag: '#Pharma' },
-              { term: 'antibio', tag: '#Antibiotics' },
-              { term: 'resistance', tag: '#AntimicrobialResistance' },
-              { term: 'infection', tag: '#InfectiousDisease' }
-            ];
-            
-            // Find matching hashtags
-            const matchedTags = possibleHashtags
-              .filter(item => combinedText.includes(item.term))
-              .map(item => item.tag);
-            
-            // Take up to 3 hashtags
-            return matchedTags.slice(0, 3).join(' ');
-          }
+        // Get full content and rate the article
+        const fullContent = await this.fetchFullArticleContent(article);
+        const rating = this.rateArticle(article, fullContent);
+        this.stateStore.recordArticle(article, rating);
         
-          formatArticleListResponse(msg: Message, articles: PubMedArticle[], query: string): string {
-            if (articles.length === 0) {
-              return `Couldn't find any recent articles about "${query}". Maybe try a different search term?`;
-            }
-            
-            const intro = this.getRandomResponse([
-              `Found some fresh research on "${query}" 👀`,
-              `Just dropped! Latest studies on "${query}" 🔬`,
-              `Check out these new papers on "${query}" that scientists are buzzing about ✨`,
-              `The science girlies/bois have been busy with "${query}" research 🧬`
-            ]);
-            
-            let response = `${intro}\n\n`;
-            
-            // Add each article with Gen-Z flair
-            articles.forEach((article, index) => {
-              response += `${index + 1}. "${article.title}"\n`;
-              response += `   ${this.formatAuthorsShort(article.authors)} in ${article.journal}\n`;
-              response += `   PMID: ${article.id}\n\n`;
-            });
-            
-            response += `Want me to summarize any of these? Just reply with "/summarize [PMID]" 💯`;
-            
-            return response;
-          }
+        if (rating.tweetable) {
+          // Generate and post the tweet
+          const tweetText = await this.generateSummary(article, fullContent);
+          const outcome = await this.postTweet(tweetText, article.id, { article, rating, topic, ...this.postVoice(article, fullContent) });
           
-          protected formatAuthorsShort(authors: string[]): string {
-            if (authors.length === 0) {
-              return "Unknown authors";
-            } else if (authors.length === 1) {
-              return authors[0];
-            } else {
-              return `${authors[0]} et al.`;
-            }
-          }
-        
-          async findAndTweetTopArticle(): Promise<void> {
-            // Search for articles on priority topics
-            for (const topic of this.getRandomizedTopics()) {
-              const articles = await this.searchRecentArticles(topic, 5);
-              
-              for (const article of articles) {
-                // Skip if we've already seen this article
-                if (this.recentArticleIds.has(article.id)) {
-                  continue;
-                }
-                
-                this.recentArticleIds.add(article.id);
-                
-                // Get full content and rate the article
-                const fullContent = await this.fetchFullArticleContent(article);
-                const rating = this.rateArticle(article, fullContent);
-                
-                if (rating.tweetable) {
-                  // Generate and post the tweet
-                  const tweetText = this.generateSummary(article, fullContent);
-                  await this.postTweet(tweetText);
-                  
-                  // Update counters
-                  this.tweetsPostedToday++;
-                  this.lastTweetTime = new Date();
-                  
-                  return; // Found and tweeted an article, so we're done for now
-                }
-              }
-            }
-            
-            console.log("No tweetable articles found in this round");
+          // The safety guard turned it away; try the next article instead
+          if (outcome.status === 'blocked') {
+            console.log(`Post about ${article.id} was blocked (${outcome.reasons.join('; ')})`);
+            continue;
           }
           
-          private getRandomizedTopics(): string[] {
-            // Return a shuffled copy of priority topics
-            return [...this.priorityTopics]
-              .sort(() => Math.random() - 0.5)
-              .slice(0, 5); // Take just 5 random topics to check
-          }
-        
-          async postTweet(text: string): Promise<void> {
-            // This would integrate with the Twitter API
-            // For this example, we'll just log it
-            console.log("TWEET POSTED:");
-            console.log("--------------------");
-            console.log(text);
-            console.log("--------------------");
-          }
-        
-          async replyToTweet(tweetId: string, text: string): Promise<void> {
-            // This would integrate with the Twitter API
-            console.log(`REPLY TO TWEET ${tweetId}:`);
-            console.log("--------------------");
-            console.log(text);
-            console.log("--------------------");
-          }
-        }
\ No newline at end of file
+          return; // Found and tweeted an article, so we're done for now
+        }
+      }
+    }
+    
+    console.log("No tweetable articles found in this round");
+  }
+  
+  private getRandomizedTopics(): string[] {
+    // Return a shuffled copy of priority topics, topics that engage better first more often
+    const topics = this.topicWeights.size > 0
+      ? weightedShuffle(this.config.priorityTopics, topic => this.topicWeights.has(topic) ? this.topicWeights.get(topic)! : 1, this.random)
+      : shuffle(this.config.priorityTopics, this.random);
+    return topics.slice(0, 5); // Take just 5 random topics to check
+  }
+  
+  // Who wrote generateSummary's text; this agent has no personas
+  protected postVoice(article: PubMedArticle, content: ArticleContent): PostVoice {
+    return {};
+  }
+
+  async postTweet(text: string, articleId?: string, context?: PostContext): Promise<PostOutcome> {
+    // This would integrate with the Twitter API
+    // For this example, we'll just log it
+    console.log("TWEET POSTED:");
+    console.log("--------------------");
+    console.log(text);
+    console.log("--------------------");
+    
+    this.stateStore.recordTweet(text, undefined, articleId);
+    
+    // Update counters
+    this.tweetsPostedToday++;
+    this.lastTweetTime = new Date();
+    this.saveCounters();
+    return { status: 'posted' };
+  }
+
+  async replyToTweet(tweetId: string, text: string): Promise<void> {
+    // This would integrate with the Twitter API
+    console.log(`REPLY TO TWEET ${tweetId}:`);
+    console.log("--------------------");
+    console.log(text);
+    console.log("--------------------");
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
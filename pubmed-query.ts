@@ -0,0 +1,279 @@
+// Builds PubMed search terms (the E-utilities `term` parameter) from a topic plus
+// structured filters, and reads those filters out of /search text, e.g.
+//   /search statins type:rct since:2024 journal:nejm only:humans
+// Everything the user typed is escaped, so it can't change the query's structure.
+
+export interface SearchFilters {
+  mesh?: string[];            // MeSH headings, [mh]
+  titleAbstract?: string[];   // words or phrases in the title or abstract, [tiab]
+  authors?: string[];         // e.g. "Smith J", [au]
+  journal?: string;           // title abbreviation or full title, [ta]
+  since?: string;             // publication date range, "YYYY[/MM[/DD]]"
+  until?: string;
+  types?: string[];           // publication types as PubMed names them, [pt]
+  humansOnly?: boolean;
+  freeFullText?: boolean;
+  sort?: 'relevance' | 'date';
+}
+
+// Short names accepted by type: for PubMed publication types
+export const PUBLICATION_TYPES: {[alias: string]: string} = {
+  rct: 'Randomized Controlled Trial',
+  randomized: 'Randomized Controlled Trial',
+  trial: 'Clinical Trial',
+  'clinical-trial': 'Clinical Trial',
+  meta: 'Meta-Analysis',
+  'meta-analysis': 'Meta-Analysis',
+  sr: 'Systematic Review',
+  'systematic-review': 'Systematic Review',
+  review: 'Review',
+  guideline: 'Practice Guideline',
+  case: 'Case Reports',
+  observational: 'Observational Study',
+  preprint: 'Preprint'
+};
+
+// Common journal nicknames, mapped to their NLM title abbreviations
+export const JOURNAL_ALIASES: {[alias: string]: string} = {
+  nejm: 'N Engl J Med',
+  lancet: 'Lancet',
+  jama: 'JAMA',
+  bmj: 'BMJ',
+  nature: 'Nature',
+  science: 'Science',
+  cell: 'Cell',
+  natmed: 'Nat Med',
+  'nature-medicine': 'Nat Med',
+  annals: 'Ann Intern Med',
+  plosmed: 'PLoS Med',
+  circulation: 'Circulation',
+  jco: 'J Clin Oncol'
+};
+
+// An alias from one of the tables above; names every object has, like "constructor", aren't aliases
+function lookupAlias(table: {[alias: string]: string}, alias: string): string | undefined {
+  const key = alias.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+const QUALIFIER = /(?:^|\s)([a-z]+):(?:"([^"]*)"|“([^”]*)”|(\S+))/gi;
+// The qualifiers parseSearchFilters reads; the rest stay in the text
+const FILTER_QUALIFIERS = ['type', 'pt', 'since', 'from', 'until', 'before', 'to', 'journal', 'ta', 'author', 'au', 'mesh', 'mh', 'tiab', 'title', 'only', 'sort'];
+
+// Free text: drop PubMed syntax characters and defuse the boolean operators (only
+// upper-case AND/OR/NOT are operators; lower-case they're ordinary words)
+export function escapeSearchText(text: string): string {
+  return text
+    .replace(/[\[\]()"“”*#{}:\\]/g, ' ')
+    .replace(/\b(AND|OR|NOT)\b/g, word => word.toLowerCase())
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// A field-tagged value is quoted so it's searched as one phrase in that field
+function tagged(value: string, tag: string): string {
+  return `"${escapeSearchText(value)}"[${tag}]`;
+}
+
+// "2024", "2024-03", "2024/03/15" -> "2024/03/15" style; null if it isn't a date
+export function normalizeSearchDate(text: string): string | null {
+  const match = text.trim().match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), match[2] && Number(match[2]), match[3] && Number(match[3])];
+  if (year < 1800 || year > 3000 || (month && (month < 1 || month > 12)) || (day && (day < 1 || day > 31))) {
+    return null;
+  }
+  return [match[1], match[2] && match[2].padStart(2, '0'), match[3] && match[3].padStart(2, '0')].filter(Boolean).join('/');
+}
+
+// The first and last day a "YYYY[/MM[/DD]]" date covers, as sortable strings. Every
+// month is taken to end on the 31st, which compares the same way.
+function rangeStart(date: string): string {
+  const [year, month, day] = date.split('/');
+  return [year, month || '01', day || '01'].join('/');
+}
+
+function rangeEnd(date: string): string {
+  const [year, month, day] = date.split('/');
+  return [year, month || '12', day || '31'].join('/');
+}
+
+// The complete `term`. Without an explicit date range it covers the last `days` days.
+export function buildPubMedTerm(text: string, filters: SearchFilters = {}, days?: number): string {
+  const parts: string[] = [];
+  const topic = escapeSearchText(text);
+
+  if (topic) {
+    parts.push(`(${topic})`);
+  }
+  (filters.mesh || []).forEach(heading => parts.push(tagged(heading, 'mh')));
+  (filters.titleAbstract || []).forEach(phrase => parts.push(tagged(phrase, 'tiab')));
+  (filters.authors || []).forEach(author => parts.push(tagged(author, 'au')));
+  if (filters.journal) {
+    parts.push(tagged(filters.journal, 'ta'));
+  }
+  if (filters.types && filters.types.length > 0) {
+    parts.push(`(${filters.types.map(type => tagged(type, 'pt')).join(' OR ')})`);
+  }
+  if (filters.humansOnly) {
+    parts.push('humans[mh]');
+  }
+  if (filters.freeFullText) {
+    parts.push('free full text[sb]');
+  }
+
+  if (filters.since || filters.until) {
+    parts.push(`("${filters.since || '1800'}"[dp] : "${filters.until || '3000'}"[dp])`);
+  } else if (days) {
+    parts.push(`("last ${days} days"[dp])`);
+  }
+
+  return parts.join(' AND ');
+}
+
+// esearch `sort` value for a filter's sort order
+export function pubmedSortParam(filters: SearchFilters): string | undefined {
+  return filters.sort === 'date' ? 'pub_date' : filters.sort;
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Object.keys(filters).some(key => {
+    const value = filters[key as keyof SearchFilters];
+    return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== false;
+  });
+}
+
+// Pull type:, since:, until:, journal:, author:, mesh:, tiab:, only: and sort: out of
+// search text. Unknown qualifiers (such as source:) are left in the text for the caller.
+export function parseSearchFilters(text: string): { text: string; filters: SearchFilters; errors: string[] } {
+  const filters: SearchFilters = {};
+  const errors: string[] = [];
+  const add = (key: 'mesh' | 'titleAbstract' | 'authors' | 'types', value: string) => {
+    filters[key] = [...(filters[key] || []), value];
+  };
+
+  const rest = text.replace(QUALIFIER, (whole, rawName: string, quoted?: string, curly?: string, bare?: string) => {
+    const name = rawName.toLowerCase();
+    const value = (quoted !== undefined ? quoted : curly !== undefined ? curly : bare || '').trim();
+
+    // author:"" would search for an empty phrase
+    if (FILTER_QUALIFIERS.includes(name) && !escapeSearchText(value)) {
+      errors.push(`${rawName}: is empty; put what to search for after the colon.`);
+      return ' ';
+    }
+
+    switch (name) {
+      case 'type':
+      case 'pt':
+        value.split(',').filter(Boolean).forEach(alias => {
+          const type = lookupAlias(PUBLICATION_TYPES, alias);
+          if (type) {
+            add('types', type);
+          } else {
+            errors.push(`I don't know the article type "${alias}". Try ${Object.keys(PUBLICATION_TYPES).slice(0, 6).join(', ')}...`);
+          }
+        });
+        break;
+
+      case 'since':
+      case 'from':
+      case 'until':
+      case 'before':
+      case 'to': {
+        const date = normalizeSearchDate(value);
+        if (!date) {
+          errors.push(`"${value}" isn't a date; use a year like 2024 or 2024-03.`);
+        } else if (name === 'since' || name === 'from') {
+          filters.since = date;
+        } else {
+          filters.until = date;
+        }
+        break;
+      }
+
+      case 'journal':
+      case 'ta':
+        filters.journal = lookupAlias(JOURNAL_ALIASES, value) || value;
+        break;
+
+      case 'author':
+      case 'au':
+        add('authors', value);
+        break;
+
+      case 'mesh':
+      case 'mh':
+        add('mesh', value);
+        break;
+
+      case 'tiab':
+      case 'title':
+        add('titleAbstract', value);
+        break;
+
+      case 'only':
+        value.split(',').filter(Boolean).forEach(limit => {
+          if (/^humans?$/i.test(limit)) {
+            filters.humansOnly = true;
+          } else if (/^(free|free-?full-?text)$/i.test(limit)) {
+            filters.freeFullText = true;
+          } else {
+            errors.push(`Can't limit to "${limit}"; use only:humans or only:free.`);
+          }
+        });
+        break;
+
+      case 'sort':
+        if (/^(date|recent|newest)$/i.test(value)) {
+          filters.sort = 'date';
+        } else if (/^(relevance|best)$/i.test(value)) {
+          filters.sort = 'relevance';
+        } else {
+          errors.push(`Can't sort by "${value}"; use sort:date or sort:relevance.`);
+        }
+        break;
+
+      default:
+        return whole;
+    }
+    return ' ';
+  });
+
+  // A bare year or month covers all of it: since:2024-03-15 until:2024-03 is fine
+  if (filters.since && filters.until && rangeStart(filters.since) > rangeEnd(filters.until)) {
+    errors.push(`since:${filters.since} is after until:${filters.until}.`);
+  }
+
+  return { text: rest.replace(/\s+/g, ' ').trim(), filters, errors };
+}
+
+// Short description for replies, e.g. "Randomized Controlled Trial, in N Engl J Med, since 2024"
+export function describeSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  (filters.mesh || []).forEach(heading => parts.push(heading));
+  (filters.titleAbstract || []).forEach(phrase => parts.push(`"${phrase}"`));
+  if (filters.types && filters.types.length > 0) {
+    parts.push(filters.types.join(' or '));
+  }
+  if (filters.journal) {
+    parts.push(`in ${filters.journal}`);
+  }
+  if (filters.authors && filters.authors.length > 0) {
+    parts.push(`by ${filters.authors.join(', ')}`);
+  }
+  if (filters.since) {
+    parts.push(`since ${filters.since}`);
+  }
+  if (filters.until) {
+    parts.push(`until ${filters.until}`);
+  }
+  if (filters.humansOnly) {
+    parts.push('in humans');
+  }
+  if (filters.freeFullText) {
+    parts.push('free full text');
+  }
+  return parts.join(', ');
+}
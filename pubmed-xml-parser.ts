@@ -0,0 +1,158 @@
+import { XmlElement, parseXml, findAll, findFirst, textAt, textContent, childElements } from './xml-parser';
+
+// Structured pieces of a PubMed record, as returned by EFetch (db=pubmed, retmode=xml)
+
+export interface AbstractSection {
+  label: string;      // Label as printed by the journal, e.g. "Methods and Findings"
+  category: string;   // NLM normalized category: BACKGROUND, OBJECTIVE, METHODS, RESULTS, CONCLUSIONS or UNASSIGNED
+  text: string;
+}
+
+export interface ArticleAuthor {
+  name: string;
+  lastName?: string;
+  foreName?: string;
+  initials?: string;
+  collectiveName?: string;
+  affiliations: string[];
+}
+
+export interface MeshHeading {
+  descriptor: string;
+  majorTopic: boolean;
+  qualifiers: string[];
+}
+
+export interface GrantInfo {
+  grantId?: string;
+  acronym?: string;
+  agency?: string;
+  country?: string;
+}
+
+export interface PubMedRecord {
+  pmid: string;
+  title: string;
+  journal: string;
+  publicationDate: string;
+  doi?: string;
+  pmcid?: string;
+  abstractSections: AbstractSection[];
+  authors: ArticleAuthor[];
+  meshHeadings: MeshHeading[];
+  keywords: string[];
+  publicationTypes: string[];
+  grants: GrantInfo[];
+}
+
+// Parse a PubmedArticleSet document into one record per PubmedArticle
+export function parsePubMedArticleSet(xml: string): PubMedRecord[] {
+  const document = parseXml(xml);
+  return findAll(document, 'PubmedArticleSet/PubmedArticle').map(parsePubMedArticle);
+}
+
+export function parsePubMedArticle(element: XmlElement): PubMedRecord {
+  const citation = findFirst(element, 'MedlineCitation') || element;
+  const article = findFirst(citation, 'Article') || citation;
+  const articleIds = findAll(element, 'PubmedData/ArticleIdList/ArticleId');
+
+  const articleIdOfType = (type: string) => {
+    const match = articleIds.find(id => id.attributes.IdType === type);
+    return match ? textContent(match) : undefined;
+  };
+
+  const doiLocation = findAll(article, 'ELocationID')
+    .find(location => location.attributes.EIdType === 'doi');
+
+  return {
+    pmid: textAt(citation, 'PMID'),
+    title: textAt(article, 'ArticleTitle'),
+    journal: textAt(article, 'Journal/Title'),
+    publicationDate: parsePublicationDate(findFirst(article, 'Journal/JournalIssue/PubDate')),
+    doi: doiLocation ? textContent(doiLocation) : articleIdOfType('doi'),
+    pmcid: articleIdOfType('pmc'),
+    abstractSections: parseAbstract(findFirst(article, 'Abstract')),
+    authors: findAll(article, 'AuthorList/Author').map(parseAuthor),
+    meshHeadings: findAll(citation, 'MeshHeadingList/MeshHeading').map(parseMeshHeading),
+    keywords: findAll(citation, 'KeywordList/Keyword').map(textContent).filter(Boolean),
+    publicationTypes: findAll(article, 'PublicationTypeList/PublicationType').map(textContent).filter(Boolean),
+    grants: findAll(article, 'GrantList/Grant').map(parseGrant)
+  };
+}
+
+function parseAbstract(abstract: XmlElement | undefined): AbstractSection[] {
+  if (!abstract) {
+    return [];
+  }
+
+  return childElements(abstract, 'AbstractText')
+    .map(section => ({
+      label: section.attributes.Label || '',
+      category: (section.attributes.NlmCategory || section.attributes.Label || 'UNASSIGNED').toUpperCase(),
+      text: textContent(section)
+    }))
+    .filter(section => section.text.length > 0);
+}
+
+function parseAuthor(author: XmlElement): ArticleAuthor {
+  const lastName = textAt(author, 'LastName') || undefined;
+  const foreName = textAt(author, 'ForeName') || undefined;
+  const initials = textAt(author, 'Initials') || undefined;
+  const collectiveName = textAt(author, 'CollectiveName') || undefined;
+
+  // Match the "Smith J" style that esummary uses for author names
+  const name = collectiveName || [lastName, initials || foreName].filter(Boolean).join(' ');
+
+  return {
+    name,
+    lastName,
+    foreName,
+    initials,
+    collectiveName,
+    affiliations: findAll(author, 'AffiliationInfo/Affiliation').map(textContent).filter(Boolean)
+  };
+}
+
+function parseMeshHeading(heading: XmlElement): MeshHeading {
+  const descriptor = findFirst(heading, 'DescriptorName');
+  const qualifiers = findAll(heading, 'QualifierName');
+
+  return {
+    descriptor: textContent(descriptor),
+    majorTopic: (descriptor && descriptor.attributes.MajorTopicYN === 'Y') ||
+      qualifiers.some(qualifier => qualifier.attributes.MajorTopicYN === 'Y'),
+    qualifiers: qualifiers.map(textContent)
+  };
+}
+
+function parseGrant(grant: XmlElement): GrantInfo {
+  return {
+    grantId: textAt(grant, 'GrantID') || undefined,
+    acronym: textAt(grant, 'Acronym') || undefined,
+    agency: textAt(grant, 'Agency') || undefined,
+    country: textAt(grant, 'Country') || undefined
+  };
+}
+
+function parsePublicationDate(pubDate: XmlElement | undefined): string {
+  if (!pubDate) {
+    return '';
+  }
+
+  // Some journals only provide a free-text MedlineDate such as "2023 Nov-Dec"
+  const medlineDate = textAt(pubDate, 'MedlineDate');
+  if (medlineDate) {
+    return medlineDate;
+  }
+
+  return [textAt(pubDate, 'Year'), textAt(pubDate, 'Month'), textAt(pubDate, 'Day')]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Flatten structured sections into readable text, keeping the section labels
+export function abstractToText(sections: AbstractSection[]): string {
+  return sections
+    .map(section => section.label ? `${section.label}: ${section.text}` : section.text)
+    .join('\n');
+}
@@ -0,0 +1,153 @@
+import { RandomSource, shuffle } from './random';
+import { MAX_TWEET_LENGTH, twitterLength } from './thread-composer';
+
+// Personality quirks as data. Each quirk in the personality file says when it applies
+// (trigger), what it does to the text (action), how often (probability) and how soon
+// it may come back (cooldown). A text gets at most one quirk, and never one that
+// would make it too long to post.
+
+export type QuirkActionType = 'append' | 'prepend' | 'replace' | 'emoji-burst';
+
+export const QUIRK_ACTION_TYPES: QuirkActionType[] = ['append', 'prepend', 'replace', 'emoji-burst'];
+
+export interface QuirkDefinition {
+  id: string;
+  description?: string;
+  // Every condition given must hold; a quirk without a trigger can fire on any text
+  trigger?: {
+    keywords?: string[];      // any of these, case-insensitive, anywhere in the text
+    pattern?: string;         // a regular expression (case-insensitive) the text matches
+    topics?: string[];        // the text's topic contains one of these
+    minEnthusiasm?: number;   // the persona's enthusiasm for the topic is at least this
+  };
+  action: {
+    type: QuirkActionType;
+    // append/prepend: added with a space; replace: substituted for the first match of
+    // `pattern` ($& stands for the matched text). One is picked at random.
+    phrases?: string[];
+    pattern?: string;
+    // emoji-burst: how many emojis (or a [min, max] range) from which set
+    emojiSet?: string;
+    count?: number | [number, number];
+  };
+  probability?: number;       // 0-1 once triggered; default 1
+  cooldownMinutes?: number;   // not used again for this long
+}
+
+export interface QuirkContext {
+  // What the text is about, for topic and enthusiasm triggers
+  topic?: string;
+  enthusiasm?: number;
+  // Weighted length the text may grow to; defaults to one tweet
+  maxLength?: number;
+  // The text goes out as a thread, so once it's past one tweet it can keep growing
+  threaded?: boolean;
+}
+
+export interface QuirkEngineOptions {
+  // Chance that a text gets a quirk at all (the quirkProbability setting)
+  probability?: number;
+  // A seeded source gives the same choices every run, for tests and previews
+  random?: RandomSource;
+  now?: () => number;
+}
+
+export class QuirkEngine {
+  private quirks: QuirkDefinition[];
+  private emojiSets: {[set: string]: string[]};
+  private probability: number;
+  private random: RandomSource;
+  private now: () => number;
+  private lastUsed: Map<string, number> = new Map();
+
+  constructor(quirks: QuirkDefinition[], emojiSets: {[set: string]: string[]}, options: QuirkEngineOptions = {}) {
+    this.quirks = quirks;
+    this.emojiSets = emojiSets;
+    this.probability = options.probability !== undefined ? options.probability : 1;
+    this.random = options.random || Math.random;
+    this.now = options.now || Date.now;
+  }
+
+  apply(text: string, context: QuirkContext = {}): string {
+    if (this.quirks.length === 0 || this.random() >= this.probability) {
+      return text;
+    }
+
+    const maxLength = context.maxLength !== undefined ? context.maxLength : MAX_TWEET_LENGTH;
+    const limit = context.threaded && twitterLength(text) > maxLength ? Infinity : maxLength;
+
+    for (const quirk of shuffle(this.quirks.filter(q => this.isReady(q) && this.isTriggered(q, text, context)), this.random)) {
+      if (this.random() >= (quirk.probability !== undefined ? quirk.probability : 1)) {
+        continue;
+      }
+
+      const result = this.perform(quirk, text, limit);
+      if (result !== null) {
+        this.lastUsed.set(quirk.id, this.now());
+        return result;
+      }
+    }
+
+    return text;
+  }
+
+  private isReady(quirk: QuirkDefinition): boolean {
+    const lastUsed = this.lastUsed.get(quirk.id);
+    return lastUsed === undefined || !quirk.cooldownMinutes || this.now() - lastUsed >= quirk.cooldownMinutes * 60 * 1000;
+  }
+
+  private isTriggered(quirk: QuirkDefinition, text: string, context: QuirkContext): boolean {
+    const trigger = quirk.trigger;
+    if (!trigger) {
+      return true;
+    }
+
+    const lower = text.toLowerCase();
+    const topic = (context.topic || '').toLowerCase();
+
+    if (trigger.keywords && !trigger.keywords.some(keyword => lower.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+    if (trigger.pattern && !new RegExp(trigger.pattern, 'i').test(text)) {
+      return false;
+    }
+    if (trigger.topics && !(topic && trigger.topics.some(t => topic.includes(t.toLowerCase())))) {
+      return false;
+    }
+    if (trigger.minEnthusiasm !== undefined && !(context.enthusiasm !== undefined && context.enthusiasm >= trigger.minEnthusiasm)) {
+      return false;
+    }
+    if (quirk.action.type === 'replace' && !new RegExp(quirk.action.pattern || '$^', 'i').test(text)) {
+      return false;
+    }
+    return true;
+  }
+
+  // The quirked text, or null when no variant fits in `limit`
+  private perform(quirk: QuirkDefinition, text: string, limit: number): string | null {
+    const action = quirk.action;
+
+    if (action.type === 'emoji-burst') {
+      const set = this.emojiSets[action.emojiSet || 'general'] || this.emojiSets.general || [];
+      const [min, max] = Array.isArray(action.count) ? action.count : [action.count || 2, action.count || 2];
+      // Fewer emojis if the full burst doesn't fit
+      for (let count = min + Math.floor(this.random() * (max - min + 1)); count > 0; count--) {
+        const result = `${text} ${shuffle(set, this.random).slice(0, count).join(' ')}`;
+        if (twitterLength(result) <= limit) {
+          return result;
+        }
+      }
+      return null;
+    }
+
+    for (const phrase of shuffle(action.phrases || [], this.random)) {
+      const result = action.type === 'append' ? `${text} ${phrase}`
+        : action.type === 'prepend' ? `${phrase} ${text}`
+        : text.replace(new RegExp(action.pattern!, 'i'), phrase);
+      if (twitterLength(result) <= limit) {
+        return result;
+      }
+    }
+    return null;
+  }
+}
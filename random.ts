@@ -0,0 +1,44 @@
+// Randomness for everything the bot writes. Each generator takes a RandomSource (a
+// Math.random-style function) so tests and previews can pass a seeded one and get the
+// same text on every run.
+
+export type RandomSource = () => number;
+
+// Small fast PRNG (mulberry32); deterministic for a given seed
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function pickRandom<T>(items: T[], random: RandomSource = Math.random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Fisher-Yates: every order equally likely, unlike sorting with a random comparator
+export function shuffle<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// A random order where items with more weight tend to come first: each item is drawn
+// in turn with probability proportional to its weight among those left (Efraimidis-
+// Spirakis). Items with no weight always come last.
+export function weightedShuffle<T>(items: T[], weight: (item: T) => number, random: RandomSource = Math.random): T[] {
+  return items
+    .map(item => {
+      const w = weight(item);
+      return { item, key: w > 0 ? Math.pow(random(), 1 / w) : -1 };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.item);
+}
@@ -0,0 +1,195 @@
+// The template language of responsePatterns. Text is copied as written, except:
+//   {name}                          a variable; its value goes in as is, never read as a template
+//   {name|filter|filter:arg}        the value run through filters, left to right
+//   {#if name}...{#else}...{/if}    only when the variable is set and not blank ({#if !name}
+//                                   for the opposite); {#else} is optional, and ifs nest
+//   {{ and }}                       literal braces
+// Filters:
+//   truncate:<n>                    at most n characters, ending in "…" when cut
+//   titlecase, upper, lower
+//   pluralize:<one>[:<many>]        a count with its noun: "1 study", "31 studies" (<many>
+//                                   defaults to <one> plus "s")
+//   default:<text>                  the text instead of an empty value
+// Filter arguments can't contain ":", "|" or "}".
+
+export type TemplateValue = string | number | undefined;
+
+export interface TemplateVariables {
+  [name: string]: TemplateValue;
+}
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; filters: TemplateFilter[] }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] };
+
+export interface TemplateFilter {
+  name: string;
+  args: string[];
+}
+
+interface FilterDefinition {
+  args: [number, number];       // fewest and most arguments
+  check?: (args: string[]) => string | undefined;
+  apply: (value: string, args: string[]) => string;
+}
+
+const FILTERS: {[name: string]: FilterDefinition} = {
+  truncate: {
+    args: [1, 1],
+    check: ([length]) => /^[1-9]\d*$/.test(length) ? undefined : `truncate needs a length, got "${length}"`,
+    apply: (value, [length]) => {
+      // Array.from so an emoji is never cut in half
+      const characters = Array.from(value);
+      const max = Number(length);
+      return characters.length <= max ? value : characters.slice(0, max - 1).join('').replace(/\s+$/, '') + '…';
+    }
+  },
+  titlecase: { args: [0, 0], apply: value => value.replace(/(^|\s)(\S)/g, (match, space, first) => space + first.toUpperCase()) },
+  upper: { args: [0, 0], apply: value => value.toUpperCase() },
+  lower: { args: [0, 0], apply: value => value.toLowerCase() },
+  pluralize: {
+    args: [1, 2],
+    apply: (value, [one, many]) => `${value} ${Number(value) === 1 ? one : many || `${one}s`}`
+  },
+  default: { args: [1, 1], apply: (value, [fallback]) => value.trim() ? value : fallback }
+};
+
+const NAME = '[A-Za-z][A-Za-z0-9_]*';
+
+// A template that can't be parsed; `position` is the offset of the problem in the source
+export class TemplateError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at character ${position + 1}`);
+    this.name = 'TemplateError';
+    this.position = position;
+  }
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open ifs, innermost last, with where each started for error messages
+  const open: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; position: number }[] = [];
+  const target = () => {
+    const innermost = open[open.length - 1];
+    return innermost ? (innermost.inElse ? innermost.node.else : innermost.node.then) : root;
+  };
+  let text = '';
+  const flushText = () => {
+    if (text) {
+      target().push({ type: 'text', text });
+      text = '';
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const pair = source.slice(i, i + 2);
+    if (pair === '{{' || pair === '}}') {
+      text += pair[0];
+      i += 2;
+      continue;
+    }
+    if (source[i] === '}') {
+      throw new TemplateError('unexpected "}" (write }} for a literal brace)', i);
+    }
+    if (source[i] !== '{') {
+      text += source[i++];
+      continue;
+    }
+
+    const end = source.indexOf('}', i);
+    if (end < 0) {
+      throw new TemplateError('unclosed "{" (write {{ for a literal brace)', i);
+    }
+    const tag = source.slice(i + 1, end);
+    flushText();
+
+    const condition = tag.match(new RegExp(`^#if\\s+(!?)(${NAME})$`));
+    const variable = tag.match(new RegExp(`^(${NAME})((?:\\|[^|]*)*)$`));
+    if (condition) {
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name: condition[2], negate: condition[1] === '!', then: [], else: [] };
+      target().push(node);
+      open.push({ node, inElse: false, position: i });
+    } else if (tag === '#else') {
+      const innermost = open[open.length - 1];
+      if (!innermost || innermost.inElse) {
+        throw new TemplateError(innermost ? 'second {#else} in one {#if}' : '{#else} without {#if}', i);
+      }
+      innermost.inElse = true;
+    } else if (tag === '/if') {
+      if (!open.pop()) {
+        throw new TemplateError('{/if} without {#if}', i);
+      }
+    } else if (variable) {
+      const filters = variable[2].split('|').slice(1).map(spec => parseFilter(spec, i));
+      target().push({ type: 'variable', name: variable[1], filters });
+    } else {
+      throw new TemplateError(`"{${tag}}" is not a variable, {#if}, {#else} or {/if}`, i);
+    }
+    i = end + 1;
+  }
+
+  flushText();
+  if (open.length > 0) {
+    throw new TemplateError(`{#if ${open[open.length - 1].node.name}} is never closed with {/if}`, open[open.length - 1].position);
+  }
+  return root;
+}
+
+function parseFilter(spec: string, position: number): TemplateFilter {
+  const [name, ...args] = spec.split(':');
+  // Own properties only, so "constructor" is an unknown filter like any other
+  const definition = Object.prototype.hasOwnProperty.call(FILTERS, name.trim()) ? FILTERS[name.trim()] : undefined;
+  if (!definition) {
+    throw new TemplateError(`unknown filter "${name}" (expected ${Object.keys(FILTERS).join(', ')})`, position);
+  }
+
+  const [fewest, most] = definition.args;
+  if (args.length < fewest || args.length > most) {
+    const expected = most === 0 ? 'no arguments' : `${fewest === most ? fewest : `${fewest}-${most}`} argument${most === 1 ? '' : 's'}`;
+    throw new TemplateError(`${name} takes ${expected}, got ${args.length}`, position);
+  }
+  const problem = definition.check && definition.check(args);
+  if (problem) {
+    throw new TemplateError(problem, position);
+  }
+  return { name: name.trim(), args };
+}
+
+// Every variable the template reads, in conditions as well as output
+export function templateVariables(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => list.forEach(node => {
+    if (node.type === 'variable') {
+      names.add(node.name);
+    } else if (node.type === 'if') {
+      names.add(node.name);
+      visit(node.then);
+      visit(node.else);
+    }
+  });
+  visit(nodes);
+  return Array.from(names);
+}
+
+// Variables that aren't given render as empty text; check templates with
+// templateVariables when they're loaded rather than relying on that
+export function renderTemplate(nodes: TemplateNode[], variables: TemplateVariables): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.text;
+    }
+    if (node.type === 'variable') {
+      return node.filters.reduce((value, filter) => FILTERS[filter.name].apply(value, filter.args), valueText(variables[node.name]));
+    }
+    const isSet = valueText(variables[node.name]).trim() !== '';
+    return renderTemplate(isSet !== node.negate ? node.then : node.else, variables);
+  }).join('');
+}
+
+function valueText(value: TemplateValue): string {
+  return value === undefined ? '' : String(value);
+}
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import { ApprovalStore, PostCandidate } from './approval-store';
+import { AgentConfig, loadConfig } from './config';
+
+// Review posts the agent is holding in approval mode (postingMode "approval"):
+//   npm run review -- list [--all]                 pending posts (--all: every status)
+//   npm run review -- show <id>                    full text, article and rating
+//   npm run review -- approve <id> [--at <time>]   release to the tweet queue
+//   npm run review -- reject <id> [--reason <text>]
+//   npm run review -- edit <id> <text> | --file <path>
+//   npm run review -- reschedule <id> <time>
+// Ids can be shortened to any unambiguous prefix. Times are ISO dates ("2025-03-01T09:30")
+// or offsets from now ("+30m", "+2h", "+1d"). Settings flags such as --approval-file or
+// --config work as they do for the agent.
+const REVIEW_FLAGS = ['--all', '--at', '--reason', '--file'];
+const args = process.argv.slice(2);
+
+function flagValue(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Words that aren't flags or flag values: the subcommand and its arguments
+function positionalArgs(): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      // Every flag but --all takes a value, unless it's given inline as --flag=value
+      if (args[i] !== '--all' && !args[i].includes('=')) {
+        i++;
+      }
+      continue;
+    }
+    positional.push(args[i]);
+  }
+  return positional;
+}
+
+function parseReviewTime(text: string, now: Date = new Date()): Date {
+  const offset = text.match(/^\+(\d+)\s*([mhd])$/i);
+  if (offset) {
+    const minutes = { m: 1, h: 60, d: 24 * 60 }[offset[2].toLowerCase() as 'm' | 'h' | 'd'];
+    return new Date(now.getTime() + Number(offset[1]) * minutes * 60 * 1000);
+  }
+
+  const date = new Date(text);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Can't read "${text}" as a time; use an ISO date like 2025-03-01T09:30 or an offset like +2h`);
+  }
+  return date;
+}
+
+function formatTime(iso: string | undefined, config: AgentConfig): string {
+  if (!iso) {
+    return '-';
+  }
+  return new Date(iso).toLocaleString('en-GB', { timeZone: config.timeZone, dateStyle: 'short', timeStyle: 'short' });
+}
+
+function printSummaryLine(candidate: PostCandidate, config: AgentConfig): void {
+  const rating = candidate.rating ? `${candidate.rating.tier}, ${candidate.rating.score}` : 'unrated';
+  const firstLine = candidate.text.split('\n').find(line => line.trim()) || '';
+  const scheduled = candidate.scheduledFor ? ` at ${formatTime(candidate.scheduledFor, config)}` : '';
+
+  console.log(`${candidate.id}  ${candidate.status}${scheduled}  [${rating}]  ${formatTime(candidate.createdAt, config)}`);
+  console.log(`    ${firstLine.length > 100 ? firstLine.slice(0, 99) + '…' : firstLine}`);
+}
+
+function printCandidate(candidate: PostCandidate, config: AgentConfig): void {
+  console.log(`Id:         ${candidate.id}`);
+  console.log(`Status:     ${candidate.status}${candidate.rejectReason ? ` (${candidate.rejectReason})` : ''}`);
+  console.log(`Created:    ${formatTime(candidate.createdAt, config)}`);
+  console.log(`Scheduled:  ${candidate.scheduledFor ? formatTime(candidate.scheduledFor, config) : 'as soon as the queue allows'}`);
+
+  if (candidate.article) {
+    const article = candidate.article;
+    console.log(`Article:    ${article.title}`);
+    console.log(`            ${article.journal}, ${article.publicationDate} (${article.source} ${article.id})`);
+    if (article.doi) {
+      console.log(`            https://doi.org/${article.doi}`);
+    }
+  } else if (candidate.articleId) {
+    console.log(`Article:    ${candidate.articleId}`);
+  }
+
+  if (candidate.rating) {
+    console.log(`Rating:     ${candidate.rating.tier} evidence, score ${candidate.rating.score}`);
+    console.log(`            ${candidate.rating.explanation}`);
+  }
+
+  console.log('\n--------------------');
+  console.log(candidate.text);
+  console.log('--------------------');
+  if (candidate.text !== candidate.generatedText) {
+    console.log('(edited; the generated text was:)');
+    console.log(candidate.generatedText);
+  }
+}
+
+function run(store: ApprovalStore, config: AgentConfig): void {
+  const [command, id, ...rest] = positionalArgs();
+
+  const requireId = () => {
+    if (!id) {
+      throw new Error(`Usage: review ${command} <id>`);
+    }
+    return id;
+  };
+
+  switch (command) {
+    case undefined:
+    case 'list': {
+      const candidates = args.includes('--all') ? store.list() : store.list('pending');
+      if (candidates.length === 0) {
+        console.log(args.includes('--all') ? 'No posts have been submitted for review.' : 'Nothing awaiting review.');
+        return;
+      }
+      candidates.forEach(candidate => printSummaryLine(candidate, config));
+      return;
+    }
+
+    case 'show':
+      printCandidate(store.find(requireId()), config);
+      return;
+
+    case 'approve': {
+      const target = requireId();
+      const at = flagValue('--at');
+      if (at) {
+        store.reschedule(target, parseReviewTime(at));
+      }
+      const candidate = store.approve(target);
+      console.log(`Approved ${candidate.id}; the agent queues it on its next queue check` +
+        (candidate.scheduledFor ? ` and posts it after ${formatTime(candidate.scheduledFor, config)}` : ''));
+      return;
+    }
+
+    case 'reject': {
+      const candidate = store.reject(requireId(), flagValue('--reason'));
+      console.log(`Rejected ${candidate.id}`);
+      return;
+    }
+
+    case 'edit': {
+      const file = flagValue('--file');
+      const text = file ? fs.readFileSync(file, 'utf8').trim() : rest.join(' ');
+      const candidate = store.edit(requireId(), text);
+      console.log(`Updated ${candidate.id}:\n${candidate.text}`);
+      return;
+    }
+
+    case 'reschedule': {
+      const target = requireId();
+      if (rest.length === 0) {
+        throw new Error('Usage: review reschedule <id> <time>');
+      }
+      const candidate = store.reschedule(target, parseReviewTime(rest.join(' ')));
+      console.log(`${candidate.id} will be posted after ${formatTime(candidate.scheduledFor, config)}`);
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown review command "${command}". Commands: list, show, approve, reject, edit, reschedule`);
+  }
+}
+
+try {
+  const config = loadConfig({ argv: args, passThroughFlags: REVIEW_FLAGS });
+  const store = new ApprovalStore(config.approvalFile);
+  store.load();
+  run(store, config);
+} catch (error) {
+  // Config problems and bad ids or transitions all end up here
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PostError, PostResult, SocialClient, ThreadResult, TweetMetrics } from './social-client';
+import { StudyDesign } from './rating-engine';
+import { MAX_TWEET_LENGTH, twitterLength, truncateForTweet } from './thread-composer';
+
+// Last check on everything the bot says in public. Early-stage research gets a caveat and
+// loses its hype, personal medical advice is never given, and health content carries a
+// "not medical advice" footer. Every rewrite and block is logged with its reasons.
+
+export type SafetyAction = 'allow' | 'rewrite' | 'block';
+
+export interface SafetyContext {
+  kind: 'post' | 'reply';
+  // What we know about the study the text is about, when it's about one
+  design?: StudyDesign;
+  sampleSize?: number;
+  isPreprint?: boolean;
+  // Whether the text will be posted as a single tweet (and so must fit in one)
+  singleTweet?: boolean;
+}
+
+export interface SafetyVerdict {
+  action: SafetyAction;
+  text: string;
+  reasons: string[];
+}
+
+export interface SafetyLogEntry {
+  at: string;
+  action: SafetyAction;
+  kind: SafetyContext['kind'] | 'request';
+  reasons: string[];
+  original: string;
+  result?: string;
+}
+
+export type EarlyStage = 'animal' | 'in-vitro' | 'pilot' | 'early-phase';
+
+const CAVEATS: {[stage in EarlyStage]: string} = {
+  'animal': '🐭 Heads up: this was tested in animals, not people (yet).',
+  'in-vitro': '🧫 Heads up: lab study in cells, not tested in people (yet).',
+  'pilot': '🔎 Heads up: small pilot study, so treat it as a first look.',
+  'early-phase': '🔎 Heads up: early-phase study with few participants, results may not hold up.'
+};
+
+export const MEDICAL_ADVICE_FOOTER = 'Not medical advice.';
+
+// Wording that oversells a result; never acceptable on early-stage work
+const HYPE = /\b(breakthrough|game[- ]?chang(er|ing)|miracle|revolutionar(y|ize)|changes everything|cure for|cures?\b(?! rate)|this is huge|literally shaking|witnessing history|mind-?blowing|insane|can't stress enough)/i;
+
+// Text cues for early-stage work, used when no rating context comes with the text
+const TEXT_STAGES: [RegExp, EarlyStage][] = [
+  [/\b(in|of|treated|aged|transgenic|knockout) (mice|rats|mouse|zebrafish|primates|pigs)\b|\bmouse models?\b|\bmurine\b|\banimal (model|study)\b/i, 'animal'],
+  [/\bin vitro\b|\bcell lines?\b|\bcultured cells\b|\borganoids?\b|\bpetri dish\b/i, 'in-vitro'],
+  [/\bpilot (study|trial)\b|\bfeasibility (study|trial)\b/i, 'pilot'],
+  [/\bphase (1|i)\b(?!i)|\bfirst-in-human\b/i, 'early-phase']
+];
+
+// Health findings that should carry the footer: a health subject plus a claimed result
+const HEALTH_CONTENT = /\b(treatment|therapy|therapies|drug|medication|dose|dosing|supplement|vaccin\w*|diet|surgery|trial|patients|symptoms?|disease|cancer|infection)\b/i;
+const FINDING = /\b(found|finds|shows?|showed|linked|associated|reduc\w*|lower\w*|increas\w*|improv\w*|effective|risk|prevent\w*|benefit\w*)\b/i;
+
+// Questions asking for personal advice rather than what the research says
+const ADVICE_REQUESTS = [
+  /\bshould i (take|stop|start|try|use|get|switch|skip|keep|be taking|quit|double)\b/i,
+  /\b(is it|would it be) (safe|ok|okay|bad|dangerous) (for me )?to\b/i,
+  /\bcan i (take|stop|mix|combine|drink|skip|double|get)\b/i,
+  /\bhow (much|many)\b.*\b(should|can|do) i take\b/i,
+  /\bwhat (dose|dosage)\b.*\b(i|me|my)\b/i,
+  /\b(do|could|might) i have\b.*\b(cancer|disease|infection|covid|diabetes|syndrome|disorder|condition)\b/i,
+  /\b(my|i have|i've got|i'm having) .*\b(symptoms?|diagnosis|prescription|medication|meds)\b.*\?/i
+];
+
+// Outgoing wording that would amount to personal advice
+const OUTGOING_ADVICE = /\byou should (take|stop|start|try|use|switch to|get)\b|\b(take|try) \d+(\.\d+)? ?(mg|mcg|g|iu|ml)\b/i;
+
+// What the poster gets back for a blocked post: it will never go out, so don't retry it
+const BLOCKED: PostError = { kind: 'rejected', message: 'blocked by the safety guard' };
+
+export interface SafetyGuardOptions {
+  // JSONL file every rewrite, block and refused request is appended to
+  logFile?: string;
+}
+
+export class SafetyGuard {
+  private logFile?: string;
+
+  constructor(options: SafetyGuardOptions = {}) {
+    this.logFile = options.logFile;
+    if (this.logFile) {
+      fs.mkdirSync(path.dirname(this.logFile), { recursive: true });
+    }
+  }
+
+  review(text: string, context: SafetyContext): SafetyVerdict {
+    const reasons: string[] = [];
+
+    if (OUTGOING_ADVICE.test(text)) {
+      return this.finish(text, context, { action: 'block', text: '', reasons: ['reads as personal medical advice'] });
+    }
+
+    const stages = this.detectEarlyStages(text, context);
+    let body = text;
+
+    // Preprints carry their own label, so they get no caveat, but no hype either
+    if (stages.length > 0 || context.isPreprint) {
+      const dehyped = removeHype(body);
+      if (dehyped !== body) {
+        reasons.push(`removed hype from ${stages.length > 0 ? stages.join('/') : 'preprint'} work`);
+        body = dehyped;
+      }
+      if (!body.trim()) {
+        return this.finish(text, context, { action: 'block', text: '', reasons: [...reasons, 'nothing left after removing hype'] });
+      }
+    }
+
+    // Caveats go first, like the preprint label, so they survive truncation and lead a thread
+    const missingCaveats = stages.map(stage => CAVEATS[stage]).filter(caveat => !body.includes(caveat));
+    const prefix = missingCaveats.length > 0 ? missingCaveats.join('\n') + '\n\n' : '';
+    if (missingCaveats.length > 0) {
+      reasons.push(`added caveat for ${stages.join('/')} work`);
+    }
+
+    const needsFooter = HEALTH_CONTENT.test(body) && FINDING.test(body) && !body.includes(MEDICAL_ADVICE_FOOTER);
+    const suffix = needsFooter ? `\n\n${MEDICAL_ADVICE_FOOTER}` : '';
+    if (needsFooter) {
+      reasons.push('added medical advice footer');
+    }
+
+    // A single tweet has to fit with the caveat and footer included; trim the body instead
+    if (context.singleTweet) {
+      const room = MAX_TWEET_LENGTH - twitterLength(prefix) - twitterLength(suffix);
+      if (twitterLength(body) > room) {
+        body = truncateForTweet(body, room);
+      }
+    }
+
+    // Replies open with the @handles they answer; the caveat goes right after them
+    const handles = (body.match(/^(@\w+\s+)+/) || [''])[0];
+    const result = handles + prefix + body.slice(handles.length) + suffix;
+    return this.finish(text, context, {
+      action: result === text ? 'allow' : 'rewrite',
+      text: result,
+      reasons
+    });
+  }
+
+  isAdviceRequest(text: string): boolean {
+    return ADVICE_REQUESTS.some(pattern => pattern.test(text));
+  }
+
+  // Reply for personal-advice questions; also logs that we refused
+  refuseAdvice(question: string): string {
+    this.log({
+      at: new Date().toISOString(),
+      action: 'block',
+      kind: 'request',
+      reasons: ['asked for personal medical advice'],
+      original: question
+    });
+
+    return "I can't give personal medical advice 🙏 Please ask your doctor or pharmacist about your situation. " +
+      "I'm happy to share what the research says though: try /search <topic>!";
+  }
+
+  detectEarlyStages(text: string, context: SafetyContext): EarlyStage[] {
+    const stages = new Set<EarlyStage>();
+
+    if (context.design === 'animal' || context.design === 'in-vitro') {
+      stages.add(context.design);
+    }
+    if ((context.design === 'rct' || context.design === 'controlled-trial') &&
+      context.sampleSize !== undefined && context.sampleSize < 30) {
+      stages.add('early-phase');
+    }
+
+    for (const [pattern, stage] of TEXT_STAGES) {
+      if (pattern.test(text) && !text.includes(CAVEATS[stage])) {
+        stages.add(stage);
+      }
+    }
+
+    // A caveat we added earlier means the stage is already known
+    for (const stage of Object.keys(CAVEATS) as EarlyStage[]) {
+      if (text.includes(CAVEATS[stage])) {
+        stages.add(stage);
+      }
+    }
+
+    return Array.from(stages);
+  }
+
+  private finish(original: string, context: SafetyContext, verdict: SafetyVerdict): SafetyVerdict {
+    if (verdict.action !== 'allow') {
+      this.log({
+        at: new Date().toISOString(),
+        action: verdict.action,
+        kind: context.kind,
+        reasons: verdict.reasons,
+        original,
+        result: verdict.action === 'rewrite' ? verdict.text : undefined
+      });
+    }
+    return verdict;
+  }
+
+  private log(entry: SafetyLogEntry): void {
+    console.log(`[safety] ${entry.action} ${entry.kind}: ${entry.reasons.join('; ')}`);
+
+    if (!this.logFile) {
+      return;
+    }
+    try {
+      fs.appendFileSync(this.logFile, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      console.error('Error writing safety log:', error);
+    }
+  }
+}
+
+// Drop every sentence (or line) that contains hype; keep the rest as written
+function removeHype(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line
+      .split(/(?<=[.!?])\s+/)
+      .filter(sentence => !HYPE.test(sentence))
+      .join(' '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Wraps a SocialClient so nothing is posted without passing the guard. Threads are
+// reviewed as a whole before they're split, so the footer lands once, at the end.
+export class GuardedSocialClient implements SocialClient {
+  private inner: SocialClient;
+  private guard: SafetyGuard;
+
+  constructor(inner: SocialClient, guard: SafetyGuard) {
+    this.inner = inner;
+    this.guard = guard;
+  }
+
+  waitUntilReady(): Promise<boolean> {
+    return this.inner.waitUntilReady();
+  }
+
+  async postTweet(text: string): Promise<string | null> {
+    const verdict = this.guard.review(text, { kind: 'post', singleTweet: true });
+    return verdict.action === 'block' ? null : this.inner.postTweet(verdict.text);
+  }
+
+  async replyToTweet(tweetId: string, text: string): Promise<string | null> {
+    const verdict = this.guard.review(text, { kind: 'reply', singleTweet: true });
+    return verdict.action === 'block' ? null : this.inner.replyToTweet(tweetId, verdict.text);
+  }
+
+  async sendTweet(text: string, replyToId: string | null = null): Promise<PostResult> {
+    const verdict = this.guard.review(text, { kind: replyToId ? 'reply' : 'post', singleTweet: true });
+    return verdict.action === 'block' ? { ok: false, error: BLOCKED } : this.inner.sendTweet(verdict.text, replyToId);
+  }
+
+  // The review gives the same text every time, so a resumed thread splits the same way
+  // and the footer still closes it
+  async postThread(text: string, postedIds: string[] = []): Promise<ThreadResult> {
+    const verdict = this.guard.review(text, { kind: 'post' });
+    return verdict.action === 'block' ? { tweetIds: postedIds, error: BLOCKED } : this.inner.postThread(verdict.text, postedIds);
+  }
+
+  async replyWithThread(tweetId: string, text: string, prefix?: string): Promise<string[]> {
+    const verdict = this.guard.review(text, { kind: 'reply' });
+    return verdict.action === 'block' ? [] : this.inner.replyWithThread(tweetId, verdict.text, prefix);
+  }
+
+  setupMentionListener(callback: (tweet: any) => Promise<void>): Promise<void> {
+    return this.inner.setupMentionListener(callback);
+  }
+
+  searchTweets(query: string, maxResults?: number): Promise<any[]> {
+    return this.inner.searchTweets(query, maxResults);
+  }
+
+  getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>> {
+    return this.inner.getTweetMetrics(tweetIds);
+  }
+}
@@ -0,0 +1,397 @@
+import { RandomSource } from './random';
+
+// Cron-style job scheduler with a fixed time zone, posting windows, jitter and
+// catch-up of runs missed while the process was down.
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;     // 1-12
+  day: number;       // 1-31
+  hour: number;      // 0-23
+  minute: number;    // 0-59
+  weekday: number;   // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Wall-clock fields of an instant as seen in the given IANA time zone
+export function zonedDateParts(date: Date, timeZone: string = systemTimeZone()): ZonedDateParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: {[type: string]: string} = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,   // some engines render midnight as "24"
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+// Calendar day (YYYY-MM-DD) of an instant in the given time zone
+export function zonedDay(date: Date = new Date(), timeZone?: string): string {
+  const { year, month, day } = zonedDateParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+// A standard five-field cron expression: minute hour day-of-month month day-of-week.
+// Fields accept *, numbers, ranges (1-5), lists (1,15) and steps (*/4, 8-20/2).
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private domRestricted: boolean;
+  private dowRestricted: boolean;
+
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const fields = this.source.split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+
+    this.minutes = parseCronField(fields[0], 0, 59, expression);
+    this.hours = parseCronField(fields[1], 0, 23, expression);
+    this.daysOfMonth = parseCronField(fields[2], 1, 31, expression);
+    this.months = parseCronField(fields[3], 1, 12, expression);
+    // Both 0 and 7 mean Sunday
+    this.daysOfWeek = new Set(Array.from(parseCronField(fields[4], 0, 7, expression)).map(d => d % 7));
+    this.domRestricted = fields[2] !== '*';
+    this.dowRestricted = fields[4] !== '*';
+  }
+
+  matches(parts: ZonedDateParts): boolean {
+    return this.months.has(parts.month) &&
+      this.dayMatches(parts) &&
+      this.hours.has(parts.hour) &&
+      this.minutes.has(parts.minute);
+  }
+
+  // First matching minute strictly after `after`
+  nextAfter(after: Date, timeZone: string): Date {
+    let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+    const limit = time + 366 * 24 * 60 * MINUTE;
+
+    while (time < limit) {
+      const parts = zonedDateParts(new Date(time), timeZone);
+      const minutesLeftInDay = 24 * 60 - parts.hour * 60 - parts.minute;
+
+      if (!this.months.has(parts.month) || !this.dayMatches(parts)) {
+        time += minutesLeftInDay * MINUTE;
+      } else if (!this.hours.has(parts.hour)) {
+        time += (60 - parts.minute) * MINUTE;
+      } else if (!this.minutes.has(parts.minute)) {
+        time += MINUTE;
+      } else {
+        return new Date(time);
+      }
+    }
+
+    throw new Error(`Cron expression "${this.source}" never matches within a year`);
+  }
+
+  // Classic cron rule: when both day fields are restricted, either one may match
+  private dayMatches(parts: ZonedDateParts): boolean {
+    const domMatch = this.daysOfMonth.has(parts.day);
+    const dowMatch = this.daysOfWeek.has(parts.weekday);
+
+    if (this.domRestricted && this.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+}
+
+function parseCronField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}" in "${expression}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (match[2] !== undefined) {
+      start = Number(match[2]);
+      // "5/15" means "starting at 5, every 15"; a bare "5" is just 5
+      end = match[3] !== undefined ? Number(match[3]) : (match[4] !== undefined ? max : start);
+    }
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" out of range ${min}-${max} in "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// A daily time range such as "08:00-22:00"; ranges that end before they start wrap past midnight
+export interface PostingWindow {
+  startMinute: number;
+  endMinute: number;
+}
+
+export function parsePostingWindows(spec: string): PostingWindow[] {
+  return spec.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      throw new Error(`Invalid posting window "${part}", expected HH:MM-HH:MM`);
+    }
+
+    const [startHour, startMin, endHour, endMin] = match.slice(1).map(Number);
+    // 24:00 is the end of the day; 24:30 would be a minute no day reaches
+    const invalidTime = (hour: number, minute: number) => hour > 24 || minute > 59 || (hour === 24 && minute > 0);
+    if (invalidTime(startHour, startMin) || invalidTime(endHour, endMin)) {
+      throw new Error(`Invalid posting window "${part}"`);
+    }
+
+    return { startMinute: startHour * 60 + startMin, endMinute: endHour * 60 + endMin };
+  });
+}
+
+// Whether the wall-clock time of `date` in `timeZone` falls in any of the windows
+export function isWithinWindows(windows: PostingWindow[], date: Date, timeZone: string): boolean {
+  const { hour, minute } = zonedDateParts(date, timeZone);
+  const minuteOfDay = hour * 60 + minute;
+
+  return windows.some(window => window.startMinute <= window.endMinute
+    ? minuteOfDay >= window.startMinute && minuteOfDay < window.endMinute
+    : minuteOfDay >= window.startMinute || minuteOfDay < window.endMinute
+  );
+}
+
+// Persists when each job last ran, so missed runs can be caught up after a restart
+export interface JobRunStore {
+  getJobRuns(): {[jobName: string]: string};
+  recordJobRun(jobName: string, at: Date): void;
+}
+
+export interface JobDefinition {
+  name: string;
+  cron: string;
+  run: () => Promise<void> | void;
+  // Random delay of up to this many minutes added to each run
+  jitterMinutes?: number;
+  // Skip runs that fall outside the allowed posting windows
+  onlyInPostingWindow?: boolean;
+  // Run once at startup if a scheduled run was missed while we were down
+  catchUp?: boolean;
+}
+
+export interface JobStatus {
+  name: string;
+  cron: string;
+  lastRun: Date | null;
+  nextRun: Date | null;
+  running: boolean;
+}
+
+interface ScheduledJob {
+  definition: JobDefinition;
+  cron: CronExpression;
+  lastRun: Date | null;
+  nextRun: Date | null;
+  running: boolean;
+}
+
+export interface SchedulerOptions {
+  timeZone?: string;
+  postingWindows?: PostingWindow[];
+  store?: JobRunStore;
+  tickMs?: number;
+  // Picks each jitter delay; pass a seeded one for the same schedule on every run
+  random?: RandomSource;
+  // The current time; a fake clock for tests
+  now?: () => Date;
+}
+
+export class Scheduler {
+  readonly timeZone: string;
+  private postingWindows: PostingWindow[];
+  private store?: JobRunStore;
+  private tickMs: number;
+  private random: RandomSource;
+  private now: () => Date;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.timeZone = options.timeZone || systemTimeZone();
+    this.postingWindows = options.postingWindows || [];
+    this.store = options.store;
+    this.tickMs = options.tickMs || 30 * 1000;
+    this.random = options.random || Math.random;
+    this.now = options.now || (() => new Date());
+
+    if (!isValidTimeZone(this.timeZone)) {
+      throw new Error(`Unknown time zone "${this.timeZone}"`);
+    }
+  }
+
+  addJob(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`A job named "${definition.name}" is already scheduled`);
+    }
+
+    const job: ScheduledJob = {
+      definition,
+      cron: new CronExpression(definition.cron),
+      lastRun: null,
+      nextRun: null,
+      running: false
+    };
+
+    this.jobs.set(definition.name, job);
+
+    // Jobs added after start() get scheduled straight away
+    if (this.timer) {
+      this.scheduleNext(job, this.now());
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const now = this.now();
+    const lastRuns = this.store ? this.store.getJobRuns() : {};
+
+    for (const job of this.jobs.values()) {
+      job.lastRun = lastRuns[job.definition.name] ? new Date(lastRuns[job.definition.name]) : null;
+      this.scheduleNext(job, now);
+
+      // A run was due between the last recorded run and now: do it right away
+      if (job.definition.catchUp && job.lastRun && job.cron.nextAfter(job.lastRun, this.timeZone) <= now) {
+        console.log(`Catching up on missed run of job "${job.definition.name}"`);
+        job.nextRun = now;
+      }
+    }
+
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getJobs(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.definition.name,
+      cron: job.definition.cron,
+      lastRun: job.lastRun,
+      nextRun: job.nextRun,
+      running: job.running
+    }));
+  }
+
+  isWithinPostingWindow(date: Date = this.now()): boolean {
+    if (this.postingWindows.length === 0) {
+      return true;
+    }
+
+    return isWithinWindows(this.postingWindows, date, this.timeZone);
+  }
+
+  // Run a job now, outside its schedule
+  async runJob(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`No job named "${name}"`);
+    }
+    await this.execute(job, this.now());
+  }
+
+  private tick(): void {
+    const now = this.now();
+
+    for (const job of this.jobs.values()) {
+      if (job.nextRun && job.nextRun <= now && !job.running) {
+        if (job.definition.onlyInPostingWindow && !this.isWithinPostingWindow(now)) {
+          console.log(`Skipping job "${job.definition.name}": outside posting window`);
+          this.scheduleNext(job, now);
+          continue;
+        }
+
+        this.execute(job, now);
+      }
+    }
+  }
+
+  private async execute(job: ScheduledJob, now: Date): Promise<void> {
+    job.running = true;
+    job.lastRun = now;
+    this.scheduleNext(job, now);
+
+    // Only catch-up jobs need their history; frequent pollers would just bloat the store
+    if (this.store && job.definition.catchUp) {
+      this.store.recordJobRun(job.definition.name, now);
+    }
+
+    try {
+      await job.definition.run();
+    } catch (error) {
+      console.error(`Error in scheduled job "${job.definition.name}":`, error);
+    } finally {
+      job.running = false;
+    }
+  }
+
+  private scheduleNext(job: ScheduledJob, after: Date): void {
+    const jitter = job.definition.jitterMinutes
+      ? Math.floor(this.random() * job.definition.jitterMinutes * MINUTE)
+      : 0;
+
+    job.nextRun = new Date(job.cron.nextAfter(after, this.timeZone).getTime() + jitter);
+  }
+}
@@ -0,0 +1,87 @@
+// Why a post didn't go out. "rate-limited" and "unavailable" are worth another try
+// later; "rejected" (the content itself was refused, e.g. by the safety guard or as
+// spam) and "unauthorized" will fail the same way every time.
+export type PostErrorKind = 'rate-limited' | 'unavailable' | 'rejected' | 'unauthorized';
+
+export interface PostError {
+  kind: PostErrorKind;
+  message: string;
+  status?: number;      // HTTP status, when there was a response
+  retryAt?: Date;       // for rate limits: when the window resets
+}
+
+export type PostResult =
+  | { ok: true; id: string }
+  // Already posted by an earlier attempt; the platform doesn't tell us the ID
+  | { ok: true; id: null; duplicate: true }
+  | { ok: false; error: PostError };
+
+export interface ThreadResult {
+  tweetIds: string[];
+  // The first part turned out to be posted already
+  duplicate?: boolean;
+  // Why the thread stopped short, if it did
+  error?: PostError;
+}
+
+// Public counts for one tweet, as the platform reports them at the time of asking
+export interface TweetMetrics {
+  impressions: number;
+  likes: number;
+  replies: number;
+  retweets: number;
+  quotes: number;
+}
+
+export function isRetryable(error: PostError): boolean {
+  return error.kind === 'rate-limited' || error.kind === 'unavailable';
+}
+
+// The posting surface the agent needs from a social network. TwitterClient talks to
+// the real API; FakeSocialClient records everything locally for dry runs.
+export interface SocialClient {
+  waitUntilReady(): Promise<boolean>;
+  postTweet(text: string): Promise<string | null>;
+  replyToTweet(tweetId: string, text: string): Promise<string | null>;
+  // postTweet or replyToTweet, with the reason when it fails
+  sendTweet(text: string, replyToId?: string | null): Promise<PostResult>;
+  // postedIds: the parts an earlier attempt got out; the thread carries on after them
+  postThread(text: string, postedIds?: string[]): Promise<ThreadResult>;
+  replyWithThread(tweetId: string, text: string, prefix?: string): Promise<string[]>;
+  setupMentionListener(callback: (tweet: any) => Promise<void>): Promise<void>;
+  searchTweets(query: string, maxResults?: number): Promise<any[]>;
+  // Metrics for our own tweets, by ID; tweets that are gone or couldn't be read are left out
+  getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>>;
+}
+
+// Post thread parts as a reply chain: the first part as a new tweet (or as a reply to
+// replyToId), each following part as a reply to the one before. Returns the IDs
+// posted so far and stops at the first failure. With postedIds, the parts those IDs
+// belong to are already out and the rest continue from the last of them.
+export async function postThreadParts(
+  client: SocialClient,
+  parts: string[],
+  replyToId: string | null,
+  postedIds: string[] = []
+): Promise<ThreadResult> {
+  const tweetIds: string[] = [...postedIds];
+  let parentId = postedIds.length > 0 ? postedIds[postedIds.length - 1] : replyToId;
+
+  for (const part of parts.slice(postedIds.length)) {
+    const result = await client.sendTweet(part, parentId);
+
+    if (!result.ok) {
+      console.error(`Thread interrupted after ${tweetIds.length} of ${parts.length} tweets`);
+      return { tweetIds, error: result.error };
+    }
+    if (result.id === null) {
+      // Without its ID there's nothing to hang the rest of the thread on
+      return { tweetIds, duplicate: tweetIds.length === 0 };
+    }
+
+    tweetIds.push(result.id);
+    parentId = result.id;
+  }
+
+  return { tweetIds };
+}
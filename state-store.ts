@@ -0,0 +1,289 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PubMedArticle, ArticleRating } from './pubmed-agent';
+import { JobRunStore, zonedDay } from './scheduler';
+import { MentionCheckpointStore } from './mention-poller';
+import { PostAttribution } from './engagement-store';
+
+// Durable agent state, kept as an append-only JSON Lines log. Every change is one
+// event line; on load the log is replayed to rebuild the in-memory view, and it is
+// compacted into a snapshot once it grows past a threshold.
+
+export interface ArticleRecord {
+  id: string;
+  source: string;
+  title: string;
+  consideredAt: string;
+  rating?: ArticleRating;
+  tweetText?: string;
+  tweetId?: string;
+  threadTweetIds?: string[];
+  postedAt?: string;
+}
+
+export interface QueuedTweet {
+  id: string;
+  text: string;
+  time: Date;
+  articleId?: string;
+  attribution?: PostAttribution;
+  // Parts of a thread that broke off midway; the rest go out as replies to the last
+  postedIds?: string[];
+}
+
+export interface TweetCounters {
+  day: string;               // calendar day (YYYY-MM-DD, bot time zone) the count belongs to
+  tweetsPostedToday: number;
+  lastTweetTime?: string;
+}
+
+type StateEvent =
+  | { type: 'article'; at: string; record: ArticleRecord }
+  | { type: 'tweet'; at: string; articleId?: string; text: string; tweetId?: string; threadTweetIds?: string[] }
+  | { type: 'queue-add'; at: string; entry: { id: string; text: string; time: string; articleId?: string; attribution?: PostAttribution; postedIds?: string[] } }
+  | { type: 'queue-progress'; at: string; id: string; postedIds: string[] }
+  | { type: 'queue-remove'; at: string; id: string }
+  | { type: 'counters'; at: string; counters: TweetCounters }
+  | { type: 'job-run'; at: string; job: string }
+  | { type: 'mention-checkpoint'; at: string; sinceId: string };
+
+const COMPACT_AFTER_LINES = 5000;
+
+export class StateStore implements JobRunStore, MentionCheckpointStore {
+  private filePath: string;
+  private timeZone?: string;
+  private articles: Map<string, ArticleRecord> = new Map();
+  private queue: QueuedTweet[] = [];
+  private counters: TweetCounters = { day: zonedDay(), tweetsPostedToday: 0 };
+  private jobRuns: {[jobName: string]: string} = {};
+  private mentionSinceId?: string;
+  private lineCount: number = 0;
+
+  // timeZone decides where "today" starts for the daily counters
+  constructor(filePath: string, timeZone?: string) {
+    this.filePath = filePath;
+    this.timeZone = timeZone;
+  }
+
+  private today(): string {
+    return zonedDay(new Date(), this.timeZone);
+  }
+
+  // Replay the log from disk. Safe to call when the file doesn't exist yet. Readers in
+  // another process (such as the engagement report) pass readOnly, so they never rewrite
+  // a log the agent may be appending to.
+  load(options: { readOnly?: boolean } = {}): void {
+    this.articles.clear();
+    this.queue = [];
+    this.counters = { day: this.today(), tweetsPostedToday: 0 };
+    this.jobRuns = {};
+    this.mentionSinceId = undefined;
+    this.lineCount = 0;
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        this.apply(JSON.parse(line));
+        this.lineCount++;
+      } catch (error) {
+        // A crash mid-write can leave a truncated last line; skip it rather than refuse to start
+        console.warn(`Skipping unreadable state entry at ${this.filePath}:${index + 1}`);
+      }
+    }
+
+    if (this.lineCount > COMPACT_AFTER_LINES && !options.readOnly) {
+      this.compact();
+    }
+  }
+
+  hasSeenArticle(id: string): boolean {
+    return this.articles.has(id);
+  }
+
+  getArticle(id: string): ArticleRecord | undefined {
+    return this.articles.get(id);
+  }
+
+  getArticles(): ArticleRecord[] {
+    return Array.from(this.articles.values());
+  }
+
+  getQueue(): QueuedTweet[] {
+    return this.queue.map(entry => ({ ...entry }));
+  }
+
+  // Counters for today; a count saved on an earlier day reads as zero
+  getCounters(): TweetCounters {
+    if (this.counters.day !== this.today()) {
+      return { day: this.today(), tweetsPostedToday: 0, lastTweetTime: this.counters.lastTweetTime };
+    }
+    return { ...this.counters };
+  }
+
+  recordArticle(article: PubMedArticle, rating?: ArticleRating): void {
+    const existing = this.articles.get(article.id);
+
+    this.append({
+      type: 'article',
+      at: new Date().toISOString(),
+      record: {
+        ...existing,
+        id: article.id,
+        source: article.source,
+        title: article.title,
+        consideredAt: existing ? existing.consideredAt : new Date().toISOString(),
+        rating: rating || (existing && existing.rating)
+      }
+    });
+  }
+
+  // tweetId is the first (or only) tweet; threadTweetIds lists every part of a thread
+  recordTweet(text: string, tweetId?: string, articleId?: string, threadTweetIds?: string[]): void {
+    this.append({ type: 'tweet', at: new Date().toISOString(), articleId, text, tweetId, threadTweetIds });
+  }
+
+  enqueue(entry: QueuedTweet): void {
+    this.append({
+      type: 'queue-add',
+      at: new Date().toISOString(),
+      entry: { id: entry.id, text: entry.text, time: entry.time.toISOString(), articleId: entry.articleId, attribution: entry.attribution }
+    });
+  }
+
+  // The IDs a queued thread has out so far, after it broke off midway
+  saveQueueProgress(id: string, postedIds: string[]): void {
+    this.append({ type: 'queue-progress', at: new Date().toISOString(), id, postedIds });
+  }
+
+  dequeue(id: string): void {
+    this.append({ type: 'queue-remove', at: new Date().toISOString(), id });
+  }
+
+  saveCounters(tweetsPostedToday: number, lastTweetTime?: Date): void {
+    this.append({
+      type: 'counters',
+      at: new Date().toISOString(),
+      counters: {
+        day: this.today(),
+        tweetsPostedToday,
+        lastTweetTime: lastTweetTime ? lastTweetTime.toISOString() : this.counters.lastTweetTime
+      }
+    });
+  }
+
+  getJobRuns(): {[jobName: string]: string} {
+    return { ...this.jobRuns };
+  }
+
+  recordJobRun(jobName: string, at: Date): void {
+    this.append({ type: 'job-run', at: at.toISOString(), job: jobName });
+  }
+
+  // Newest mention already handled; polling resumes after it
+  getMentionSinceId(): string | undefined {
+    return this.mentionSinceId;
+  }
+
+  saveMentionSinceId(id: string): void {
+    this.append({ type: 'mention-checkpoint', at: new Date().toISOString(), sinceId: id });
+  }
+
+  // Rewrite the log as the minimal set of events that reproduces the current state
+  compact(): void {
+    const at = new Date().toISOString();
+    const events: StateEvent[] = [
+      ...Array.from(this.articles.values()).map(record => ({ type: 'article' as const, at, record })),
+      ...this.queue.map(entry => ({
+        type: 'queue-add' as const,
+        at,
+        entry: {
+          id: entry.id, text: entry.text, time: entry.time.toISOString(), articleId: entry.articleId,
+          attribution: entry.attribution, postedIds: entry.postedIds
+        }
+      })),
+      { type: 'counters' as const, at, counters: this.counters },
+      ...Object.entries(this.jobRuns).map(([job, runAt]) => ({ type: 'job-run' as const, at: runAt, job })),
+      ...(this.mentionSinceId ? [{ type: 'mention-checkpoint' as const, at, sinceId: this.mentionSinceId }] : [])
+    ];
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, events.map(event => JSON.stringify(event)).join('\n') + '\n');
+    fs.renameSync(tempPath, this.filePath);
+    this.lineCount = events.length;
+  }
+
+  private append(event: StateEvent): void {
+    this.apply(event);
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+      this.lineCount++;
+    } catch (error) {
+      console.error('Error writing agent state:', error);
+    }
+  }
+
+  private apply(event: StateEvent): void {
+    switch (event.type) {
+      case 'article':
+        this.articles.set(event.record.id, event.record);
+        break;
+
+      case 'tweet':
+        if (event.articleId) {
+          const record = this.articles.get(event.articleId);
+          if (record) {
+            this.articles.set(event.articleId, {
+              ...record,
+              tweetText: event.text,
+              tweetId: event.tweetId,
+              threadTweetIds: event.threadTweetIds,
+              postedAt: event.tweetId ? event.at : record.postedAt
+            });
+          }
+        }
+        break;
+
+      case 'queue-add':
+        this.queue.push({
+          id: event.entry.id,
+          text: event.entry.text,
+          time: new Date(event.entry.time),
+          articleId: event.entry.articleId,
+          attribution: event.entry.attribution,
+          postedIds: event.entry.postedIds
+        });
+        break;
+
+      case 'queue-progress':
+        this.queue = this.queue.map(entry => (entry.id === event.id ? { ...entry, postedIds: event.postedIds } : entry));
+        break;
+
+      case 'queue-remove':
+        this.queue = this.queue.filter(entry => entry.id !== event.id);
+        break;
+
+      case 'counters':
+        this.counters = event.counters;
+        break;
+
+      case 'job-run':
+        this.jobRuns[event.job] = event.at;
+        break;
+
+      case 'mention-checkpoint':
+        this.mentionSinceId = event.sinceId;
+        break;
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import axios from 'axios';
+import { PubMedArticle, ArticleContent } from './pubmed-agent';
+import { hasAffirmed, hasNegated, matchPhrases } from './rating-engine';
+
+// Turns an article into the plain-language key finding that goes into a post. The
+// heuristic summarizer works offline; the LLM summarizer talks to any OpenAI-compatible
+// chat endpoint (OpenAI, a llama.cpp server, Ollama, ...). LLM output is only used when
+// every number, drug name and claimed effect in it can be found in the source.
+
+export interface Summarizer {
+  readonly name: string;
+  // stylePrompt, when given, replaces the house style for this one summary (e.g. the
+  // voice of the persona that will post it)
+  summarize(article: PubMedArticle, content: ArticleContent, stylePrompt?: string): Promise<string>;
+}
+
+// Text of the first full-text section of the given type (e.g. "results"), if we have full text
+export function findSectionText(content: ArticleContent, type: string): string | undefined {
+  const section = content.sections.find(s => s.type.includes(type) && s.text.length > 0);
+  return section ? section.text : undefined;
+}
+
+// Find the sentence that best states what the study found. Structured abstracts
+// let us go straight to the conclusions, otherwise fall back to cue words.
+export function extractMainPoint(content: ArticleContent): string {
+  for (const category of ['CONCLUSIONS', 'RESULTS']) {
+    const section = content.abstractSections.find(s => s.category === category);
+    if (section) {
+      const sentences = section.text.split(/\.\s+/);
+      return category === 'CONCLUSIONS' ? sentences[0] : sentences[sentences.length - 1];
+    }
+  }
+
+  for (const type of ['conclusions', 'results']) {
+    const sectionText = findSectionText(content, type);
+    if (sectionText) {
+      const sentences = sectionText.split(/\.\s+/);
+      return type === 'conclusions' ? sentences[0] : sentences[sentences.length - 1];
+    }
+  }
+
+  const abstractSentences = content.fullText.split(/\.\s+/);
+  return abstractSentences.find(s =>
+    s.toLowerCase().includes('conclude') ||
+    s.toLowerCase().includes('finding') ||
+    s.toLowerCase().includes('result') ||
+    s.toLowerCase().includes('demonstrate') ||
+    s.toLowerCase().includes('show')
+  ) || abstractSentences[abstractSentences.length - 1];
+}
+
+// Strip the academic scaffolding from a sentence: "We found that", parentheticals,
+// p-values and confidence intervals
+export function simplifyText(text: string): string {
+  return text
+    .replace(/^\s*(?:we|the authors|researchers|this study)\s+(?:found|demonstrate[ds]?|show[ns]?|conclude[ds]?|observe[ds]?|note[ds]?|report[ds]?)\s+that\s+/i, '')
+    .replace(/\(.*?\)/g, '')  // Remove parenthetical expressions
+    .replace(/\[.*?\]/g, '')  // Remove bracketed content
+    .replace(/,\s*(?:respectively|however|therefore|thus|hence|moreover)\s*,/g, ',')
+    .replace(/\s+/g, ' ')     // Normalize whitespace
+    .trim()
+    .replace(/^\s*(?:these|the|our)\s+(?:data|results|findings)\s+(?:suggest|indicate|show|demonstrate|reveal)\s+that\s+/i, '')
+    .replace(/^\s*(?:it\s+(?:is|was)\s+(?:found|shown|demonstrated|concluded)\s+that)\s+/i, '')
+    .replace(/\s+(?:p\s*(?:<|>|=)\s*0?\.\d+)/, '')  // Remove p-values
+    .replace(/\s+\(\d+(?:\.\d+)?%\s*(?:CI|confidence interval)[^\)]+\)/, '')  // Remove confidence intervals
+    .replace(/\.$/, '') + '.';  // Ensure it ends with exactly one period
+}
+
+// The original extract-and-simplify approach; needs no network and never invents anything
+export class HeuristicSummarizer implements Summarizer {
+  readonly name = 'heuristic';
+
+  async summarize(article: PubMedArticle, content: ArticleContent, stylePrompt?: string): Promise<string> {
+    return simplifyText(extractMainPoint(content));
+  }
+}
+
+export interface LlmSummarizerOptions {
+  // Base URL of the OpenAI-compatible API, e.g. https://api.openai.com/v1,
+  // http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // House style, usually built from personality.json
+  stylePrompt?: string;
+  timeoutMs?: number;
+  maxCharacters?: number;
+}
+
+export class LlmSummarizer implements Summarizer {
+  readonly name: string;
+  private options: LlmSummarizerOptions;
+
+  constructor(options: LlmSummarizerOptions) {
+    this.options = options;
+    this.name = `llm:${options.model}`;
+  }
+
+  async summarize(article: PubMedArticle, content: ArticleContent, stylePrompt?: string): Promise<string> {
+    const maxCharacters = this.options.maxCharacters || 220;
+    const rules = [
+      `Summarize the study's main finding for a general audience in at most ${maxCharacters} characters.`,
+      'Use only facts stated in the source text. Copy numbers exactly; never round, convert or invent them.',
+      'Name drugs and interventions exactly as the source does.',
+      'Do not overstate: an association is not a cause, a mouse study is not a human result, and a non-significant result is not an effect.',
+      'No hashtags, no links, no greeting and no sign-off; return only the summary sentence(s).'
+    ];
+
+    const response = await axios.post(
+      `${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.options.model,
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: [stylePrompt || this.options.stylePrompt || '', ...rules].filter(Boolean).join('\n') },
+          { role: 'user', content: formatSourceForPrompt(article, content) }
+        ]
+      },
+      {
+        timeout: this.options.timeoutMs || 30000,
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}
+      }
+    );
+
+    const choice = response.data && response.data.choices && response.data.choices[0];
+    const text = choice && choice.message && typeof choice.message.content === 'string'
+      ? choice.message.content.trim().replace(/^["']|["']$/g, '')
+      : '';
+
+    if (!text) {
+      throw new Error('Empty completion from summarization endpoint');
+    }
+    return text;
+  }
+}
+
+function formatSourceForPrompt(article: PubMedArticle, content: ArticleContent): string {
+  const results = findSectionText(content, 'results');
+  const conclusions = findSectionText(content, 'conclusions');
+
+  return [
+    `Title: ${article.title}`,
+    `Journal: ${article.journal}`,
+    `Abstract: ${content.fullText || article.abstract}`,
+    // Full-text sections help, but keep the prompt small enough for local models
+    results ? `Results: ${results.slice(0, 3000)}` : '',
+    conclusions ? `Conclusions: ${conclusions.slice(0, 1500)}` : ''
+  ].filter(Boolean).join('\n\n');
+}
+
+export interface GroundingResult {
+  grounded: boolean;
+  problems: string[];
+}
+
+// Suffixes of generic drug names (INN stems): -mab antibodies, -nib kinase inhibitors, ...
+const DRUG_NAME = /\b[a-z]{3,}(?:mab|nib|tinib|ciclib|tide|glutide|gliflozin|gliptin|vir|pril|sartan|statin|olol|azole|prazole|mycin|cillin|floxacin|parin|cept|lukast|dronate|afil|oxetine|azepam|triptan|dipine|limus|platin|taxel|rubicin|sertib|rafenib|lisib)\b/g;
+
+// Effects a summary might claim, and wording in the source that would support each one.
+// Support has to point the same way: "hazard ratio" or "more" fit either direction.
+const EFFECT_CLAIMS: {label: string, claim: RegExp, support: RegExp}[] = [
+  { label: 'a reduction', claim: /\b(reduc|lower|decreas|cut|halv|fewer|drop)\w*/, support: /\b(reduc|lower|decreas|fewer|declin|drop|cut|halv)\w*/ },
+  { label: 'an increase', claim: /\b(increas|rais|boost|doubl|tripl|higher)\w*/, support: /\b(increas|rais|higher|elevat|boost|doubl|tripl|greater)\w*/ },
+  { label: 'an improvement', claim: /\b(improv|better|benefit)\w*/, support: /\b(improv|better|benefit|superior|effective|efficacy)\w*/ },
+  { label: 'prevention', claim: /\bprevent\w*/, support: /\bprevent\w*/ },
+  { label: 'a cure', claim: /\b(cure[sd]?|curing|eradicat\w*)\b/, support: /\b(cure[sd]?|curing|eradicat\w*)\b/ },
+  { label: 'causation', claim: /\b(causes?|caused|causing)\b/, support: /\b(causes?|caused|causing|causal)\b/ }
+];
+
+const SIGNIFICANT = /\bsignificant(ly)?\b/;
+
+// Words next to an effect that don't say what it was an effect on
+const NOT_OUTCOMES = new Set([
+  'with', 'were', 'than', 'that', 'this', 'from', 'have', 'been', 'their', 'there', 'these', 'those', 'into',
+  'also', 'both', 'after', 'before', 'over', 'among', 'about', 'compared', 'overall', 'significant',
+  'significantly', 'substantially', 'markedly', 'patients', 'participants', 'people', 'group', 'groups',
+  'treatment', 'risk', 'rate', 'rates', 'level', 'levels', 'incidence', 'odds', 'chance', 'number'
+]);
+const OUTCOME_BREAK = /[.;:!?()]|\b(but|however|whereas|although|while)\b/;
+
+// Up to four words on one side of an effect word, within its clause
+function clauseWords(text: string, start: number, end: number, side: 'before' | 'after'): string[] {
+  if (side === 'before') {
+    const parts = text.slice(Math.max(0, start - 80), start).split(OUTCOME_BREAK);
+    return parts[parts.length - 1].trim().split(/\s+/).slice(-4);
+  }
+  return text.slice(end, end + 80).split(OUTCOME_BREAK)[0].trim().split(/\s+/).slice(0, 4);
+}
+
+// What an effect word in a summary is about: "reduced mortality" or "mortality was reduced"
+// give "morta". Only the first letters are kept, so "death" matches "deaths".
+function outcomeStems(text: string, start: number, end: number): string[] {
+  const stems = (side: 'before' | 'after') => clauseWords(text, start, end, side)
+    .map(word => word.replace(/[^a-z-]/g, ''))
+    .filter(word => word.length >= 4 && !NOT_OUTCOMES.has(word))
+    .map(word => word.slice(0, 5));
+  const after = stems('after');
+  return after.length > 0 ? after : stems('before');
+}
+
+// The source backs an effect if it reports it, not negated, next to the same outcome
+function supportsEffect(source: string, support: RegExp, stems: string[]): boolean {
+  return matchPhrases(source, support).some(match => {
+    if (match.negated) {
+      return false;
+    }
+    const end = match.index + match.text.length;
+    const nearby = [...clauseWords(source, match.index, end, 'before'), ...clauseWords(source, match.index, end, 'after')];
+    return stems.length === 0 || stems.some(stem => nearby.some(word => word.replace(/[^a-z-]/g, '').startsWith(stem)));
+  });
+}
+
+// Check that a generated summary says nothing the source doesn't: every number, drug
+// name and effect it claims has to be traceable to the article, effects in the same
+// direction and on the same outcome.
+export function checkGrounding(summary: string, article: PubMedArticle, content: ArticleContent): GroundingResult {
+  const source = [
+    article.title,
+    article.abstract,
+    content.fullText,
+    ...content.sections.map(section => section.text),
+    ...content.tables.map(table => [table.caption, ...table.rows.map(row => row.join(' '))].join(' '))
+  ].join(' ').toLowerCase();
+  const text = summary.toLowerCase();
+  const problems: string[] = [];
+
+  // Numbers: compare without thousands separators, so "1,204" and "1204" match
+  const sourceNumbers = new Set((source.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(normalizeNumber));
+  for (const number of text.match(/\d[\d,]*(?:\.\d+)?/g) || []) {
+    if (!sourceNumbers.has(normalizeNumber(number))) {
+      problems.push(`number ${number} is not in the source`);
+    }
+  }
+
+  for (const drug of new Set(text.match(DRUG_NAME) || [])) {
+    if (!source.includes(drug)) {
+      problems.push(`drug "${drug}" is not in the source`);
+    }
+  }
+
+  for (const effect of EFFECT_CLAIMS) {
+    const unsupported = matchPhrases(text, effect.claim).some(match => !match.negated &&
+      !supportsEffect(source, effect.support, outcomeStems(text, match.index, match.index + match.text.length)));
+    if (unsupported) {
+      problems.push(`claims ${effect.label} the source doesn't report`);
+    }
+  }
+
+  // A null result must not come back as a significant one
+  if (hasAffirmed(text, SIGNIFICANT) && hasNegated(source, SIGNIFICANT) && !hasAffirmed(source, SIGNIFICANT)) {
+    problems.push('calls a non-significant result significant');
+  }
+
+  return { grounded: problems.length === 0, problems };
+}
+
+function normalizeNumber(number: string): string {
+  const plain = number.replace(/,/g, '').replace(/\.$/, '');
+  return plain.includes('.') ? plain.replace(/0+$/, '').replace(/\.$/, '') : plain;
+}
+
+// Runs the primary summarizer and falls back to the offline one whenever it fails or
+// produces something the grounding check can't trace back to the article
+export class GroundedSummarizer implements Summarizer {
+  readonly name: string;
+  private primary: Summarizer;
+  private fallback: Summarizer;
+
+  constructor(primary: Summarizer, fallback: Summarizer = new HeuristicSummarizer()) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.name = `${primary.name}+grounding`;
+  }
+
+  async summarize(article: PubMedArticle, content: ArticleContent, stylePrompt?: string): Promise<string> {
+    try {
+      const summary = await this.primary.summarize(article, content, stylePrompt);
+      const grounding = checkGrounding(summary, article, content);
+
+      if (grounding.grounded) {
+        return summary;
+      }
+      console.warn(`Summary for ${article.id} failed the grounding check (${grounding.problems.join('; ')}), using ${this.fallback.name}`);
+    } catch (error) {
+      console.error(`Summarizer ${this.primary.name} failed for ${article.id}, using ${this.fallback.name}:`, (error as Error).message);
+    }
+
+    return this.fallback.summarize(article, content, stylePrompt);
+  }
+}
+
+export interface SummarizerSettings {
+  summarizer: string;
+  llmBaseUrl: string;
+  llmModel: string;
+  llmApiKey: string;
+  llmTimeoutSeconds: number;
+}
+
+export function createSummarizer(settings: SummarizerSettings, stylePrompt?: string): Summarizer {
+  if (settings.summarizer !== 'llm') {
+    return new HeuristicSummarizer();
+  }
+
+  return new GroundedSummarizer(new LlmSummarizer({
+    baseUrl: settings.llmBaseUrl,
+    model: settings.llmModel,
+    apiKey: settings.llmApiKey || undefined,
+    stylePrompt,
+    timeoutMs: settings.llmTimeoutSeconds * 1000
+  }));
+}
@@ -0,0 +1,184 @@
+// Splits long text into a numbered tweet thread, measuring length the way Twitter does.
+
+export const MAX_TWEET_LENGTH = 280;
+
+// Twitter counts every URL as a t.co link of this length, whatever its real size
+const URL_LENGTH = 23;
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+// A single emoji, including skin tones and ZWJ sequences, counts as 2
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\u{FE0F}|[\u{1F3FB}-\u{1F3FF}]|\u{200D}\p{Extended_Pictographic}\u{FE0F}?)*/gu;
+
+// Code point ranges that weigh 1; everything else (CJK, emoji, most symbols) weighs 2.
+// These are the ranges from twitter-text's v3 configuration.
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10FF],
+  [0x2000, 0x200D],
+  [0x2010, 0x201F],
+  [0x2032, 0x2037]
+];
+
+function codePointWeight(codePoint: number): number {
+  return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+}
+
+// Weighted tweet length: URLs are 23, emoji and CJK are 2, Latin text is 1 per character
+export function twitterLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    length += URL_LENGTH;
+    return '';
+  });
+
+  const withoutEmoji = withoutUrls.normalize('NFC').replace(EMOJI_PATTERN, () => {
+    length += 2;
+    return '';
+  });
+
+  for (const char of withoutEmoji) {
+    length += codePointWeight(char.codePointAt(0)!);
+  }
+
+  return length;
+}
+
+export function fitsInTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): boolean {
+  return twitterLength(text) <= maxLength;
+}
+
+// Cut text down to fit a single tweet, ending with "..." when anything was dropped
+export function truncateForTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): string {
+  if (fitsInTweet(text, maxLength)) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  let end = chars.length;
+  while (end > 0 && twitterLength(chars.slice(0, end).join('') + '...') > maxLength) {
+    end--;
+  }
+
+  return chars.slice(0, end).join('').trimEnd() + '...';
+}
+
+export interface ThreadOptions {
+  maxLength?: number;
+  // Add " 1/n" markers; single-tweet "threads" never get one
+  numbered?: boolean;
+  // Text put in front of the first tweet only, e.g. "@user "
+  prefix?: string;
+}
+
+// The longest start of text that fits in maxLength, by weighted length. Always at least
+// one code point, so a caller cutting text into pieces gets through it.
+function hardCut(text: string, maxLength: number): string {
+  const chars = Array.from(text);
+  let end = 1;
+  while (end < chars.length && fitsInTweet(chars.slice(0, end + 1).join(''), maxLength)) {
+    end++;
+  }
+  return chars.slice(0, end).join('');
+}
+
+// Break text into pieces no longer than maxLength, preferring paragraph, then
+// sentence, then word boundaries. Paragraph breaks inside a tweet are kept.
+function splitIntoChunks(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+
+  const add = (piece: string, separator: string) => {
+    const candidate = current ? current + separator + piece : piece;
+    if (fitsInTweet(candidate, maxLength)) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    if (add(paragraph, '\n\n')) {
+      continue;
+    }
+
+    // The paragraph doesn't fit next to what we have; start it fresh and go sentence by sentence
+    flush();
+    if (add(paragraph, '')) {
+      continue;
+    }
+
+    // Only split where punctuation is followed by whitespace, so "p < 0.05" stays whole
+    const sentences = paragraph.split(/(?<=[.!?]["')\]]?)\s+/);
+    for (const rawSentence of sentences) {
+      const sentence = rawSentence.trim();
+      if (!sentence || add(sentence, ' ')) {
+        continue;
+      }
+
+      flush();
+      if (add(sentence, '')) {
+        continue;
+      }
+
+      // A single sentence longer than a tweet: fall back to words, then characters
+      for (const word of sentence.split(/\s+/)) {
+        if (add(word, ' ')) {
+          continue;
+        }
+        flush();
+        if (!add(word, '')) {
+          let remaining = word;
+          while (remaining) {
+            const piece = hardCut(remaining, maxLength);
+            chunks.push(piece);
+            remaining = remaining.slice(piece.length);
+          }
+        }
+      }
+    }
+
+    flush();
+  }
+
+  flush();
+  return chunks;
+}
+
+// Compose a thread from text. Each returned part fits in one tweet, including its
+// "k/n" marker and, for the first part, the prefix.
+export function composeThread(text: string, options: ThreadOptions = {}): string[] {
+  const maxLength = options.maxLength || MAX_TWEET_LENGTH;
+  const numbered = options.numbered !== false;
+  const prefix = options.prefix || '';
+
+  if (fitsInTweet(prefix + text, maxLength)) {
+    return [prefix + text];
+  }
+
+  // Reserve room for the marker; grow the reservation if the thread runs into double digits
+  let markerDigits = 1;
+  for (;;) {
+    const markerLength = numbered ? ` ${'9'.repeat(markerDigits)}/${'9'.repeat(markerDigits)}`.length : 0;
+    const budget = maxLength - markerLength - twitterLength(prefix);
+    const chunks = splitIntoChunks(text, budget);
+
+    if (!numbered || String(chunks.length).length <= markerDigits) {
+      return chunks.map((chunk, index) => {
+        const marker = numbered ? ` ${index + 1}/${chunks.length}` : '';
+        return (index === 0 ? prefix : '') + chunk + marker;
+      });
+    }
+
+    markerDigits = String(chunks.length).length;
+  }
+}
@@ -1,14 +1,46 @@
-import { TwitterApi } from 'twitter-api-v2';
+import { ETwitterStreamEvent, TTweetv2Expansion, TTweetv2TweetField, TTweetv2UserField, TwitterApi } from 'twitter-api-v2';
 import * as dotenv from 'dotenv';
+import { composeThread, truncateForTweet } from './thread-composer';
+import { PostResult, SocialClient, ThreadResult, TweetMetrics, isRetryable, postThreadParts } from './social-client';
+import { TwitterRequester } from './twitter-request';
+import { MentionCheckpointStore, MentionPage, MentionPageRequest, MentionPoller, isIgnorableMention } from './mention-poller';
 
 dotenv.config();
 
-export class TwitterClient {
+export interface TwitterClientOptions {
+  // "poll" reads the mention timeline; "stream" uses a filtered stream on @username
+  mentionMode?: string;
+  pollIntervalSeconds?: number;
+  // On the very first run (no checkpoint yet), answer mentions from this far back
+  backfillMinutes?: number;
+  checkpoint?: MentionCheckpointStore;
+}
+
+const MENTION_FIELDS: { 'tweet.fields': TTweetv2TweetField[]; 'user.fields': TTweetv2UserField[]; expansions: TTweetv2Expansion[] } = {
+  'tweet.fields': ['referenced_tweets', 'author_id', 'created_at', 'conversation_id'],
+  'user.fields': ['name', 'username'],
+  expansions: ['author_id', 'referenced_tweets.id']
+};
+
+// Waits between attempts to connect when the API isn't answering at startup
+const CONNECT_BASE_DELAY_MS = 30 * 1000;
+const CONNECT_MAX_DELAY_MS = 15 * 60 * 1000;
+
+export class TwitterClient implements SocialClient {
   private client: TwitterApi;
-  private readonly userId: string;
+  private requester: TwitterRequester = new TwitterRequester();
+  private userId: string;
+  private username: string = '';
   private isReady: boolean = false;
+  // Settles once we know who we are: true when connected, false if we never will be
+  private connected: Promise<boolean>;
+  private options: TwitterClientOptions;
+  // Mentions are handled one at a time, whether they come from a poll, a backfill or the stream
+  private mentionChain: Promise<void> = Promise.resolve();
 
-  constructor() {
+  constructor(options: TwitterClientOptions = {}) {
+    this.options = options;
+    
     // Check for required environment variables
     const requiredVars = [
       'TWITTER_API_KEY',
@@ -30,29 +62,40 @@ export class TwitterClient {
       appSecret: process.env.TWITTER_API_SECRET!,
       accessToken: process.env.TWITTER_ACCESS_TOKEN!,
       accessSecret: process.env.TWITTER_ACCESS_SECRET!,
-    });
+    }, { plugins: [this.requester.plugin()] });
     
     // User ID will be fetched during initialization
     this.userId = '';
     
     // Initialize client
-    this.initialize();
+    this.connected = this.initialize();
   }
   
-  private async initialize() {
-    try {
-      // Verify credentials and get user info
-      const currentUser = await this.client.v2.me();
+  // Verify credentials and get user info. A rate limit or outage at startup only delays
+  // this: it is retried with backoff until it goes through. Bad credentials end it.
+  private async initialize(): Promise<boolean> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.requester.run('GET /2/users/me', () => this.client.v2.me());
       
-      if (currentUser && currentUser.data) {
-        console.log(`Connected to Twitter as @${currentUser.data.username}`);
+      if (result.ok && result.value && result.value.data) {
+        this.userId = result.value.data.id;
+        this.username = result.value.data.username;
+        console.log(`Connected to Twitter as @${this.username}`);
         this.isReady = true;
-      } else {
-        console.error('Failed to get Twitter user information');
+        return true;
       }
-    } catch (error) {
-      console.error('Error initializing Twitter client:', error);
-      throw new Error('Failed to initialize Twitter client');
+      
+      const error = result.ok ? undefined : result.error;
+      if (error && !isRetryable(error)) {
+        console.error(`Could not connect to Twitter (${error.kind}): ${error.message}`);
+        return false;
+      }
+      
+      const delay = error && error.retryAt
+        ? Math.max(error.retryAt.getTime() - Date.now(), 0) + 1000
+        : Math.min(CONNECT_BASE_DELAY_MS * Math.pow(2, attempt), CONNECT_MAX_DELAY_MS);
+      console.error(`Failed to get Twitter user information, trying again in ${Math.ceil(delay / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
   
@@ -67,97 +110,186 @@ export class TwitterClient {
   }
   
   async postTweet(text: string): Promise<string | null> {
+    const result = await this.sendTweet(text);
+    return result.ok ? result.id : null;
+  }
+  
+  async replyToTweet(tweetId: string, text: string): Promise<string | null> {
+    const result = await this.sendTweet(text, tweetId);
+    return result.ok ? result.id : null;
+  }
+  
+  async sendTweet(text: string, replyToId: string | null = null): Promise<PostResult> {
     if (!this.isReady) {
       await this.waitUntilReady();
     }
     
-    try {
-      // Ensure tweet is within Twitter's character limit (280)
-      const truncatedText = text.length > 280 ? text.substring(0, 277) + '...' : text;
-      
-      // Post the tweet
-      const result = await this.client.v2.tweet(truncatedText);
-      
-      if (result && result.data && result.data.id) {
-        console.log(`Tweet posted successfully! ID: ${result.data.id}`);
-        return result.data.id;
-      } else {
-        console.error('Failed to post tweet:', result);
-        return null;
-      }
-    } catch (error) {
-      console.error('Error posting tweet:', error);
-      return null;
+    // Ensure tweet is within Twitter's character limit (280, weighted)
+    const truncatedText = truncateForTweet(text);
+    
+    const result = await this.requester.run('POST /2/tweets', () => replyToId
+      ? this.client.v2.reply(truncatedText, replyToId)
+      : this.client.v2.tweet(truncatedText));
+    
+    if (!result.ok) {
+      return result;
     }
+    if ('duplicate' in result) {
+      return { ok: true, id: null, duplicate: true };
+    }
+    
+    console.log(`${replyToId ? 'Reply' : 'Tweet'} posted successfully! ID: ${result.value.data.id}`);
+    return { ok: true, id: result.value.data.id };
   }
   
-  async replyToTweet(tweetId: string, text: string): Promise<string | null> {
+  // Post text as a numbered thread: the first part as a tweet, each following part as a
+  // reply to the one before. Returns the IDs posted so far; stops at the first failure.
+  // With postedIds from a broken-off attempt, only the parts after them are posted.
+  async postThread(text: string, postedIds: string[] = []): Promise<ThreadResult> {
+    return postThreadParts(this, composeThread(text), null, postedIds);
+  }
+  
+  // Same as postThread, but the whole thread hangs off an existing tweet
+  async replyWithThread(tweetId: string, text: string, prefix: string = ''): Promise<string[]> {
+    return (await postThreadParts(this, composeThread(text, { prefix }), tweetId)).tweetIds;
+  }
+  
+  // Deliver mentions of our account to the callback, oldest first. Polling is the
+  // default; stream mode catches up from the checkpoint first, then streams. Before
+  // we're connected, listening starts as soon as we are.
+  async setupMentionListener(callback: (tweet: any) => Promise<void>) {
     if (!this.isReady) {
-      await this.waitUntilReady();
+      console.log('Not connected to Twitter yet; mentions will be picked up once we are');
+      this.connected
+        .then(connected => connected
+          ? this.listenForMentions(callback)
+          : console.error('Not listening for mentions: could not connect to Twitter'))
+        .catch(error => console.error('Error setting up the mention listener:', error));
+      return;
+    }
+    
+    await this.listenForMentions(callback);
+  }
+  
+  private async listenForMentions(callback: (tweet: any) => Promise<void>) {
+    const poller = new MentionPoller({
+      fetchPage: request => this.fetchMentionPage(request),
+      ownUserId: this.userId,
+      checkpoint: this.options.checkpoint,
+      intervalMs: (this.options.pollIntervalSeconds || 60) * 1000,
+      backfillMinutes: this.options.backfillMinutes
+    });
+    const handle = (tweet: any) => this.enqueueMention(() => callback(tweet));
+    
+    if (this.options.mentionMode === 'stream') {
+      await this.backfillMentions(poller, handle);
+      await this.startMentionStream(poller, callback);
+      return;
     }
     
+    poller.start(handle);
+    console.log(`Polling mentions of @${this.username} every ${this.options.pollIntervalSeconds || 60}s`);
+  }
+  
+  private enqueueMention(task: () => Promise<void>): Promise<void> {
+    this.mentionChain = this.mentionChain.then(() => task().catch(error => {
+      console.error('Error handling mention:', error);
+    }));
+    return this.mentionChain;
+  }
+  
+  private async fetchMentionPage(request: MentionPageRequest): Promise<MentionPage> {
+    const params: {[name: string]: any} = { ...MENTION_FIELDS, max_results: 100 };
+    if (request.sinceId) {
+      params.since_id = request.sinceId;
+    }
+    if (request.startTime) {
+      params.start_time = request.startTime;
+    }
+    if (request.paginationToken) {
+      params.pagination_token = request.paginationToken;
+    }
+    
+    const result = await this.requester.run(`GET /2/users/${this.userId}/mentions`,
+      () => this.client.v2.userMentionTimeline(this.userId, params));
+    if (!result.ok || 'duplicate' in result) {
+      // The poller backs off and retries from its checkpoint
+      throw new Error(`Could not fetch mentions: ${result.ok ? 'no response' : result.error.message}`);
+    }
+    
+    const page = result.value;
+    return {
+      tweets: page.data.data || [],
+      users: (page.data.includes && page.data.includes.users) || [],
+      nextToken: page.meta.next_token
+    };
+  }
+  
+  private async backfillMentions(poller: MentionPoller, handle: (tweet: any) => Promise<void>): Promise<void> {
     try {
-      // Ensure reply is within Twitter's character limit
-      const truncatedText = text.length > 280 ? text.substring(0, 277) + '...' : text;
-      
-      // Post the reply
-      const result = await this.client.v2.reply(truncatedText, tweetId);
-      
-      if (result && result.data && result.data.id) {
-        console.log(`Reply posted successfully! ID: ${result.data.id}`);
-        return result.data.id;
-      } else {
-        console.error('Failed to post reply:', result);
-        return null;
+      const handled = await poller.pollOnce(handle);
+      if (handled > 0) {
+        console.log(`Caught up on ${handled} mentions`);
       }
     } catch (error) {
-      console.error('Error posting reply:', error);
-      return null;
+      console.error('Error catching up on missed mentions:', error);
     }
   }
   
-  async setupMentionListener(callback: (tweet: any) => Promise<void>) {
-    if (!this.isReady) {
-      await this.waitUntilReady();
-    }
+  private async startMentionStream(poller: MentionPoller, callback: (tweet: any) => Promise<void>): Promise<void> {
+    const handle = (tweet: any) => this.enqueueMention(() => callback(tweet));
     
     try {
-      // Set up filtered stream rules to catch mentions
+      // Match tweets addressed to us only. Rules are shared by every client of the app,
+      // so only our own tagged rule is touched.
+      const value = `@${this.username} -from:${this.username} -is:retweet`;
+      const tag = `mentions of @${this.username}`;
       const rules = await this.client.v2.streamRules();
+      const ours = (rules.data || []).filter(rule => rule.tag === tag);
       
-      // Remove any existing rules
-      if (rules.data && rules.data.length > 0) {
-        await this.client.v2.updateStreamRules({
-          delete: { ids: rules.data.map(rule => rule.id) }
-        });
+      if (!ours.some(rule => rule.value === value)) {
+        if (ours.length > 0) {
+          await this.client.v2.updateStreamRules({ delete: { ids: ours.map(rule => rule.id) } });
+        }
+        await this.client.v2.updateStreamRules({ add: [{ value, tag }] });
       }
       
-      // Add rule to catch mentions
-      await this.client.v2.updateStreamRules({
-        add: [{ value: 'has:mentions' }]
-      });
-      
-      console.log('Twitter mention listener set up successfully');
+      const stream = await this.client.v2.searchStream(MENTION_FIELDS);
+      stream.autoReconnect = true;
+      stream.autoReconnectRetries = Infinity;
       
-      // Start filtered stream
-      const stream = await this.client.v2.searchStream({
-        'tweet.fields': ['referenced_tweets', 'author_id', 'created_at', 'conversation_id'],
-        'user.fields': ['name', 'username'],
-        'expansions': ['author_id', 'referenced_tweets.id']
+      stream.on(ETwitterStreamEvent.Data, async tweetData => {
+        const tweet = tweetData.data;
+        if (isIgnorableMention(tweet, this.userId)) {
+          return;
+        }
+        await this.enqueueMention(async () => {
+          // A backfill may have got to it first
+          if (poller.hasHandled(tweet.id)) {
+            return;
+          }
+          poller.advance(tweet.id);
+          await callback(tweetData);
+        });
       });
       
-      // Listen for mentions
-      stream.on('data', async tweetData => {
-        // Process the mention
-        await callback(tweetData);
+      stream.on(ETwitterStreamEvent.ConnectionLost, () => console.warn('Twitter stream connection lost, reconnecting...'));
+      stream.on(ETwitterStreamEvent.Reconnected, () => {
+        console.log('Twitter stream reconnected, catching up on missed mentions');
+        this.backfillMentions(poller, handle);
       });
-      
-      stream.on('error', error => {
+      stream.on(ETwitterStreamEvent.ReconnectLimitExceeded, () => {
+        console.error('Twitter stream gave up reconnecting, falling back to polling');
+        poller.start(handle);
+      });
+      stream.on(ETwitterStreamEvent.Error, error => {
         console.error('Error in Twitter stream:', error);
       });
       
+      console.log(`Streaming mentions of @${this.username}`);
     } catch (error) {
-      console.error('Error setting up Twitter mention listener:', error);
+      console.error('Error setting up the mention stream, falling back to polling:', error);
+      poller.start(handle);
     }
   }
   
@@ -167,18 +299,48 @@ export class TwitterClient {
       await this.waitUntilReady();
     }
     
-    try {
-      const searchResults = await this.client.v2.search(query, {
-        'max_results': maxResults,
-        'tweet.fields': ['created_at', 'public_metrics'],
-        'user.fields': ['username'],
-        'expansions': ['author_id']
-      });
+    const result = await this.requester.run('GET /2/tweets/search/recent', () => this.client.v2.search(query, {
+      'max_results': maxResults,
+      'tweet.fields': ['created_at', 'public_metrics'],
+      'user.fields': ['username'],
+      'expansions': ['author_id']
+    }));
+    
+    return result.ok && !('duplicate' in result) ? result.value.data.data || [] : [];
+  }
+  
+  async getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>> {
+    if (!this.isReady) {
+      await this.waitUntilReady();
+    }
+    
+    const metrics = new Map<string, TweetMetrics>();
+    // The lookup endpoint takes at most 100 IDs a request
+    for (let start = 0; start < tweetIds.length; start += 100) {
+      const ids = tweetIds.slice(start, start + 100);
+      const result = await this.requester.run('GET /2/tweets', () => this.client.v2.tweets(ids, {
+        'tweet.fields': ['public_metrics']
+      }));
+      if (!result.ok || 'duplicate' in result) {
+        // Whatever was read so far is still worth keeping
+        break;
+      }
       
-      return searchResults.data.data || [];
-    } catch (error) {
-      console.error('Error searching tweets:', error);
-      return [];
+      // Deleted or protected tweets come back in `errors` rather than `data`
+      for (const tweet of result.value.data || []) {
+        const counts = tweet.public_metrics;
+        if (counts) {
+          metrics.set(tweet.id, {
+            impressions: counts.impression_count || 0,
+            likes: counts.like_count,
+            replies: counts.reply_count,
+            retweets: counts.retweet_count,
+            quotes: counts.quote_count
+          });
+        }
+      }
     }
+    
+    return metrics;
   }
-}
\ No newline at end of file
+}
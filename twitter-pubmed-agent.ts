@@ -1,12 +1,26 @@
 import { Message } from './agent-base';
-import { PubMedAgent } from './pubmed-agent';
+import { PubMedAgent, PubMedAgentOptions, PubMedArticle, ArticleContent, SearchRequest, PostContext, PostVoice, QueueOutcome } from './pubmed-agent';
 import { TwitterClient } from './twitter-integration';
-import { PersonalityManager } from './personality-system';
-import * as path from 'path';
+import { SocialClient, isRetryable } from './social-client';
+import { PersonaChannel, PersonaSet, PersonalityManager, parsePersonaRules } from './personality-system';
+import { LiteratureSourceName } from './literature-sources';
+import { QueuedTweet } from './state-store';
+import { loadConfig } from './config';
+import { createSummarizer } from './summarizer';
+import { GuardedSocialClient } from './safety-guard';
+import { ApprovalStore } from './approval-store';
+import { Conversation, ConversationStore, FollowUpKind, detectFollowUp, resolveArticleReference } from './conversation-store';
+import { MAX_TWEET_LENGTH, twitterLength } from './thread-composer';
+import { EngagementStore, PostAttribution, enthusiasmAdjustments, topicWeights } from './engagement-store';
+
+export interface TwitterPubMedAgentOptions extends PubMedAgentOptions {
+  socialClient?: SocialClient;
+}
 
 interface TwitterMention {
   id: string;
   text: string;
+  conversationId: string;
   author: {
     id: string;
     username: string;
@@ -14,30 +28,73 @@ interface TwitterMention {
 }
 
 export class TwitterPubMedAgent extends PubMedAgent {
-  private personalityManager: PersonalityManager;
-  private twitterClient: TwitterClient;
-  private tweetQueue: {text: string, time: Date}[] = [];
+  private personas: PersonaSet;
+  private socialClient!: SocialClient;
+  private tweetQueue: QueuedTweet[] = [];
   private processingQueue: boolean = false;
-  private tweetInterval: number = 3 * 60 * 60 * 1000; // 3 hours between tweets
+  private tweetInterval: number;
+  // Set in approval mode: new posts wait here until someone approves them with the review CLI
+  private approvals?: ApprovalStore;
+  private conversations: ConversationStore;
+  private engagement: EngagementStore;
   
-  constructor() {
-    // Initialize the PersonalityManager first
-    const personalityManager = new PersonalityManager(
-      path.join(__dirname, 'personality.json')
-    );
+  constructor(options: TwitterPubMedAgentOptions = {}) {
+    const config = options.config || loadConfig();
+    
+    // Load the personas first; the default one names the bot
+    const personas = new PersonaSet({
+      files: [config.personalityFile, ...config.personaFiles],
+      rules: parsePersonaRules(config.personaRules),
+      quirkProbability: config.quirkProbability,
+      random: options.random,
+      timeZone: config.timeZone
+    });
+    const defaultPersona = personas.getDefault();
     
     // Call parent constructor
     super({
-      name: personalityManager.getName(),
-      description: personalityManager.getBio(),
+      name: defaultPersona.getName(),
+      description: defaultPersona.getBio(),
       version: "1.0.0",
+    }, {
+      ...options,
+      config,
+      // The default persona's style, for summaries no persona was chosen for; generateSummary
+      // passes the selected persona's own
+      summarizer: options.summarizer || createSummarizer(config, defaultPersona.getStylePrompt())
     });
     
-    this.personalityManager = personalityManager;
+    this.personas = personas;
+    this.tweetInterval = config.tweetIntervalHours * 60 * 60 * 1000;
+    
+    this.conversations = new ConversationStore(config.conversationFile);
+    this.conversations.load();
+    
+    this.engagement = new EngagementStore(config.engagementFile);
+    this.engagement.load();
+    this.applyEngagementBias();
+    
+    if (config.postingMode === 'approval') {
+      this.approvals = new ApprovalStore(config.approvalFile);
+      this.approvals.load();
+      console.log(`Approval mode: ${this.approvals.list('pending').length} posts awaiting review (npm run review -- list)`);
+    }
+    
+    // Use the injected client (e.g. the dry-run fake), otherwise the real Twitter API.
+    // Either way every post and reply goes through the safety guard first.
+    if (options.socialClient) {
+      this.socialClient = new GuardedSocialClient(options.socialClient, this.safetyGuard);
+      return;
+    }
     
-    // Initialize Twitter client
     try {
-      this.twitterClient = new TwitterClient();
+      const twitterClient = new TwitterClient({
+        mentionMode: config.mentionMode,
+        pollIntervalSeconds: config.mentionPollSeconds,
+        backfillMinutes: config.mentionBackfillMinutes,
+        checkpoint: this.stateStore
+      });
+      this.socialClient = new GuardedSocialClient(twitterClient, this.safetyGuard);
       console.log('Twitter client initialized');
     } catch (error) {
       console.error('Failed to initialize Twitter client:', error);
@@ -47,15 +104,22 @@ export class TwitterPubMedAgent extends PubMedAgent {
   async start(): Promise<boolean> {
     await super.start();
     
+    // Pick up tweets that were still queued when we last shut down
+    this.tweetQueue = this.stateStore.getQueue();
+    if (this.tweetQueue.length > 0) {
+      console.log(`Restored ${this.tweetQueue.length} queued tweets`);
+    }
+    
     // Setup Twitter mentions listener
     try {
-      await this.twitterClient.waitUntilReady();
+      await this.socialClient.waitUntilReady();
       
       // Start processing the tweet queue
       this.startQueueProcessor();
+      this.startEngagementCollector();
       
       // Set up listener for Twitter mentions
-      await this.twitterClient.setupMentionListener(async (tweetData) => {
+      await this.socialClient.setupMentionListener(async (tweetData) => {
         await this.handleTwitterMention(tweetData);
       });
       
@@ -69,41 +133,132 @@ export class TwitterPubMedAgent extends PubMedAgent {
   
   // Process the tweet queue every few minutes
   private startQueueProcessor() {
-    setInterval(async () => {
-      if (this.tweetQueue.length > 0 && !this.processingQueue) {
-        this.processingQueue = true;
+    this.scheduler.addJob({
+      name: 'tweet-queue',
+      cron: '*/5 * * * *', // Check the queue every 5 minutes
+      onlyInPostingWindow: true,
+      run: () => this.processTweetQueue()
+    });
+  }
+  
+  // Fetch metrics for recent tweets every few hours and re-weight topics with them
+  private startEngagementCollector() {
+    if (this.config.engagementCheckHours === 0) {
+      return;
+    }
+    
+    this.scheduler.addJob({
+      name: 'engagement',
+      cron: `0 */${this.config.engagementCheckHours} * * *`,
+      catchUp: true,
+      run: () => this.collectEngagement()
+    });
+  }
+  
+  async collectEngagement(): Promise<void> {
+    const due = this.engagement.due(this.config.engagementWindowDays);
+    if (due.length === 0) {
+      return;
+    }
+    
+    try {
+      const metrics = await this.socialClient.getTweetMetrics(due.map(record => record.tweetId));
+      const updated = this.engagement.recordMetrics(metrics);
+      console.log(`Updated engagement for ${updated} of ${due.length} recent tweets`);
+      this.applyEngagementBias();
+    } catch (error) {
+      console.error('Error collecting engagement:', error);
+    }
+  }
+  
+  // With topicBias on, search topics that engage better first more often and sound keener
+  // about them; with it off, every persona keeps its file's enthusiasm
+  private applyEngagementBias() {
+    const bias = this.config.topicBias;
+    const records = this.engagement.list();
+    
+    this.topicWeights = bias > 0
+      ? topicWeights(records, this.config.priorityTopics, { bias, exploration: this.config.topicExploration })
+      : new Map();
+    this.personas.setEnthusiasmAdjustments(bias > 0 ? enthusiasmAdjustments(records, bias) : new Map());
+  }
+  
+  private async processTweetQueue() {
+    this.collectApprovedPosts();
+    
+    if (this.tweetQueue.length > 0 && !this.processingQueue) {
+      this.processingQueue = true;
+      
+      try {
+        const now = new Date();
+        // Rescheduled posts wait in the queue until their time comes
+        const nextTweet = this.tweetQueue.find(entry => entry.time.getTime() <= now.getTime());
         
-        try {
-          const now = new Date();
-          const nextTweet = this.tweetQueue[0];
-          
-          // Check if enough time has passed since the last tweet
-          const timeSinceLastTweet = now.getTime() - this.lastTweetTime.getTime();
+        // Check if enough time has passed since the last tweet
+        const timeSinceLastTweet = now.getTime() - this.lastTweetTime.getTime();
+        
+        if (!nextTweet) {
+          console.log(`Nothing due yet. ${this.tweetQueue.length} tweets scheduled for later.`);
+        } else if (timeSinceLastTweet >= this.tweetInterval) {
+          // Post the tweet; long summaries go out as one thread, picking up after the parts
+          // an earlier attempt got out
+          const result = await this.socialClient.postThread(nextTweet.text, nextTweet.postedIds);
+          const { tweetIds } = result;
           
-          if (timeSinceLastTweet >= this.tweetInterval) {
-            // Post the tweet
-            const tweetId = await this.twitterClient.postTweet(nextTweet.text);
+          if (tweetIds.length > 0 && result.error && isRetryable(result.error)) {
+            // The thread broke off midway: the rest stays queued, to go out as replies to the
+            // last part posted, and the post counts once the thread is complete
+            const retryAt = result.error.retryAt;
+            this.saveQueueProgress(nextTweet.id, tweetIds);
+            console.log(`Queued thread ${nextTweet.id} broke off after ${tweetIds.length} tweets; posting the rest ${retryAt ? `after ${retryAt.toISOString()}` : 'on the next check'}`);
+          }
+          // A complete thread counts as posted; so does one the API turned away as a duplicate
+          // of what an earlier attempt posted, and one that broke off for good
+          else if (tweetIds.length > 0 || result.duplicate) {
+            if (result.error) {
+              console.error(`Queued thread ${nextTweet.id} stopped after ${tweetIds.length} tweets (${result.error.kind}: ${result.error.message})`);
+            }
             
-            if (tweetId) {
-              // Update tracking variables
-              this.lastTweetTime = now;
-              this.tweetsPostedToday++;
-              
-              // Remove from queue
-              this.tweetQueue.shift();
-              
-              console.log(`Posted tweet from queue. ${this.tweetQueue.length} tweets remaining in queue.`);
+            // Update tracking variables
+            this.lastTweetTime = now;
+            this.tweetsPostedToday++;
+            this.saveCounters();
+            this.stateStore.recordTweet(nextTweet.text, tweetIds[0], nextTweet.articleId, tweetIds);
+            if (tweetIds.length > 0) {
+              this.engagement.track(tweetIds[0], nextTweet.articleId, nextTweet.attribution);
             }
+            
+            // Remove from queue
+            this.removeFromQueue(nextTweet.id);
+            
+            console.log(`Posted tweet from queue. ${this.tweetQueue.length} tweets remaining in queue.`);
+          } else if (result.error && !isRetryable(result.error)) {
+            // Posting it again would fail the same way
+            this.removeFromQueue(nextTweet.id);
+            console.error(`Dropped queued tweet ${nextTweet.id} (${result.error.kind}: ${result.error.message})`);
           } else {
-            console.log(`Waiting to post next tweet. ${Math.round((this.tweetInterval - timeSinceLastTweet) / 60000)} minutes remaining.`);
+            const retryAt = result.error && result.error.retryAt;
+            console.log(`Queued tweet ${nextTweet.id} stays in the queue; retrying ${retryAt ? `after ${retryAt.toISOString()}` : 'on the next check'}`);
           }
-        } catch (error) {
-          console.error('Error processing tweet queue:', error);
+        } else {
+          console.log(`Waiting to post next tweet. ${Math.round((this.tweetInterval - timeSinceLastTweet) / 60000)} minutes remaining.`);
         }
-        
-        this.processingQueue = false;
+      } catch (error) {
+        console.error('Error processing tweet queue:', error);
       }
-    }, 5 * 60 * 1000); // Check the queue every 5 minutes
+      
+      this.processingQueue = false;
+    }
+  }
+  
+  private saveQueueProgress(id: string, postedIds: string[]): void {
+    this.tweetQueue = this.tweetQueue.map(entry => (entry.id === id ? { ...entry, postedIds } : entry));
+    this.stateStore.saveQueueProgress(id, postedIds);
+  }
+  
+  private removeFromQueue(id: string): void {
+    this.tweetQueue = this.tweetQueue.filter(entry => entry.id !== id);
+    this.stateStore.dequeue(id);
   }
   
   // Handle mentions on Twitter
@@ -119,7 +274,10 @@ export class TwitterPubMedAgent extends PubMedAgent {
       // Create a simplified mention object
       const mention: TwitterMention = {
         id: tweet.id,
-        text: tweetText.replace(/@\w+/g, '').trim(), // Remove @mentions
+        // Drop the @handles the tweet opens with; later ones may be arguments, e.g. /block @user
+        text: tweetText.replace(/^(\s*@\w+)+/, '').trim(),
+        // Replies to our replies share the conversation ID of the thread they started in
+        conversationId: tweet.conversation_id || tweet.id,
         author: {
           id: tweet.author_id,
           username: 'user' // Will get actual username from includes if available
@@ -134,30 +292,35 @@ export class TwitterPubMedAgent extends PubMedAgent {
         }
       }
       
-      // Parse the mention text for commands
-      if (mention.text.toLowerCase().startsWith('/search') || 
-          mention.text.toLowerCase().includes('search for')) {
-        // Handle search request
-        const searchQuery = mention.text.replace(/^\/search|search for/i, '').trim();
-        await this.handleSearchMention(mention, searchQuery);
-      } 
-      else if (mention.text.toLowerCase().startsWith('/summarize') || 
-               mention.text.match(/summarize\s+\d+/i)) {
-        // Handle summarize request
-        const pmidMatch = mention.text.match(/\b(\d{5,10})\b/);
-        if (pmidMatch && pmidMatch[1]) {
-          await this.handleSummarizeMention(mention, pmidMatch[1]);
-        } else {
-          // No valid PMID found
-          await this.twitterClient.replyToTweet(mention.id, 
-            `Hi @${mention.author.username}! I need a valid PubMed ID to summarize an article. Try something like "/summarize 12345678" 🔍`);
-        }
+      // Commands (including "search for ..." and "summarize <id>") go through the shared registry
+      const message = new Message(
+        mention.text,
+        { displayName: mention.author.username, id: mention.author.id, username: mention.author.username },
+        { id: mention.id, channel: 'mention', conversationId: mention.conversationId }
+      );
+      const conversation = this.conversations.get(mention.conversationId);
+      const commandText = this.resolveCommandReferences(this.toCommandText(mention.text), mention.text, conversation);
+      const followUp = conversation && conversation.articles.length > 0 ? detectFollowUp(mention.text) : null;
+      
+      // Per-user quotas, repeat detection and the block list
+      if (!(await this.admitMessage(message, !!followUp || this.isExpensiveRequest(commandText, mention.text)))) {
+        return;
+      }
+      
+      if (commandText) {
+        await this.dispatchCommand(message, commandText);
+      }
+      // Personal medical advice is refused before anything else gets a say
+      else if (this.safetyGuard.isAdviceRequest(mention.text)) {
+        await this.socialClient.replyToTweet(mention.id,
+          `@${mention.author.username} ${this.safetyGuard.refuseAdvice(mention.text)}`);
+      }
+      // Questions about an article we showed earlier in this thread
+      else if (conversation && followUp) {
+        await this.handleFollowUpMention(mention, conversation, followUp);
       }
       // Handle general questions/requests
-      else if (mention.text.includes('?') || 
-               mention.text.toLowerCase().includes('what') || 
-               mention.text.toLowerCase().includes('how') || 
-               mention.text.toLowerCase().includes('why')) {
+      else if (this.isQuestion(mention.text)) {
         await this.handleQuestionMention(mention);
       }
       // Handle greetings
@@ -174,21 +337,80 @@ export class TwitterPubMedAgent extends PubMedAgent {
     }
   }
   
-  private async handleSearchMention(mention: TwitterMention, query: string) {
+  // Mentions get the Twitter-style search replies; other channels use the default list
+  protected async handleSearchCommand(msg: Message, request: SearchRequest): Promise<void> {
+    if (msg.isMention() && msg.id) {
+      await this.handleSearchMention(this.mentionFromMessage(msg), request);
+      return;
+    }
+    await super.handleSearchCommand(msg, request);
+  }
+  
+  protected async handleSummarizeCommand(msg: Message, articleId: string): Promise<void> {
+    if (msg.isMention() && msg.id) {
+      await this.handleSummarizeMention(this.mentionFromMessage(msg), articleId);
+      return;
+    }
+    await super.handleSummarizeCommand(msg, articleId);
+  }
+  
+  // Command replies to a mention go back to that tweet, as a thread if they're long
+  async reply(message: Message, content: string): Promise<void> {
+    if (!message.isMention() || !message.id) {
+      super.reply(message, content);
+      return;
+    }
+    
+    try {
+      const username = message.author && message.author.username;
+      await this.socialClient.replyWithThread(message.id, content, username ? `@${username} ` : '');
+    } catch (error) {
+      console.error('Error posting reply to Twitter:', error);
+    }
+  }
+  
+  private mentionFromMessage(msg: Message): TwitterMention {
+    return {
+      id: msg.id!,
+      text: msg.content,
+      conversationId: msg.conversationId || msg.id!,
+      author: {
+        id: (msg.author && msg.author.id) || '',
+        username: (msg.author && msg.author.username) || 'user'
+      }
+    };
+  }
+  
+  // Room left in a single-tweet reply once it's addressed to the author
+  private replyLength(mention: TwitterMention): number {
+    return MAX_TWEET_LENGTH - twitterLength(`@${mention.author.username} `);
+  }
+  
+  // The persona that answers a mention, chosen by what it says
+  private mentionPersona(mention: TwitterMention): PersonalityManager {
+    return this.personas.select({ channel: 'mention', topic: mention.text });
+  }
+  
+  private async handleSearchMention(mention: TwitterMention, request: SearchRequest) {
+    const { query, source } = request;
+    const description = this.describeSearch(request);
     // Reply acknowledging the search
-    await this.twitterClient.replyToTweet(mention.id, 
-      `Hey @${mention.author.username}! Searching for recent research on "${query}" ${this.personalityManager.getEmojis('general')}`);
+    await this.socialClient.replyToTweet(mention.id, 
+      `Hey @${mention.author.username}! Searching for recent research on "${description}" ${this.mentionPersona(mention).getEmojis('general')}`);
     
     try {
       // Search for articles
-      const articles = await this.searchRecentArticles(query, 3);
+      const articles = await this.searchRecentArticles(query, request.limit || 3, source, request.days, request.filters);
       
       if (articles.length === 0) {
-        await this.twitterClient.replyToTweet(mention.id,
-          `@${mention.author.username} Couldn't find any recent articles about "${query}". Maybe try a different search term? ${this.personalityManager.getEmojis('general')}`);
+        await this.socialClient.replyToTweet(mention.id,
+          `@${mention.author.username} Couldn't find any recent articles about "${description}". Maybe try a different search term? ${this.mentionPersona(mention).getEmojis('general')}`);
         return;
       }
       
+      // Remember the list, so "summarize #2" in a reply means the second one
+      this.conversations.recordArticles(mention.conversationId, articles, query || undefined);
+      
       // Format each article as a separate reply
       for (let i = 0; i < articles.length; i++) {
         const article = articles[i];
@@ -197,232 +419,321 @@ export class TwitterPubMedAgent extends PubMedAgent {
         let reply = `@${mention.author.username} ${i+1}/${articles.length}: "${article.title}"\n`;
         reply += `Authors: ${this.formatAuthorsShort(article.authors)}\n`;
         reply += `Journal: ${article.journal}\n`;
-        reply += `PMID: ${article.id}\n\n`;
-        reply += `Reply with "/summarize ${article.id}" for my take on this! ${this.personalityManager.getEmojis('excitement')}`;
-        
-        // Post the reply
-        await this.twitterClient.replyToTweet(mention.id, reply);
+        reply += `${this.formatArticleIdLabel(article)}\n\n`;
+        reply += `Reply "summarize #${i+1}" for my take on this! ${this.mentionPersona(mention).getEmojis('excitement')}`;
         
-        // Add a small delay between multiple replies to avoid rate limits
-        if (i < articles.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+        // Post the reply; the Twitter client waits out any rate limit itself
+        await this.socialClient.replyToTweet(mention.id, reply);
       }
     } catch (error) {
       console.error('Error handling search mention:', error);
-      await this.twitterClient.replyToTweet(mention.id,
-        `@${mention.author.username} Oops, something went wrong with that search. Can you try again? ${this.personalityManager.getEmojis('general')}`);
+      await this.socialClient.replyToTweet(mention.id,
+        `@${mention.author.username} Oops, something went wrong with that search. Can you try again? ${this.mentionPersona(mention).getEmojis('general')}`);
     }
   }
   
-  private async handleSummarizeMention(mention: TwitterMention, pmid: string) {
+  private async handleSummarizeMention(mention: TwitterMention, articleId: string) {
     try {
       // Reply acknowledging the request
-      await this.twitterClient.replyToTweet(mention.id, 
-        `Hey @${mention.author.username}! Getting that summary for PMID: ${pmid} ${this.personalityManager.getEmojis('general')}`);
+      await this.socialClient.replyToTweet(mention.id, 
+        `Hey @${mention.author.username}! Getting that summary for ${articleId} ${this.mentionPersona(mention).getEmojis('general')}`);
       
       // Fetch and summarize the article
-      const article = await this.fetchArticleById(pmid);
+      const article = await this.fetchArticleById(articleId);
       const fullContent = await this.fetchFullArticleContent(article);
       
       // Generate the summary with personality
-      const summary = this.generateSummary(article, fullContent);
+      const summary = await this.generateSummary(article, fullContent, 'mention');
+      this.conversations.recordFocus(mention.conversationId, article);
       
-      // Add mention to the summary
-      const reply = `@${mention.author.username} ${summary}`;
-      
-      // Post the summary
-      await this.twitterClient.replyToTweet(mention.id, reply);
+      // Post the summary as a thread, mentioning the user in the first part
+      await this.socialClient.replyWithThread(mention.id, summary, `@${mention.author.username} `);
     } catch (error) {
       console.error('Error handling summarize mention:', error);
-      await this.twitterClient.replyToTweet(mention.id,
-        `@${mention.author.username} Couldn't find that article (PMID: ${pmid}). Is the ID correct? ${this.personalityManager.getEmojis('general')}`);
+      await this.socialClient.replyToTweet(mention.id,
+        `@${mention.author.username} Couldn't find that article (${articleId}). Is the ID correct? ${this.mentionPersona(mention).getEmojis('general')}`);
     }
   }
   
   private async handleQuestionMention(mention: TwitterMention) {
     const text = mention.text.toLowerCase();
+    const conversation = this.conversations.get(mention.conversationId);
     
-    // Try to identify topics in the question
-    const topicMatches = this.priorityTopics.filter(topic => text.includes(topic));
+    // Try to identify topics in the question; otherwise stay on the topic of the thread
+    const topicMatches = this.config.priorityTopics.filter(topic => text.includes(topic));
+    if (topicMatches.length === 0 && conversation && conversation.topic) {
+      topicMatches.push(conversation.topic);
+    }
     
     if (topicMatches.length > 0) {
       // Question mentions a specific topic
       const topic = topicMatches[0];
+      this.conversations.recordTopic(mention.conversationId, topic);
       
       // Reply with personality
-      const response = this.personalityManager.generateTopicResponse(
+      const response = this.mentionPersona(mention).generateTopicResponse(
         topic,
-        "Let me find the latest research on this for you..."
+        "Let me find the latest research on this for you...",
+        { maxLength: this.replyLength(mention) }
       );
       
-      await this.twitterClient.replyToTweet(mention.id, 
+      await this.socialClient.replyToTweet(mention.id, 
         `@${mention.author.username} ${response}`);
       
       // Search for articles on this topic
       try {
-        const articles = await this.searchRecent
-        private async handleQuestionMention(mention: TwitterMention) {
-            const text = mention.text.toLowerCase();
-            
-            // Try to identify topics in the question
-            const topicMatches = this.priorityTopics.filter(topic => text.includes(topic));
-            
-            if (topicMatches.length > 0) {
-              // Question mentions a specific topic
-              const topic = topicMatches[0];
-              
-              // Reply with personality
-              const response = this.personalityManager.generateTopicResponse(
-                topic,
-                "Let me find the latest research on this for you..."
-              );
-              
-              await this.twitterClient.replyToTweet(mention.id, 
-                `@${mention.author.username} ${response}`);
-              
-              // Search for articles on this topic
-              try {
-                const articles = await this.searchRecentArticles(topic, 2);
-                
-                if (articles.length > 0) {
-                  // Reply with the top article
-                  const article = articles[0];
-                  const fullContent = await this.fetchFullArticleContent(article);
-                  const summary = this.generateSummary(article, fullContent);
-                  
-                  await this.twitterClient.replyToTweet(mention.id, 
-                    `@${mention.author.username} Found something interesting! ${summary}`);
-                } else {
-                  await this.twitterClient.replyToTweet(mention.id,
-                    `@${mention.author.username} Couldn't find recent research on ${topic}. Try another topic? ${this.personalityManager.getEmojis('general')}`);
-                }
-              } catch (error) {
-                console.error('Error handling topic question:', error);
-              }
-            } else {
-              // Generic question without specific topic
-              const genericResponse = this.personalityManager.formatResponse('questionResponse', {
-                topic: "medical research",
-                answer: "To help you better, could you specify which medical topic you're interested in? Try mentioning a topic like neuroscience, cancer, vaccines, etc."
-              });
-              
-              await this.twitterClient.replyToTweet(mention.id, 
-                `@${mention.author.username} ${genericResponse}`);
-            }
-          }
-          
-          private async handleGreetingMention(mention: TwitterMention) {
-            const greeting = this.personalityManager.generateGreeting(mention.author.username);
-            
-            await this.twitterClient.replyToTweet(mention.id, 
-              `@${mention.author.username} ${greeting}`);
-          }
-          
-          private async handleGenericMention(mention: TwitterMention) {
-            // Generic response for other mentions
-            const responses = [
-              `Hey @${mention.author.username}! Not sure what you're asking for. Try asking about recent medical research or use "/search [topic]" to find articles! ${this.personalityManager.getEmojis('general')}`,
-              `@${mention.author.username} Want to see the latest medical research? Try "/search [topic]" or ask me a question about a specific medical topic! ${this.personalityManager.getEmojis('general')}`,
-              `Hi @${mention.author.username}! I'm here to share the freshest medical research. Ask me about a topic you're interested in! ${this.personalityManager.getEmojis('general')}`
-            ];
-            
-            const response = responses[Math.floor(Math.random() * responses.length)];
-            await this.twitterClient.replyToTweet(mention.id, response);
-          }
-          
-          // Override the postTweet method to use the Twitter API
-          async postTweet(text: string): Promise<void> {
-            try {
-              // Add to queue instead of posting immediately
-              this.tweetQueue.push({
-                text,
-                time: new Date()
-              });
-              
-              console.log(`Added tweet to queue. Queue length: ${this.tweetQueue.length}`);
-            } catch (error) {
-              console.error('Error queueing tweet:', error);
-            }
-          }
-          
-          // Override the replyToTweet method to use the Twitter API
-          async replyToTweet(tweetId: string, text: string): Promise<void> {
-            try {
-              await this.twitterClient.replyToTweet(tweetId, text);
-            } catch (error) {
-              console.error('Error posting reply to Twitter:', error);
-            }
-          }
-          
-          // Override findAndTweetTopArticle to post to Twitter
-          async findAndTweetTopArticle(): Promise<void> {
-            // Use the original implementation
-            await super.findAndTweetTopArticle();
-          }
-          
-          // Override generateSummary to use personality
-          generateSummary(article: any, content: any): string {
-            // Extract key information for the summary
-            const title = article.title.replace(/\.$/, '');
-            const journal = article.journal;
-            
-            // Extract main points from abstract (using original logic)
-            const abstractSentences = content.fullText.split(/\.\s+/);
-            let mainPoint = abstractSentences.find(s => 
-              s.toLowerCase().includes('conclude') || 
-              s.toLowerCase().includes('finding') ||
-              s.toLowerCase().includes('result')
-            ) || abstractSentences[abstractSentences.length - 1];
-            
-            // Clean up the main point using original method
-            mainPoint = this.simplifyText(mainPoint);
-            
-            // Generate hashtags using original method
-            const hashtags = this.generateRelevantHashtags(article, content);
-            
-            // Determine primary topic for customization
-            const primaryTopic = this.determineMainTopic(article, content);
-            
-            // Use personality system to format response
-            let summary = this.personalityManager.formatResponse('summaryFormat', {
-              articleTitle: title,
-              journal: journal,
-              simplifiedPoint: mainPoint,
-              hashtags: hashtags
-            });
-            
-            // Add topic-specific customization based on the bot's interests
-            summary = this.personalityManager.customizeArticleSummary(summary, primaryTopic);
-            
-            return summary;
-          }
+        const articles = await this.searchRecentArticles(topic, 2);
+        
+        if (articles.length > 0) {
+          // Reply with the top article
+          const article = articles[0];
+          const fullContent = await this.fetchFullArticleContent(article);
+          const summary = await this.generateSummary(article, fullContent, 'mention');
+          this.conversations.recordFocus(mention.conversationId, article, topic);
           
-          // Helper method to determine the main topic of an article
-          private determineMainTopic(article: any, content: any): string {
-            const fullText = (article.title + " " + content.fullText).toLowerCase();
-            
-            // Check against topic enthusiasm keys
-            const topics = Object.keys(this.personalityManager['personality'].topicEnthusiasm);
-            
-            for (const topic of topics) {
-              if (fullText.includes(topic)) {
-                return topic;
-              }
-            }
-            
-            // Check against priority topics from original agent
-            for (const topic of this.priorityTopics) {
-              if (fullText.includes(topic)) {
-                return topic;
-              }
-            }
-            
-            return "general";
-          }
+          await this.socialClient.replyWithThread(mention.id, summary,
+            `@${mention.author.username} Found something interesting! `);
+        } else {
+          await this.socialClient.replyToTweet(mention.id,
+            `@${mention.author.username} Couldn't find recent research on ${topic}. Try another topic? ${this.mentionPersona(mention).getEmojis('general')}`);
         }
-        
-        // Create the Twitter-enabled agent instance for export
-        const twitterPubMedAgent = new TwitterPubMedAgent();
-        
-        export default twitterPubMedAgent;
\ No newline at end of file
+      } catch (error) {
+        console.error('Error handling topic question:', error);
+      }
+    } else {
+      // Generic question without specific topic
+      const genericResponse = this.mentionPersona(mention).formatResponse('questionResponse', {
+        topic: "medical research",
+        answer: "To help you better, could you specify which medical topic you're interested in? Try mentioning a topic like neuroscience, cancer, vaccines, etc."
+      }, { maxLength: this.replyLength(mention) });
+      
+      await this.socialClient.replyToTweet(mention.id, 
+        `@${mention.author.username} ${genericResponse}`);
+    }
+  }
+  
+  // "summarize #2" or "summarize that study" in a thread where we listed articles:
+  // swap the reference for the article's ID before the command is parsed
+  private resolveCommandReferences(commandText: string | null, text: string, conversation?: Conversation): string | null {
+    const summarize = commandText && commandText.match(/^\/(summarize|summary|tldr)\b\s*(\S*)/i);
+    if (!summarize || !conversation || this.isValidArticleId(summarize[2])) {
+      return commandText;
+    }
+    
+    const article = resolveArticleReference(text, conversation);
+    return article ? `/summarize ${article.id}` : commandText;
+  }
+  
+  private async handleFollowUpMention(mention: TwitterMention, conversation: Conversation, kind: FollowUpKind) {
+    const target = resolveArticleReference(mention.text, conversation);
+    
+    if (!target) {
+      await this.socialClient.replyToTweet(mention.id,
+        `@${mention.author.username} Which one do you mean? Reply with #1-#${conversation.articles.length} ${this.mentionPersona(mention).getEmojis('general')}`);
+      return;
+    }
+    
+    try {
+      const article = await this.fetchArticleById(target.id);
+      const fullContent = await this.fetchFullArticleContent(article);
+      const answer = await this.answerArticleQuestion(kind, article, fullContent);
+      this.conversations.recordFocus(mention.conversationId, article);
+      
+      await this.socialClient.replyWithThread(mention.id, answer, `@${mention.author.username} `);
+    } catch (error) {
+      console.error('Error answering follow-up mention:', error);
+      await this.socialClient.replyToTweet(mention.id,
+        `@${mention.author.username} Couldn't pull up ${target.id} just now. Try again in a bit? ${this.mentionPersona(mention).getEmojis('general')}`);
+    }
+  }
+  
+  private async handleGreetingMention(mention: TwitterMention) {
+    const greeting = this.mentionPersona(mention).generateGreeting(mention.author.username, { maxLength: this.replyLength(mention) });
+    
+    await this.socialClient.replyToTweet(mention.id, 
+      `@${mention.author.username} ${greeting}`);
+  }
+  
+  private async handleGenericMention(mention: TwitterMention) {
+    // Generic response for other mentions
+    const responses = [
+      `Hey @${mention.author.username}! Not sure what you're asking for. Try asking about recent medical research or use "/search [topic]" to find articles! ${this.mentionPersona(mention).getEmojis('general')}`,
+      `@${mention.author.username} Want to see the latest medical research? Try "/search [topic]" or ask me a question about a specific medical topic! ${this.mentionPersona(mention).getEmojis('general')}`,
+      `Hi @${mention.author.username}! I'm here to share the freshest medical research. Ask me about a topic you're interested in! ${this.mentionPersona(mention).getEmojis('general')}`
+    ];
+    
+    await this.socialClient.replyToTweet(mention.id, this.getRandomResponse(responses));
+  }
+  
+  // Override the postTweet method to use the Twitter API. The queue processor posts it
+  // later and counts it then; a candidate for review may never go out at all.
+  async postTweet(text: string, articleId?: string, context?: PostContext): Promise<QueueOutcome> {
+    return this.queueTweet(text, articleId, context);
+  }
+  
+  // Safety review, then into the tweet queue (or the review queue in approval mode)
+  queueTweet(text: string, articleId?: string, context?: PostContext): QueueOutcome {
+    // Review before queueing, so a blocked post doesn't sit at the head of the queue
+    const verdict = this.safetyGuard.review(text, { kind: 'post' });
+    if (verdict.action === 'block') {
+      return { status: 'blocked', reasons: verdict.reasons };
+    }
+    text = verdict.text;
+    
+    const attribution = postAttribution(context);
+    if (this.approvals) {
+      const candidate = this.approvals.submit(text, { articleId, article: context && context.article, rating: context && context.rating, attribution });
+      console.log(`Post ${candidate.id} is awaiting review (npm run review -- show ${candidate.id})`);
+      return { status: 'awaiting-approval', id: candidate.id };
+    }
+    
+    // Add to queue instead of posting immediately
+    const entry: QueuedTweet = {
+      id: `${Date.now()}-${articleId || 'manual'}`,
+      text,
+      time: new Date(),
+      articleId,
+      attribution
+    };
+    this.tweetQueue.push(entry);
+    this.stateStore.enqueue(entry);
+    
+    console.log(`Added tweet to queue. Queue length: ${this.tweetQueue.length}`);
+    return { status: 'queued', entry: { ...entry } };
+  }
+  
+  getQueuedTweets(): QueuedTweet[] {
+    return this.tweetQueue.map(entry => ({ ...entry }));
+  }
+  
+  // Take a tweet out of the queue before it's posted; false if it isn't queued
+  cancelQueuedTweet(id: string): boolean {
+    if (!this.tweetQueue.some(entry => entry.id === id)) {
+      return false;
+    }
+    this.removeFromQueue(id);
+    console.log(`Removed tweet ${id} from the queue. Queue length: ${this.tweetQueue.length}`);
+    return true;
+  }
+  
+  // Move posts approved in the review CLI into the tweet queue, at their scheduled time if they have one
+  private collectApprovedPosts() {
+    if (!this.approvals) {
+      return;
+    }
+    
+    this.approvals.load();
+    for (const candidate of this.approvals.list('approved')) {
+      const entry: QueuedTweet = {
+        id: candidate.id,
+        text: candidate.text,
+        time: candidate.scheduledFor ? new Date(candidate.scheduledFor) : new Date(),
+        articleId: candidate.articleId,
+        attribution: candidate.attribution
+      };
+      this.tweetQueue.push(entry);
+      this.stateStore.enqueue(entry);
+      this.approvals.markQueued(candidate.id);
+      
+      console.log(`Approved post ${candidate.id} added to the queue for ${entry.time.toISOString()}`);
+    }
+  }
+  
+  // Override the replyToTweet method to use the Twitter API
+  async replyToTweet(tweetId: string, text: string): Promise<void> {
+    try {
+      await this.socialClient.replyToTweet(tweetId, text);
+    } catch (error) {
+      console.error('Error posting reply to Twitter:', error);
+    }
+  }
+  
+  // Override findAndTweetTopArticle to post to Twitter
+  async findAndTweetTopArticle(): Promise<void> {
+    // Use the original implementation
+    await super.findAndTweetTopArticle();
+  }
+  
+  // Override generateSummary to use personality
+  async generateSummary(article: PubMedArticle, content: ArticleContent, channel: PersonaChannel = 'post'): Promise<string> {
+    // Extract key information for the summary
+    const title = article.title.replace(/\.$/, '');
+    const journal = article.journal;
+    
+    // The persona for this channel, topic and time of day
+    const persona = this.summaryPersona(article, content, channel);
+    
+    // The key finding, written by the configured summarizer in the persona's voice
+    const mainPoint = await this.summarizer.summarize(article, content, persona.getStylePrompt());
+    
+    // Generate hashtags using original method
+    const hashtags = this.generateRelevantHashtags(article, content);
+    
+    // Determine primary topic for customization
+    const primaryTopic = this.determineMainTopic(article, content, persona);
+    
+    // Use personality system to format response
+    let summary = persona.formatResponse('summaryFormat', {
+      articleTitle: title,
+      journal: journal,
+      simplifiedPoint: mainPoint,
+      limitationNote: this.formatLimitationNote(content),
+      hashtags: hashtags
+    }, { topic: primaryTopic, threaded: true });
+    
+    // Add topic-specific customization based on the bot's interests
+    summary = persona.customizeArticleSummary(summary, primaryTopic);
+    
+    // The preprint warning goes outside the template so no persona can drop it
+    return this.reviewArticleText(this.formatSourceLabel(article) + summary, article, content);
+  }
+  
+  private summaryPersona(article: PubMedArticle, content: ArticleContent, channel: PersonaChannel): PersonalityManager {
+    return this.personas.select({ channel, topic: this.getSearchableText(article, content) });
+  }
+  
+  protected postVoice(article: PubMedArticle, content: ArticleContent): PostVoice {
+    return { persona: this.summaryPersona(article, content, 'post').getId(), pattern: 'summaryFormat' };
+  }
+  
+  // Helper method to determine the main topic of an article
+  private determineMainTopic(article: PubMedArticle, content: ArticleContent, persona: PersonalityManager): string {
+    const fullText = this.getSearchableText(article, content);
+    
+    // Check against topic enthusiasm keys
+    for (const topic of persona.getTopics()) {
+      if (fullText.includes(topic)) {
+        return topic;
+      }
+    }
+    
+    // Check against priority topics from original agent
+    for (const topic of this.config.priorityTopics) {
+      if (fullText.includes(topic)) {
+        return topic;
+      }
+    }
+    
+    return "general";
+  }
+}
+
+// What to keep with a post for its engagement numbers; posts without an article have nothing
+function postAttribution(context?: PostContext): PostAttribution | undefined {
+  if (!context) {
+    return undefined;
+  }
+  return {
+    topic: context.topic,
+    persona: context.persona,
+    pattern: context.pattern,
+    score: context.rating.score,
+    tier: context.rating.tier
+  };
+}
+
+// Build the Twitter-enabled agent. Nothing is constructed at import time, so callers
+// can choose the social client (and credentials are only needed for live runs).
+export function createTwitterPubMedAgent(options: TwitterPubMedAgentOptions = {}): TwitterPubMedAgent {
+  return new TwitterPubMedAgent(options);
+}
\ No newline at end of file
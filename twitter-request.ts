@@ -0,0 +1,155 @@
+import { ApiResponseError, ITwitterApiClientPlugin, SingleTwitterRateLimit, TwitterRateLimit } from 'twitter-api-v2';
+import { PostError } from './social-client';
+
+// The request layer under TwitterClient. It remembers the rate limit headers of every
+// response per endpoint and waits for the window to reset rather than running into a
+// 429. 5xx and network errors are retried with exponential backoff and jitter. Every
+// call ends in a TwitterResult, so callers can tell "try again later" apart from
+// "this will never go through".
+
+export type TwitterResult<T> =
+  | { ok: true; value: T }
+  // The API refused the post as a duplicate: an earlier attempt already went out
+  | { ok: true; value: null; duplicate: true }
+  | { ok: false; error: PostError };
+
+export interface TwitterRequesterOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Longer waits for a rate limit window are handed back to the caller instead
+  maxWaitMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+// "/2/users/1234/mentions" -> "/2/users/:id/mentions", so IDs share one limit
+function endpointKey(method: string, pathname: string): string {
+  return `${method.toUpperCase()} ${pathname.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+// The time (ms) an exhausted limit frees up, or null if there's room. Tweet posting
+// also has daily app and user caps, reported alongside the 15-minute window.
+function exhaustedUntil(rateLimit: TwitterRateLimit): number | null {
+  const windows = [rateLimit, rateLimit.day, rateLimit.userDay]
+    .filter((window): window is SingleTwitterRateLimit => !!window && window.remaining <= 0);
+  return windows.length > 0 ? Math.max(...windows.map(window => window.reset * 1000)) : null;
+}
+
+function isDuplicateContent(error: ApiResponseError): boolean {
+  const messages = [error.data.detail, error.data.title, ...(error.errors || []).map((e: any) => e.message)];
+  return error.hasErrorCode(187) || messages.some(message => /duplicate content/i.test(message || ''));
+}
+
+export class TwitterRequester {
+  private options: Required<TwitterRequesterOptions>;
+  private limits: Map<string, TwitterRateLimit> = new Map();
+
+  constructor(options: TwitterRequesterOptions = {}) {
+    this.options = {
+      maxRetries: 4,
+      baseDelayMs: 1000,
+      maxDelayMs: 60 * 1000,
+      maxWaitMs: 15 * 60 * 1000,
+      sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+      random: Math.random,
+      ...options
+    };
+  }
+
+  // Pass to the TwitterApi settings ({ plugins: [...] }) so every response's limits are seen
+  plugin(): ITwitterApiClientPlugin {
+    return {
+      onAfterRequest: ({ url, params, response }) => {
+        if (response.rateLimit) {
+          this.limits.set(endpointKey(params.method, url.pathname), response.rateLimit);
+        }
+      },
+      onResponseError: ({ url, params, error }) => {
+        if (error.rateLimit) {
+          this.limits.set(endpointKey(params.method, url.pathname), error.rateLimit);
+        }
+      }
+    };
+  }
+
+  // endpoint is the method and path the request goes to, e.g. "POST /2/tweets"
+  async run<T>(endpoint: string, request: () => Promise<T>): Promise<TwitterResult<T>> {
+    const [method, pathname] = endpoint.split(' ');
+    const key = endpointKey(method, pathname);
+
+    for (let attempt = 0; ; attempt++) {
+      const limit = this.limits.get(key);
+      const resetAt = limit ? exhaustedUntil(limit) : null;
+      if (resetAt && resetAt > Date.now()) {
+        const wait = resetAt - Date.now();
+        if (wait > this.options.maxWaitMs) {
+          return this.failure(endpoint, { kind: 'rate-limited', message: `${endpoint} is rate limited`, status: 429, retryAt: new Date(resetAt) });
+        }
+        console.log(`${endpoint} is rate limited, waiting ${Math.ceil(wait / 1000)}s for the window to reset`);
+        await this.options.sleep(wait + 1000);
+      }
+
+      try {
+        return { ok: true, value: await request() };
+      } catch (error) {
+        const failure = this.classify(error);
+        if (failure === 'duplicate') {
+          console.log(`${endpoint}: already posted (duplicate content), treating as sent`);
+          return { ok: true, value: null, duplicate: true };
+        }
+
+        if (failure.kind === 'rate-limited') {
+          // Loop round: the recorded limit makes the next attempt wait for the reset
+          if (!this.limits.has(key) || !exhaustedUntil(this.limits.get(key)!)) {
+            const retryAt = failure.retryAt ? failure.retryAt.getTime() : Date.now() + DEFAULT_RATE_LIMIT_WAIT_MS;
+            this.limits.set(key, { limit: 0, remaining: 0, reset: Math.ceil(retryAt / 1000) });
+          }
+          if (attempt < this.options.maxRetries) {
+            continue;
+          }
+        }
+
+        if (failure.kind !== 'unavailable' || attempt >= this.options.maxRetries) {
+          return this.failure(endpoint, failure);
+        }
+
+        // Exponential backoff with jitter, so retries from a burst don't line up
+        const backoff = Math.min(this.options.baseDelayMs * Math.pow(2, attempt), this.options.maxDelayMs);
+        const delay = Math.round(backoff / 2 + this.options.random() * backoff / 2);
+        console.warn(`${endpoint} failed (${failure.message}), retry ${attempt + 1} of ${this.options.maxRetries} in ${delay}ms`);
+        await this.options.sleep(delay);
+      }
+    }
+  }
+
+  private classify(error: unknown): PostError | 'duplicate' {
+    if (!(error instanceof ApiResponseError)) {
+      // No response at all: connection reset, timeout, DNS...
+      return { kind: 'unavailable', message: (error as Error).message || String(error) };
+    }
+
+    const message = error.data.detail || error.data.title || error.message;
+    if (error.rateLimitError) {
+      const resetAt = error.rateLimit ? exhaustedUntil(error.rateLimit) : null;
+      return { kind: 'rate-limited', message, status: error.code, retryAt: resetAt ? new Date(resetAt) : undefined };
+    }
+    if (error.code === 403 && isDuplicateContent(error)) {
+      return 'duplicate';
+    }
+    if (error.code >= 500) {
+      return { kind: 'unavailable', message, status: error.code };
+    }
+    if (error.isAuthError || error.code === 401) {
+      return { kind: 'unauthorized', message, status: error.code };
+    }
+    return { kind: 'rejected', message, status: error.code };
+  }
+
+  private failure(endpoint: string, error: PostError): TwitterResult<never> {
+    console.error(`${endpoint} failed (${error.kind}${error.status ? `, HTTP ${error.status}` : ''}): ${error.message}`);
+    return { ok: false, error };
+  }
+}
@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Per-user limits for incoming mentions and DMs: sliding-window quotas, near-duplicate
+// detection, a block list and an allow list. A user who keeps tripping the limits is
+// muted for a day. Everything is kept in a JSON snapshot so it survives restarts.
+
+export interface Quota {
+  limit: number;
+  windowMs: number;
+  label: string;        // as written in the config, e.g. "5/15m"
+}
+
+export interface UserRef {
+  id?: string;
+  username?: string;
+}
+
+export type LimitDecision =
+  | { action: 'allow' }
+  // Blocked, muted or a repeat: drop it without a reply
+  | { action: 'ignore'; reason: string }
+  // Over quota; `notify` is true only for the first refusal of a cooldown, so the
+  // cooldown replies can't be used to make us spam either
+  | { action: 'cooldown'; reason: string; retryAfterMs: number; notify: boolean };
+
+interface UserRecord {
+  id?: string;
+  username?: string;
+  mentions: number[];           // timestamps of every allowed mention
+  expensive: number[];          // ...and of those that cost API calls (searches, summaries)
+  recent: { text: string; at: number }[];
+  strikes: number[];
+  mutedUntil?: number;
+  notifiedUntil?: number;       // no more cooldown replies before this
+}
+
+interface LimitsSnapshot {
+  users: UserRecord[];
+  blocked: { [user: string]: string };      // user -> reason
+  allowed: string[];
+}
+
+const MINUTE = 60 * 1000;
+const UNITS: {[unit: string]: number} = { s: 1000, m: MINUTE, h: 60 * MINUTE, d: 24 * 60 * MINUTE };
+
+const DUPLICATE_WINDOW_MS = 60 * MINUTE;
+const DUPLICATE_SIMILARITY = 0.85;
+const STRIKE_WINDOW_MS = 24 * 60 * MINUTE;
+const STRIKES_BEFORE_MUTE = 3;
+const MUTE_MS = 24 * 60 * MINUTE;
+
+// "5/15m,20/1d" -> at most 5 per 15 minutes and 20 per day
+export function parseQuotas(spec: string): Quota[] {
+  return spec.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d+)\s*\/\s*(\d+)\s*([smhd])$/i);
+    if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+      throw new Error(`"${part}" is not a quota like 5/15m (count/window with s, m, h or d)`);
+    }
+    return { limit: Number(match[1]), windowMs: Number(match[2]) * UNITS[match[3].toLowerCase()], label: part };
+  });
+}
+
+// Usernames match without the @ and case-insensitively; IDs match as given
+function userKeys(user: UserRef): string[] {
+  return [user.id, user.username && user.username.replace(/^@/, '').toLowerCase()].filter((key): key is string => !!key);
+}
+
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/@\w+/g, '').replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Word-set overlap (Jaccard), so reordered or lightly edited repeats still count
+function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.ceil(ms / MINUTE);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)} days`;
+}
+
+export interface UserLimiterOptions {
+  file?: string;
+  mentionQuotas: Quota[];
+  expensiveQuotas: Quota[];
+}
+
+export class UserLimiter {
+  private file?: string;
+  private mentionQuotas: Quota[];
+  private expensiveQuotas: Quota[];
+  private users: Map<string, UserRecord> = new Map();
+  private blocked: Map<string, string> = new Map();
+  private allowed: Set<string> = new Set();
+
+  constructor(options: UserLimiterOptions) {
+    this.file = options.file;
+    this.mentionQuotas = options.mentionQuotas;
+    this.expensiveQuotas = options.expensiveQuotas;
+  }
+
+  load(): void {
+    if (!this.file || !fs.existsSync(this.file)) {
+      return;
+    }
+
+    try {
+      const snapshot: LimitsSnapshot = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      this.users = new Map(snapshot.users.map(record => [userKeys(record)[0], record] as [string, UserRecord]));
+      this.blocked = new Map(Object.entries(snapshot.blocked || {}));
+      this.allowed = new Set(snapshot.allowed || []);
+    } catch (error) {
+      console.error(`Error reading user limits from ${this.file}, starting fresh:`, error);
+    }
+  }
+
+  // Decide what to do with a mention and, if it's allowed, count it
+  check(user: UserRef, text: string, expensive: boolean, now: number = Date.now()): LimitDecision {
+    if (this.isBlocked(user)) {
+      return { action: 'ignore', reason: 'blocked' };
+    }
+    if (this.isAllowed(user)) {
+      return { action: 'allow' };
+    }
+
+    const record = this.getRecord(user);
+    this.prune(record, now);
+
+    if (record.mutedUntil && record.mutedUntil > now) {
+      return { action: 'ignore', reason: `muted for another ${formatDuration(record.mutedUntil - now)}` };
+    }
+
+    const normalized = normalizeForComparison(text);
+    if (normalized && record.recent.some(previous => similarity(previous.text, normalized) >= DUPLICATE_SIMILARITY)) {
+      this.strike(record, now);
+      this.save(now);
+      return { action: 'ignore', reason: 'repeat of a recent mention' };
+    }
+
+    const over = [
+      ...this.mentionQuotas.map(quota => ({ quota, times: record.mentions })),
+      ...(expensive ? this.expensiveQuotas.map(quota => ({ quota, times: record.expensive })) : [])
+    ].map(({ quota, times }) => {
+      const inWindow = times.filter(time => time > now - quota.windowMs);
+      // The window frees up once the oldest counted mention slides out of it
+      return inWindow.length >= quota.limit ? { quota, retryAfterMs: inWindow[0] + quota.windowMs - now } : null;
+    }).filter((result): result is { quota: Quota; retryAfterMs: number } => result !== null);
+
+    if (over.length > 0) {
+      const retryAfterMs = Math.max(...over.map(result => result.retryAfterMs));
+      const notify = !record.notifiedUntil || record.notifiedUntil <= now;
+      if (notify) {
+        record.notifiedUntil = now + retryAfterMs;
+      } else {
+        // Still hammering away after being told to wait
+        this.strike(record, now);
+      }
+      this.save(now);
+      return { action: 'cooldown', reason: `over ${over.map(result => result.quota.label).join(', ')}`, retryAfterMs, notify };
+    }
+
+    record.mentions.push(now);
+    if (expensive) {
+      record.expensive.push(now);
+    }
+    record.recent.push({ text: normalized, at: now });
+    this.save(now);
+    return { action: 'allow' };
+  }
+
+  cooldownMessage(decision: { retryAfterMs: number }): string {
+    return `You're sending requests faster than I can keep up 😅 Give me about ${formatDuration(decision.retryAfterMs)} and try again!`;
+  }
+
+  isBlocked(user: UserRef): boolean {
+    return userKeys(user).some(key => this.blocked.has(key));
+  }
+
+  isAllowed(user: UserRef): boolean {
+    return userKeys(user).some(key => this.allowed.has(key));
+  }
+
+  block(user: string, reason: string = 'blocked by an admin'): void {
+    this.blocked.set(userKeys({ username: user })[0], reason);
+    this.save();
+  }
+
+  unblock(user: string): boolean {
+    const removed = this.blocked.delete(userKeys({ username: user })[0]);
+    this.save();
+    return removed;
+  }
+
+  allow(user: string): void {
+    this.allowed.add(userKeys({ username: user })[0]);
+    this.save();
+  }
+
+  unallow(user: string): boolean {
+    const removed = this.allowed.delete(userKeys({ username: user })[0]);
+    this.save();
+    return removed;
+  }
+
+  // Forget a user's counters, strikes and mute; block and allow list entries stay
+  reset(user: string): boolean {
+    const record = this.findRecord(user);
+    if (!record) {
+      return false;
+    }
+    this.users.delete(userKeys(record)[0]);
+    this.save();
+    return true;
+  }
+
+  describe(user: string, now: number = Date.now()): string {
+    const key = userKeys({ username: user })[0];
+    const lines = [`@${key}:`];
+
+    if (this.blocked.has(key)) {
+      lines.push(`  blocked (${this.blocked.get(key)})`);
+    }
+    if (this.allowed.has(key)) {
+      lines.push('  on the allow list, no limits apply');
+    }
+
+    const record = this.findRecord(user);
+    if (!record) {
+      lines.push('  no recent activity');
+      return lines.join('\n');
+    }
+
+    this.prune(record, now);
+    const usage = (quotas: Quota[], times: number[]) =>
+      quotas.map(quota => `${times.filter(time => time > now - quota.windowMs).length}/${quota.label}`).join(', ');
+
+    lines.push(`  mentions: ${usage(this.mentionQuotas, record.mentions)}`);
+    lines.push(`  searches and summaries: ${usage(this.expensiveQuotas, record.expensive)}`);
+    lines.push(`  strikes in the last 24h: ${record.strikes.length}`);
+    if (record.mutedUntil && record.mutedUntil > now) {
+      lines.push(`  muted for another ${formatDuration(record.mutedUntil - now)}`);
+    }
+    return lines.join('\n');
+  }
+
+  private strike(record: UserRecord, now: number): void {
+    record.strikes.push(now);
+    if (record.strikes.length >= STRIKES_BEFORE_MUTE && !(record.mutedUntil && record.mutedUntil > now)) {
+      record.mutedUntil = now + MUTE_MS;
+      console.warn(`Muting @${record.username || record.id} for ${formatDuration(MUTE_MS)} after ${record.strikes.length} strikes`);
+    }
+  }
+
+  private getRecord(user: UserRef): UserRecord {
+    const key = userKeys(user)[0];
+    let record = this.users.get(key);
+    if (!record) {
+      record = { id: user.id, username: user.username, mentions: [], expensive: [], recent: [], strikes: [] };
+      this.users.set(key, record);
+    }
+    // Usernames can change; keep the latest one for admin lookups
+    record.username = user.username || record.username;
+    return record;
+  }
+
+  // Admin commands name users by username (or ID)
+  private findRecord(user: string): UserRecord | undefined {
+    const key = userKeys({ username: user })[0];
+    return Array.from(this.users.values()).find(record => userKeys(record).includes(key));
+  }
+
+  private prune(record: UserRecord, now: number): void {
+    const longest = (quotas: Quota[]) => Math.max(0, ...quotas.map(quota => quota.windowMs));
+    record.mentions = record.mentions.filter(time => time > now - longest(this.mentionQuotas));
+    record.expensive = record.expensive.filter(time => time > now - longest(this.expensiveQuotas));
+    record.recent = record.recent.filter(entry => entry.at > now - DUPLICATE_WINDOW_MS);
+    record.strikes = record.strikes.filter(time => time > now - STRIKE_WINDOW_MS);
+  }
+
+  private save(now: number = Date.now()): void {
+    if (!this.file) {
+      return;
+    }
+
+    // Users with nothing left to remember don't need to be written out
+    const users = Array.from(this.users.values()).filter(record => {
+      this.prune(record, now);
+      return record.mentions.length > 0 || record.expensive.length > 0 || record.strikes.length > 0 ||
+        (record.mutedUntil && record.mutedUntil > now);
+    });
+    const blocked: LimitsSnapshot['blocked'] = {};
+    this.blocked.forEach((reason, user) => blocked[user] = reason);
+    const snapshot: LimitsSnapshot = { users, blocked, allowed: Array.from(this.allowed) };
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tempPath = `${this.file}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+      fs.renameSync(tempPath, this.file);
+    } catch (error) {
+      console.error('Error saving user limits:', error);
+    }
+  }
+}
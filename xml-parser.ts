@@ -0,0 +1,237 @@
+// Minimal, dependency-free XML reader used for NCBI EFetch and PMC JATS payloads.
+// It builds a plain element tree and keeps mixed content (text interleaved with
+// inline markup such as <i> or <xref>) in document order.
+
+export interface XmlElement {
+  name: string;
+  attributes: {[key: string]: string};
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: {[key: string]: string} = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      // Past the last Unicode code point is malformed; one bad entity mustn't sink the record
+      if (!Number.isFinite(codePoint)) {
+        return match;
+      }
+      return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '\uFFFD';
+    }
+    return Object.prototype.hasOwnProperty.call(NAMED_ENTITIES, entity) ? NAMED_ENTITIES[entity] : match;
+  });
+}
+
+// Parse an XML document into a synthetic "#document" element holding the top-level nodes.
+// The reader is forgiving: unknown entities are kept verbatim and unbalanced closing tags
+// close the nearest matching open element.
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text.length > 0) {
+      current().children.push(text);
+    }
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+
+    if (lt === -1) {
+      appendText(decodeEntities(xml.slice(pos)));
+      break;
+    }
+
+    if (lt > pos) {
+      appendText(decodeEntities(xml.slice(pos, lt)));
+    }
+
+    // Comments
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      pos = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+
+    // CDATA sections are copied through without entity decoding
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      appendText(xml.slice(lt + 9, end === -1 ? xml.length : end));
+      pos = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+
+    // Processing instructions and the XML declaration
+    if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt + 2);
+      pos = end === -1 ? xml.length : end + 2;
+      continue;
+    }
+
+    // DOCTYPE and other declarations, which may carry an internal subset in [...]
+    if (xml.startsWith('<!', lt)) {
+      let i = lt + 2;
+      let depth = 0;
+      while (i < xml.length) {
+        const c = xml[i];
+        if (c === '[') depth++;
+        else if (c === ']') depth--;
+        else if (c === '>' && depth <= 0) break;
+        i++;
+      }
+      pos = i + 1;
+      continue;
+    }
+
+    // Closing tag
+    if (xml[lt + 1] === '/') {
+      const end = xml.indexOf('>', lt);
+      const name = xml.slice(lt + 2, end === -1 ? xml.length : end).trim();
+
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+
+      pos = end === -1 ? xml.length : end + 1;
+      continue;
+    }
+
+    // Opening or self-closing tag; quoted attribute values may contain '>'
+    let i = lt + 1;
+    let quote: string | null = null;
+    while (i < xml.length) {
+      const c = xml[i];
+      if (quote) {
+        if (c === quote) quote = null;
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '>') {
+        break;
+      }
+      i++;
+    }
+
+    let raw = xml.slice(lt + 1, i);
+    const selfClosing = raw.endsWith('/');
+    if (selfClosing) {
+      raw = raw.slice(0, -1);
+    }
+
+    const nameMatch = raw.match(/^[^\s/>]+/);
+    if (!nameMatch) {
+      // Not a tag after all (a stray '<'), keep it as text
+      appendText('<');
+      pos = lt + 1;
+      continue;
+    }
+
+    const element: XmlElement = {
+      name: nameMatch[0],
+      attributes: parseAttributes(raw.slice(nameMatch[0].length)),
+      children: []
+    };
+
+    current().children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+
+    pos = i + 1;
+  }
+
+  return root;
+}
+
+function parseAttributes(source: string): {[key: string]: string} {
+  const attributes: {[key: string]: string} = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] !== undefined ? match[2] : match[3]);
+  }
+
+  return attributes;
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+  return typeof node === 'object' && node !== null;
+}
+
+// Direct child elements, optionally filtered by tag name
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    isElement(child) && (name === undefined || child.name === name)
+  );
+}
+
+// Follow a slash-separated path of child tag names, e.g. "MedlineCitation/Article/Abstract"
+export function findAll(element: XmlElement, path: string): XmlElement[] {
+  let current: XmlElement[] = [element];
+
+  for (const segment of path.split('/').filter(Boolean)) {
+    current = current.reduce<XmlElement[]>(
+      (found, el) => found.concat(childElements(el, segment)),
+      []
+    );
+  }
+
+  return current;
+}
+
+export function findFirst(element: XmlElement, path: string): XmlElement | undefined {
+  return findAll(element, path)[0];
+}
+
+// All descendants with the given tag name, in document order
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...findDescendants(child, name));
+  }
+
+  return found;
+}
+
+// Concatenated text of a node with whitespace collapsed
+export function textContent(node: XmlNode | undefined): string {
+  return rawText(node).replace(/\s+/g, ' ').trim();
+}
+
+function rawText(node: XmlNode | undefined): string {
+  if (node === undefined) {
+    return '';
+  }
+  if (typeof node === 'string') {
+    return node;
+  }
+  return node.children.map(rawText).join('');
+}
+
+// Text of the first element at a path, or an empty string
+export function textAt(element: XmlElement, path: string): string {
+  return textContent(findFirst(element, path));
+}